@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import { X, Loader, User, Mail, Briefcase, Plus, Minus } from 'react-feather';
+import { getEmbeddingSignature } from '../lib/EmbeddingProvider';
+import type { CanonicalSkill } from '../constants/SkillTypes';
+import ProficiencyHint from './ProficiencyHint';
 
 interface SkillEntry {
     name: string;
     proficiency: number;
+    // What was typed, when it was matched to a differently spelled catalogue skill
+    typed?: string;
 }
 
 interface Props {
@@ -34,16 +39,42 @@ export default function AddEmployeeModal({ isOpen, onClose, onSuccess }: Props)
     });
     const [skills, setSkills] = useState<SkillEntry[]>([]);
     const [newSkillName, setNewSkillName] = useState('');
+    const [isMatching, setIsMatching] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const addSkill = () => {
-        if (!newSkillName.trim()) return;
-        if (skills.some(s => s.name.toLowerCase() === newSkillName.toLowerCase().trim())) {
-            setError('Skill already added');
+    // Match the typed name to the catalogue ("k8s" -> Kubernetes); keep it as typed if nothing matches
+    const resolveSkillName = async (typed: string): Promise<string> => {
+        try {
+            const response = await fetch('/api/skills/canonicalize', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    names: [typed],
+                    provider: getEmbeddingSignature().provider,
+                }),
+            });
+            if (!response.ok) return typed;
+            const { matches } = await response.json() as { matches: CanonicalSkill[] };
+            return matches[0]?.skill?.name || typed;
+        } catch {
+            return typed;
+        }
+    };
+
+    const addSkill = async () => {
+        const typed = newSkillName.trim();
+        if (!typed || isMatching) return;
+
+        setIsMatching(true);
+        const name = await resolveSkillName(typed);
+        setIsMatching(false);
+
+        if (skills.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+            setError(name === typed ? 'Skill already added' : `${typed} is already added as ${name}`);
             return;
         }
-        setSkills(prev => [...prev, { name: newSkillName.trim(), proficiency: 3 }]);
+        setSkills(prev => [...prev, { name, proficiency: 3, typed: name === typed ? undefined : typed }]);
         setNewSkillName('');
         setError(null);
     };
@@ -228,45 +259,54 @@ export default function AddEmployeeModal({ isOpen, onClose, onSuccess }: Props)
                             <button
                                 type="button"
                                 onClick={addSkill}
-                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                                disabled={isMatching}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
                             >
-                                <Plus size={18} />
+                                {isMatching ? <Loader className="animate-spin" size={18} /> : <Plus size={18} />}
                             </button>
                         </div>
 
                         {/* Skills list */}
                         {skills.length > 0 && (
-                            <div className="space-y-2 max-h-48 overflow-y-auto">
+                            <div className="space-y-2 max-h-64 overflow-y-auto">
                                 {skills.map((skill, index) => (
                                     <div 
                                         key={index}
-                                        className="flex items-center gap-3 p-3 bg-neutral-50 rounded-lg border border-neutral-200"
+                                        className="p-3 bg-neutral-50 rounded-lg border border-neutral-200"
                                     >
-                                        <span className="font-medium text-neutral-700 min-w-[100px]">
-                                            {skill.name}
-                                        </span>
-                                        <div className="flex-1 flex items-center gap-2">
-                                            <span className="text-xs text-neutral-500">1</span>
-                                            <input
-                                                type="range"
-                                                min="1"
-                                                max="5"
-                                                value={skill.proficiency}
-                                                onChange={(e) => updateProficiency(index, Number(e.target.value))}
-                                                className="flex-1 h-2 bg-neutral-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                                            />
-                                            <span className="text-xs text-neutral-500">5</span>
-                                            <span className="w-8 text-center font-bold text-indigo-600">
-                                                {skill.proficiency}
+                                        <div className="flex items-center gap-3">
+                                            <span className="font-medium text-neutral-700 min-w-[100px]">
+                                                {skill.name}
+                                                {skill.typed && (
+                                                    <span className="block text-xs font-normal text-neutral-400">
+                                                        from &ldquo;{skill.typed}&rdquo;
+                                                    </span>
+                                                )}
                                             </span>
+                                            <div className="flex-1 flex items-center gap-2">
+                                                <span className="text-xs text-neutral-500">1</span>
+                                                <input
+                                                    type="range"
+                                                    min="1"
+                                                    max="5"
+                                                    value={skill.proficiency}
+                                                    onChange={(e) => updateProficiency(index, Number(e.target.value))}
+                                                    className="flex-1 h-2 bg-neutral-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                                                />
+                                                <span className="text-xs text-neutral-500">5</span>
+                                                <span className="w-8 text-center font-bold text-indigo-600">
+                                                    {skill.proficiency}
+                                                </span>
+                                            </div>
+                                            <button
+                                                type="button"
+                                                onClick={() => removeSkill(index)}
+                                                className="p-1 text-red-500 hover:bg-red-50 rounded"
+                                            >
+                                                <Minus size={16} />
+                                            </button>
                                         </div>
-                                        <button
-                                            type="button"
-                                            onClick={() => removeSkill(index)}
-                                            className="p-1 text-red-500 hover:bg-red-50 rounded"
-                                        >
-                                            <Minus size={16} />
-                                        </button>
+                                        <ProficiencyHint skill={skill.name} level={skill.proficiency} className="mt-2" />
                                     </div>
                                 ))}
                             </div>
@@ -1,6 +1,8 @@
-import React from 'react';
-import { User, Award, Briefcase, Star } from 'react-feather';
-import type { CandidateMatch } from '../constants/SkillTypes';
+import React, { useState } from 'react';
+import { User, Award, Briefcase, Star, ChevronDown, ChevronUp } from 'react-feather';
+import { useProficiencyRubrics } from '../constants/SkillQueries';
+import { describeProficiency } from '../lib/ProficiencyRubrics';
+import type { CandidateMatch, EmployeeChunkSection, SearchChannel } from '../constants/SkillTypes';
 
 type Props = {
     candidate: CandidateMatch;
@@ -9,17 +11,6 @@ type Props = {
     onClick?: () => void;
 };
 
-function getProficiencyLabel(level: number): string {
-    switch (level) {
-        case 1: return 'Beginner';
-        case 2: return 'Basic';
-        case 3: return 'Intermediate';
-        case 4: return 'Advanced';
-        case 5: return 'Expert';
-        default: return 'Unknown';
-    }
-}
-
 function getProficiencyColor(level: number): string {
     switch (level) {
         case 1: return '#94a3b8';
@@ -31,9 +22,27 @@ function getProficiencyColor(level: number): string {
     }
 }
 
+const CHANNEL_LABELS: Record<SearchChannel, string> = {
+    vector: 'Semantic',
+    lexical: 'Keyword',
+};
+
+const SECTION_LABELS: Record<EmployeeChunkSection, string> = {
+    summary: 'Profile',
+    bio: 'Bio',
+    experience: 'Experience',
+    education: 'Education',
+    project: 'Project',
+};
+
 export default function CandidateCard({ candidate, rank, compact = false, onClick }: Props) {
-    const { employee, matchScore, matchedSkills, semanticScore, graphScore } = candidate;
+    const { employee, matchScore, matchedSkills, semanticScore, graphScore, channels, explanation, matchedChunk } = candidate;
     const scorePercent = Math.round(matchScore * 100);
+    const [showBreakdown, setShowBreakdown] = useState(false);
+    // Level descriptors from the skill's rubric ("4 in Kubernetes" = runs production clusters)
+    const { data: rubrics } = useProficiencyRubrics();
+    
+    const formatScore = (value: number) => value.toFixed(2);
     
     if (compact) {
         return (
@@ -56,15 +65,19 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                 </div>
                 
                 <div className="skills-preview">
-                    {matchedSkills.slice(0, 3).map(({ skill, proficiency }) => (
-                        <span 
-                            key={skill.id} 
-                            className="skill-tag"
-                            style={{ borderColor: getProficiencyColor(proficiency) }}
-                        >
-                            {skill.name}
-                        </span>
-                    ))}
+                    {matchedSkills.slice(0, 3).map(({ skill, proficiency }) => {
+                        const descriptor = describeProficiency(rubrics, skill, proficiency);
+                        return (
+                            <span 
+                                key={skill.id} 
+                                className="skill-tag"
+                                style={{ borderColor: getProficiencyColor(proficiency) }}
+                                title={`${proficiency}/5 ${descriptor.label}: ${descriptor.description}`}
+                            >
+                                {skill.name}
+                            </span>
+                        );
+                    })}
                     {matchedSkills.length > 3 && (
                         <span className="more-skills">+{matchedSkills.length - 3}</span>
                     )}
@@ -220,6 +233,15 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                             <span className="percentage">{scorePercent}%</span>
                         </div>
                         <span className="score-label">Match Score</span>
+                        {channels && channels.length > 0 && (
+                            <div className="channels" title="Search channels that found this candidate">
+                                {channels.map(channel => (
+                                    <span key={channel} className={`channel ${channel}`}>
+                                        {CHANNEL_LABELS[channel]}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                     </div>
                     
                     <div className="score-breakdown">
@@ -246,41 +268,148 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                     </div>
                 </div>
                 
+                {matchedChunk && (
+                    <div className="matched-chunk" title="Profile section closest to the query">
+                        <span className="chunk-section">
+                            {SECTION_LABELS[matchedChunk.section]} · {Math.round(matchedChunk.score * 100)}%
+                        </span>
+                        <p>{matchedChunk.text}</p>
+                    </div>
+                )}
+                
                 <div className="skills-section">
                     <h4>
                         <Award size={16} />
                         Matching Skills
                     </h4>
                     <div className="skills-grid">
-                        {matchedSkills.map(({ skill, proficiency, relevance }) => (
-                            <div 
-                                key={skill.id} 
-                                className="skill-item"
-                                style={{ '--prof-color': getProficiencyColor(proficiency) } as React.CSSProperties}
-                            >
-                                <div className="skill-header">
-                                    <span className="skill-name">{skill.name}</span>
-                                    <div className="proficiency-stars">
-                                        {[1, 2, 3, 4, 5].map(level => (
-                                            <Star 
-                                                key={level}
-                                                size={12}
-                                                fill={level <= proficiency ? getProficiencyColor(proficiency) : 'transparent'}
-                                                color={level <= proficiency ? getProficiencyColor(proficiency) : 'rgba(255,255,255,0.2)'}
-                                            />
-                                        ))}
+                        {matchedSkills.map(({ skill, proficiency, relevance, channels: skillChannels, inferred }) => {
+                            const descriptor = describeProficiency(rubrics, skill, proficiency);
+                            return (
+                                <div 
+                                    key={skill.id} 
+                                    className={`skill-item ${inferred ? 'inferred' : ''}`}
+                                    title={inferred ? `Inferred: ${skill.name} is a ${inferred.relation.replace(/_/g, ' ')} of ${inferred.via}` : undefined}
+                                    style={{ '--prof-color': getProficiencyColor(proficiency) } as React.CSSProperties}
+                                >
+                                    <div className="skill-header">
+                                        <span className="skill-name">{skill.name}</span>
+                                        <div className="proficiency-stars">
+                                            {[1, 2, 3, 4, 5].map(level => (
+                                                <Star 
+                                                    key={level}
+                                                    size={12}
+                                                    fill={level <= proficiency ? getProficiencyColor(proficiency) : 'transparent'}
+                                                    color={level <= proficiency ? getProficiencyColor(proficiency) : 'rgba(255,255,255,0.2)'}
+                                                />
+                                            ))}
+                                        </div>
                                     </div>
+                                    <div className="skill-meta">
+                                        <span className="proficiency-label">{descriptor.label}</span>
+                                        <span className="relevance">
+                                            {Math.round(relevance * 100)}% relevant
+                                            {skillChannels?.includes('lexical') && ' · keyword'}
+                                        </span>
+                                    </div>
+                                    <p className="proficiency-descriptor">{descriptor.description}</p>
+                                    {inferred && (
+                                        <div className="inferred-label">via {inferred.via}</div>
+                                    )}
                                 </div>
-                                <div className="skill-meta">
-                                    <span className="proficiency-label">{getProficiencyLabel(proficiency)}</span>
-                                    <span className="relevance">
-                                        {Math.round(relevance * 100)}% relevant
-                                    </span>
-                                </div>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </div>
+                
+                {explanation && (
+                    <div className="breakdown-section">
+                        <button
+                            className="breakdown-toggle"
+                            onClick={e => {
+                                e.stopPropagation();
+                                setShowBreakdown(prev => !prev);
+                            }}
+                        >
+                            {showBreakdown ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                            Why this score?
+                        </button>
+                        
+                        {showBreakdown && (
+                            <div className="breakdown-details">
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            <th>Skill</th>
+                                            <th>Relevance × Proficiency</th>
+                                            <th>Cert. bonus</th>
+                                            <th>Points</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {explanation.skills.map(term => (
+                                            <tr key={term.skillId}>
+                                                <td>
+                                                    {term.skill}
+                                                    {term.inferred && <span className="inferred-note"> (via {term.inferred.via})</span>}
+                                                </td>
+                                                <td>
+                                                    {formatScore(term.relevance)} × {term.proficiency}/5
+                                                </td>
+                                                <td>{term.certificationBonus > 0 ? `+${formatScore(term.certificationBonus)}` : '—'}</td>
+                                                <td>{formatScore(term.contribution + term.certificationBonus)}</td>
+                                            </tr>
+                                        ))}
+                                        <tr className="subtotal">
+                                            <td colSpan={3}>
+                                                Skills score × weight {formatScore(explanation.graph.weight)}
+                                            </td>
+                                            <td>{formatScore(explanation.graph.contribution)}</td>
+                                        </tr>
+                                        <tr className="subtotal">
+                                            <td colSpan={3}>
+                                                Semantic similarity {formatScore(explanation.semantic.similarity)}
+                                                {explanation.semantic.estimated && ' (estimated)'}
+                                                {explanation.semantic.chunk && (
+                                                    ` (${explanation.semantic.aggregation === 'weighted' ? 'weighted over sections' : 'best section'}: ${SECTION_LABELS[explanation.semantic.chunk.section].toLowerCase()})`
+                                                )}
+                                                {' '}× weight {formatScore(explanation.semantic.weight)}
+                                            </td>
+                                            <td>{formatScore(explanation.semantic.contribution)}</td>
+                                        </tr>
+                                        {explanation.lexical && (
+                                            <tr className="subtotal">
+                                                <td colSpan={3}>
+                                                    Keyword match: profile {formatScore(explanation.lexical.profileScore)}
+                                                    {', skills '}{formatScore(explanation.lexical.skillScore)}
+                                                </td>
+                                                <td>{formatScore(explanation.lexical.profileScore + explanation.lexical.skillScore)}</td>
+                                            </tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                                
+                                <p className="fusion-note">
+                                    {(Object.keys(explanation.fusion.ranks) as SearchChannel[])
+                                        .map(channel => `#${explanation.fusion.ranks[channel]} by ${CHANNEL_LABELS[channel].toLowerCase()}`)
+                                        .join(', ')}
+                                    {` → ${explanation.fusion.method.toUpperCase()} score ${scorePercent}%`}
+                                    {` (profile "${explanation.profile}")`}
+                                </p>
+                                
+                                {explanation.filters.length > 0 && (
+                                    <ul className="filter-notes">
+                                        {explanation.filters.map((note, idx) => (
+                                            <li key={idx}>
+                                                <strong>{note.filter}:</strong> {note.effect}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
             
             <style jsx>{`
@@ -378,6 +507,33 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                     font-weight: 500;
                 }
                 
+                .matched-chunk {
+                    margin: -8px 0 24px 0;
+                    padding: 10px 14px;
+                    border-left: 3px solid #8b5cf6;
+                    background: rgba(139, 92, 246, 0.08);
+                    border-radius: 0 8px 8px 0;
+                }
+                
+                .chunk-section {
+                    font-size: 0.7rem;
+                    font-weight: 600;
+                    text-transform: uppercase;
+                    letter-spacing: 0.04em;
+                    color: #a78bfa;
+                }
+                
+                .matched-chunk p {
+                    color: rgba(255, 255, 255, 0.75);
+                    font-size: 0.8rem;
+                    line-height: 1.5;
+                    margin: 4px 0 0 0;
+                    display: -webkit-box;
+                    -webkit-line-clamp: 3;
+                    -webkit-box-orient: vertical;
+                    overflow: hidden;
+                }
+                
                 .bio {
                     color: rgba(255, 255, 255, 0.6);
                     font-size: 0.85rem;
@@ -448,6 +604,29 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                     margin-top: 8px;
                 }
                 
+                .channels {
+                    display: flex;
+                    justify-content: center;
+                    gap: 4px;
+                    margin-top: 8px;
+                }
+                
+                .channel {
+                    font-size: 0.65rem;
+                    padding: 2px 6px;
+                    border-radius: 8px;
+                }
+                
+                .channel.vector {
+                    background: rgba(20, 184, 166, 0.2);
+                    color: #5eead4;
+                }
+                
+                .channel.lexical {
+                    background: rgba(251, 191, 36, 0.2);
+                    color: #fcd34d;
+                }
+                
                 .score-breakdown {
                     display: flex;
                     flex-direction: column;
@@ -513,6 +692,21 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                     border-left: 3px solid var(--prof-color);
                 }
                 
+                .skill-item.inferred {
+                    border-left-style: dashed;
+                }
+                
+                .inferred-label,
+                .inferred-note {
+                    font-size: 0.7rem;
+                    color: rgba(165, 180, 252, 0.8);
+                    font-style: italic;
+                }
+                
+                .inferred-label {
+                    margin-top: 4px;
+                }
+                
                 .skill-header {
                     display: flex;
                     justify-content: space-between;
@@ -541,9 +735,78 @@ export default function CandidateCard({ candidate, rank, compact = false, onClic
                     color: var(--prof-color);
                 }
                 
+                .proficiency-descriptor {
+                    margin: 6px 0 0;
+                    font-size: 0.72rem;
+                    line-height: 1.35;
+                    color: rgba(255, 255, 255, 0.55);
+                }
+                
                 .relevance {
                     color: rgba(255, 255, 255, 0.5);
                 }
+                
+                .breakdown-section {
+                    padding: 0 24px 20px;
+                }
+                
+                .breakdown-toggle {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    background: none;
+                    border: none;
+                    color: #a5b4fc;
+                    font-size: 0.8rem;
+                    cursor: pointer;
+                    padding: 0;
+                }
+                
+                .breakdown-details {
+                    margin-top: 12px;
+                    padding: 16px;
+                    background: rgba(0, 0, 0, 0.2);
+                    border-radius: 12px;
+                    font-size: 0.75rem;
+                    color: rgba(255, 255, 255, 0.8);
+                }
+                
+                .breakdown-details table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+                
+                .breakdown-details th {
+                    text-align: left;
+                    font-weight: 500;
+                    color: rgba(255, 255, 255, 0.5);
+                    padding-bottom: 6px;
+                }
+                
+                .breakdown-details td {
+                    padding: 4px 0;
+                }
+                
+                .breakdown-details th:last-child,
+                .breakdown-details td:last-child {
+                    text-align: right;
+                }
+                
+                .breakdown-details .subtotal td {
+                    border-top: 1px solid rgba(255, 255, 255, 0.1);
+                    padding-top: 6px;
+                }
+                
+                .fusion-note {
+                    margin: 12px 0 0 0;
+                    color: rgba(255, 255, 255, 0.6);
+                }
+                
+                .filter-notes {
+                    margin: 8px 0 0 0;
+                    padding-left: 16px;
+                    color: rgba(251, 191, 36, 0.8);
+                }
             `}</style>
         </div>
     );
@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, Eye, Upload } from 'react-feather';
+import {
+    useExportCatalogue,
+    useImportCatalogue,
+} from '../constants/SkillQueries';
+import type {
+    CatalogueDiff,
+    CatalogueFile,
+    CatalogueFormat,
+} from '../constants/SkillTypes';
+
+const FORMATS: { value: CatalogueFormat; label: string }[] = [
+    { value: 'json', label: 'JSON' },
+    { value: 'csv', label: 'CSV (skills + relations)' },
+    { value: 'esco', label: 'ESCO-style CSV' },
+];
+
+function download(file: CatalogueFile) {
+    const type = file.name.endsWith('.json') ? 'application/json' : 'text/csv';
+    const url = URL.createObjectURL(new Blob([file.content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function DiffSummary({ diff }: { diff: CatalogueDiff }) {
+    const format = (value: unknown) =>
+        Array.isArray(value) ? value.join(', ') || '—' : String(value ?? '—');
+
+    return (
+        <div className="diff">
+            <p className="totals">
+                {diff.addedSkills.length} new skills ·{' '}
+                {diff.changedSkills.length} changed · {diff.unchangedSkills}{' '}
+                unchanged · {diff.addedAliases.length} new aliases ·{' '}
+                {diff.addedRelations.length} new relations ·{' '}
+                {diff.changedRelations.length} changed relations
+            </p>
+
+            {diff.conflicts.length > 0 && (
+                <div className="section conflicts">
+                    <h3>
+                        <AlertTriangle size={13} /> {diff.conflicts.length}{' '}
+                        conflicts (skipped)
+                    </h3>
+                    <ul>
+                        {diff.conflicts.map((conflict, i) => (
+                            <li key={i}>{conflict.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {diff.addedSkills.length > 0 && (
+                <div className="section">
+                    <h3>New skills</h3>
+                    <ul>
+                        {diff.addedSkills.map((skill) => (
+                            <li key={skill.key}>
+                                {skill.name}{' '}
+                                <span className="muted">{skill.category}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {diff.changedSkills.length > 0 && (
+                <div className="section">
+                    <h3>Changed skills</h3>
+                    <ul>
+                        {diff.changedSkills.map((skill) => (
+                            <li key={skill.key}>
+                                {skill.name}
+                                {skill.changes.map((change) => (
+                                    <span key={change.field} className="muted">
+                                        {' '}
+                                        · {change.field}:{' '}
+                                        {format(change.before)} →{' '}
+                                        {format(change.after)}
+                                    </span>
+                                ))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {diff.addedRelations.length + diff.changedRelations.length > 0 && (
+                <div className="section">
+                    <h3>Relations</h3>
+                    <ul>
+                        {diff.addedRelations.map((relation) => (
+                            <li
+                                key={`${relation.from}|${relation.to}|${relation.type}`}
+                            >
+                                + {relation.from} —{relation.type}→{' '}
+                                {relation.to}
+                            </li>
+                        ))}
+                        {diff.changedRelations.map((relation) => (
+                            <li
+                                key={`${relation.from}|${relation.to}|${relation.type}`}
+                            >
+                                ~ {relation.from} —{relation.type}→{' '}
+                                {relation.to}{' '}
+                                <span className="muted">
+                                    {relation.before} → {relation.similarity}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {diff.warnings.length > 0 && (
+                <div className="section">
+                    <h3>Warnings</h3>
+                    <ul>
+                        {diff.warnings.map((warning, i) => (
+                            <li key={i} className="muted">
+                                {warning}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <style jsx>{`
+                .diff {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 10px;
+                    margin-top: 12px;
+                }
+                .totals {
+                    margin: 0;
+                    color: rgba(255, 255, 255, 0.7);
+                    font-size: 0.8rem;
+                }
+                .section h3 {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    margin: 0 0 4px;
+                    font-size: 0.8rem;
+                    color: rgba(255, 255, 255, 0.8);
+                }
+                .conflicts h3 {
+                    color: #fbbf24;
+                }
+                ul {
+                    margin: 0;
+                    padding-left: 18px;
+                    max-height: 180px;
+                    overflow-y: auto;
+                    font-size: 0.78rem;
+                }
+                .muted {
+                    color: rgba(255, 255, 255, 0.45);
+                }
+            `}</style>
+        </div>
+    );
+}
+
+export default function CatalogueSyncPanel() {
+    const [format, setFormat] = useState<CatalogueFormat>('json');
+    const [files, setFiles] = useState<CatalogueFile[]>([]);
+    const exporter = useExportCatalogue();
+    const importer = useImportCatalogue();
+    const result = importer.data;
+
+    const onFiles = async (list: FileList | null) => {
+        importer.reset();
+        setFiles(
+            await Promise.all(
+                Array.from(list || []).map(async (file) => ({
+                    name: file.name,
+                    content: await file.text(),
+                }))
+            )
+        );
+    };
+
+    const onExport = () =>
+        exporter.mutate(
+            { format },
+            { onSuccess: (exported) => exported.forEach(download) }
+        );
+
+    return (
+        <section className="catalogue">
+            <div className="toolbar">
+                <h2>Import / export catalogue</h2>
+                <select
+                    value={format}
+                    onChange={(e) =>
+                        setFormat(e.target.value as CatalogueFormat)
+                    }
+                >
+                    {FORMATS.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <button onClick={onExport} disabled={exporter.isLoading}>
+                    <Download size={14} />
+                    {exporter.isLoading ? 'Exporting...' : 'Export'}
+                </button>
+            </div>
+            {exporter.isError && (
+                <p className="error">{(exporter.error as Error).message}</p>
+            )}
+
+            <div className="toolbar">
+                <input
+                    type="file"
+                    multiple
+                    accept=".json,.csv"
+                    onChange={(e) => onFiles(e.target.files)}
+                />
+                <button
+                    disabled={files.length === 0 || importer.isLoading}
+                    onClick={() => importer.mutate({ files, dryRun: true })}
+                >
+                    <Eye size={14} /> Preview
+                </button>
+                <button
+                    className="apply"
+                    disabled={!result || result.applied || importer.isLoading}
+                    onClick={() => importer.mutate({ files, dryRun: false })}
+                >
+                    <Upload size={14} />
+                    {result?.applied ? 'Imported' : 'Apply import'}
+                </button>
+            </div>
+            <p className="hint">
+                Reads our JSON/CSV exports, ESCO skills, broader-relation and
+                skill-skill relation CSVs, and O*NET technology-skill CSVs.
+                Nothing is deleted; conflicts are skipped.
+            </p>
+
+            {importer.isLoading && <p className="hint">Comparing...</p>}
+            {importer.isError && (
+                <p className="error">{(importer.error as Error).message}</p>
+            )}
+            {result && <DiffSummary diff={result.diff} />}
+
+            <style jsx>{`
+                .catalogue {
+                    margin: 0 40px 12px;
+                    padding: 16px 20px;
+                    background: rgba(0, 0, 0, 0.2);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 14px;
+                }
+                .toolbar {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    margin-bottom: 10px;
+                }
+                .toolbar h2 {
+                    flex: 1;
+                    margin: 0;
+                    font-size: 1rem;
+                    color: rgba(255, 255, 255, 0.8);
+                }
+                .toolbar input {
+                    flex: 1;
+                    color: rgba(255, 255, 255, 0.7);
+                    font-size: 0.8rem;
+                }
+                .toolbar select,
+                .toolbar button {
+                    background: rgba(255, 255, 255, 0.1);
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    border-radius: 8px;
+                    padding: 6px 10px;
+                    color: #fff;
+                    outline: none;
+                    cursor: pointer;
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    font-size: 0.8rem;
+                }
+                .toolbar button.apply {
+                    background: #6366f1;
+                    border-color: #6366f1;
+                    font-weight: 600;
+                }
+                .toolbar button:disabled {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+                .hint {
+                    margin: 0;
+                    color: rgba(255, 255, 255, 0.5);
+                    font-size: 0.8rem;
+                }
+                .error {
+                    margin: 0;
+                    color: #f87171;
+                    font-size: 0.8rem;
+                }
+            `}</style>
+        </section>
+    );
+}
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { GitMerge, RefreshCw } from 'react-feather';
+import { useDuplicateSkills, useMergeSkills } from '../constants/SkillQueries';
+import type { DuplicateSkillCluster, SkillID } from '../constants/SkillTypes';
+
+const THRESHOLDS = [0.65, 0.75, 0.85];
+
+function ClusterCard({ cluster }: { cluster: DuplicateSkillCluster }) {
+    const [survivor, setSurvivor] = useState<SkillID>(cluster.survivor);
+    const [excluded, setExcluded] = useState<SkillID[]>([]);
+    const merge = useMergeSkills();
+
+    const duplicates = cluster.skills
+        .map(({ skill }) => skill.id)
+        .filter((id) => id !== survivor && !excluded.includes(id));
+    const survivorName = cluster.skills.find(
+        ({ skill }) => skill.id === survivor
+    )?.skill.name;
+    const bestPair = cluster.pairs[0];
+
+    const toggle = (id: SkillID) =>
+        setExcluded((prev) =>
+            prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+        );
+
+    return (
+        <div className="cluster">
+            {cluster.skills.map(({ skill, usage }) => (
+                <label
+                    key={skill.id}
+                    className={`member ${
+                        skill.id === survivor ? 'survivor' : ''
+                    }`}
+                >
+                    <input
+                        type="radio"
+                        name={`survivor-${cluster.survivor}`}
+                        checked={skill.id === survivor}
+                        onChange={() => setSurvivor(skill.id)}
+                        title="Keep this skill"
+                    />
+                    <span className="name">{skill.name}</span>
+                    <span className="usage">
+                        {usage.employees} people · {usage.projects} projects ·{' '}
+                        {usage.relations} relations
+                    </span>
+                    {skill.id !== survivor && (
+                        <input
+                            type="checkbox"
+                            checked={!excluded.includes(skill.id)}
+                            onChange={() => toggle(skill.id)}
+                            title="Include in the merge"
+                        />
+                    )}
+                </label>
+            ))}
+            {bestPair && (
+                <p className="scores">
+                    Best match {Math.round(bestPair.score * 100)}%: name{' '}
+                    {Math.round(bestPair.nameSimilarity * 100)}%
+                    {bestPair.embeddingSimilarity !== null &&
+                        `, embedding ${Math.round(
+                            bestPair.embeddingSimilarity * 100
+                        )}%`}
+                </p>
+            )}
+            <button
+                className="merge-btn"
+                disabled={
+                    duplicates.length === 0 ||
+                    merge.isLoading ||
+                    merge.isSuccess
+                }
+                onClick={() => merge.mutate({ survivor, duplicates })}
+            >
+                <GitMerge size={14} />
+                {merge.isSuccess
+                    ? `Merged, ${merge.data.aliases.length} aliases recorded`
+                    : merge.isLoading
+                    ? 'Merging...'
+                    : `Merge ${duplicates.length} into ${survivorName}`}
+            </button>
+            {merge.isError && (
+                <p className="error">{(merge.error as Error).message}</p>
+            )}
+
+            <style jsx>{`
+                .cluster {
+                    background: rgba(255, 255, 255, 0.05);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 12px;
+                    padding: 14px;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 6px;
+                }
+                .member {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    font-size: 0.85rem;
+                    padding: 6px 8px;
+                    border-radius: 8px;
+                    cursor: pointer;
+                }
+                .member.survivor {
+                    background: rgba(99, 102, 241, 0.15);
+                }
+                .name {
+                    font-weight: 500;
+                }
+                .usage {
+                    flex: 1;
+                    color: rgba(255, 255, 255, 0.45);
+                    font-size: 0.75rem;
+                }
+                .scores {
+                    margin: 4px 0 0;
+                    color: rgba(255, 255, 255, 0.5);
+                    font-size: 0.75rem;
+                }
+                .merge-btn {
+                    margin-top: 6px;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    gap: 6px;
+                    background: #6366f1;
+                    border: none;
+                    border-radius: 8px;
+                    padding: 8px 12px;
+                    color: #fff;
+                    font-size: 0.8rem;
+                    font-weight: 600;
+                    cursor: pointer;
+                }
+                .merge-btn:disabled {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+                .error {
+                    margin: 0;
+                    color: #f87171;
+                    font-size: 0.75rem;
+                }
+            `}</style>
+        </div>
+    );
+}
+
+export default function DuplicateSkillsPanel() {
+    const [threshold, setThreshold] = useState(0.75);
+    const {
+        data: clusters = [],
+        isLoading,
+        isFetching,
+        isError,
+        error,
+        refetch,
+    } = useDuplicateSkills({ threshold });
+
+    return (
+        <section className="duplicates">
+            <div className="toolbar">
+                <h2>Possible duplicates</h2>
+                <select
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                >
+                    {THRESHOLDS.map((t) => (
+                        <option key={t} value={t}>
+                            Similarity ≥ {Math.round(t * 100)}%
+                        </option>
+                    ))}
+                </select>
+                <button onClick={() => refetch()} title="Search again">
+                    <RefreshCw size={14} className={isFetching ? 'spin' : ''} />
+                </button>
+            </div>
+
+            {isLoading ? (
+                <p className="hint">Comparing skills...</p>
+            ) : isError ? (
+                <p className="hint">
+                    Could not look for duplicates: {(error as Error).message}
+                </p>
+            ) : clusters.length === 0 ? (
+                <p className="hint">No duplicates above this similarity.</p>
+            ) : (
+                <div className="clusters">
+                    {clusters.map((cluster) => (
+                        <ClusterCard
+                            key={cluster.skills
+                                .map(({ skill }) => skill.id)
+                                .join('|')}
+                            cluster={cluster}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <style jsx>{`
+                .duplicates {
+                    margin: 0 40px 12px;
+                    padding: 16px 20px;
+                    background: rgba(0, 0, 0, 0.2);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 14px;
+                }
+                .toolbar {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    margin-bottom: 12px;
+                }
+                .toolbar h2 {
+                    flex: 1;
+                    margin: 0;
+                    font-size: 1rem;
+                    color: rgba(255, 255, 255, 0.8);
+                }
+                .toolbar select,
+                .toolbar button {
+                    background: rgba(255, 255, 255, 0.1);
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    border-radius: 8px;
+                    padding: 6px 10px;
+                    color: #fff;
+                    outline: none;
+                    cursor: pointer;
+                    display: flex;
+                    align-items: center;
+                }
+                .hint {
+                    margin: 0;
+                    color: rgba(255, 255, 255, 0.5);
+                    font-size: 0.85rem;
+                }
+                .clusters {
+                    display: grid;
+                    grid-template-columns: repeat(
+                        auto-fill,
+                        minmax(320px, 1fr)
+                    );
+                    gap: 12px;
+                }
+                :global(.spin) {
+                    animation: spin 1s linear infinite;
+                }
+                @keyframes spin {
+                    to {
+                        transform: rotate(360deg);
+                    }
+                }
+            `}</style>
+        </section>
+    );
+}
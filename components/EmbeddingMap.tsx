@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { RefreshCw } from 'react-feather';
+import { useEmbeddingMap } from '../constants/SkillQueries';
+import { getEmbeddingSignature } from '../lib/EmbeddingProvider';
+import type { EmbeddingMapPoint } from '../constants/SkillTypes';
+
+const WIDTH = 900;
+const HEIGHT = 600;
+const PADDING = 30;
+
+const PALETTE = [
+    '#6366f1',
+    '#10b981',
+    '#f59e0b',
+    '#ef4444',
+    '#06b6d4',
+    '#8b5cf6',
+    '#ec4899',
+    '#84cc16',
+    '#f97316',
+    '#14b8a6',
+    '#64748b',
+    '#eab308',
+];
+
+type Visible = { skill: boolean; employee: boolean };
+
+export default function EmbeddingMap() {
+    const { data, isLoading, isFetching, refetch } = useEmbeddingMap();
+    const [visible, setVisible] = useState<Visible>({
+        skill: true,
+        employee: true,
+    });
+    const [highlightGroup, setHighlightGroup] = useState<string | null>(null);
+    const [onlyUnskilled, setOnlyUnskilled] = useState(false);
+    const [hovered, setHovered] = useState<EmbeddingMapPoint | null>(null);
+
+    const points = useMemo(() => data?.points ?? [], [data]);
+
+    // Category/department -> colour, in order of first appearance
+    const colors = useMemo(() => {
+        const map = new Map<string, string>();
+        points.forEach((p) => {
+            if (!map.has(p.group)) {
+                map.set(p.group, PALETTE[map.size % PALETTE.length]);
+            }
+        });
+        return map;
+    }, [points]);
+
+    // Scale the projection to the drawing area, keeping the aspect ratio
+    const scale = useMemo(() => {
+        if (points.length === 0) return null;
+        const xs = points.map((p) => p.x);
+        const ys = points.map((p) => p.y);
+        const minX = Math.min(...xs);
+        const minY = Math.min(...ys);
+        const span =
+            Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+        const size = Math.min(WIDTH, HEIGHT) - PADDING * 2;
+        const offsetX = (WIDTH - size) / 2;
+        return (p: EmbeddingMapPoint) => ({
+            cx: offsetX + ((p.x - minX) / span) * size,
+            cy: HEIGHT - PADDING - ((p.y - minY) / span) * size,
+        });
+    }, [points]);
+
+    const shown = points.filter(
+        (p) =>
+            visible[p.type] &&
+            (!onlyUnskilled || (p.type === 'employee' && p.skillCount === 0))
+    );
+
+    if (isLoading) {
+        return (
+            <div className="p-12 text-center text-slate-500">
+                Projecting embeddings...
+            </div>
+        );
+    }
+
+    const signature = getEmbeddingSignature();
+    const [pc1, pc2] = data?.explainedVariance ?? [0, 0];
+
+    return (
+        <div className="flex flex-col lg:flex-row">
+            <div className="flex-1 p-4">
+                <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-slate-600">
+                    {(['skill', 'employee'] as const).map((type) => (
+                        <label
+                            key={type}
+                            className="flex items-center gap-1.5 cursor-pointer"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={visible[type]}
+                                onChange={(e) =>
+                                    setVisible({
+                                        ...visible,
+                                        [type]: e.target.checked,
+                                    })
+                                }
+                            />
+                            {type === 'skill'
+                                ? 'Skills (by category)'
+                                : 'Employees (by department)'}
+                        </label>
+                    ))}
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={onlyUnskilled}
+                            onChange={(e) => setOnlyUnskilled(e.target.checked)}
+                        />
+                        Only employees without skills
+                    </label>
+                    <button
+                        onClick={() => refetch()}
+                        className="ml-auto flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 rounded-lg hover:bg-slate-50"
+                    >
+                        <RefreshCw
+                            size={14}
+                            className={isFetching ? 'animate-spin' : ''}
+                        />
+                        Refresh
+                    </button>
+                </div>
+
+                {points.length === 0 || !scale ? (
+                    <div className="p-12 text-center text-slate-500">
+                        No embeddings for {signature.provider}/{signature.model}
+                        . Generate embeddings on the Skill Match page first.
+                    </div>
+                ) : (
+                    <svg
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        className="w-full bg-slate-900 rounded-lg"
+                        onMouseLeave={() => setHovered(null)}
+                    >
+                        {shown.map((p) => {
+                            const { cx, cy } = scale(p);
+                            const dimmed =
+                                highlightGroup !== null &&
+                                p.group !== highlightGroup;
+                            const color = colors.get(p.group) || '#94a3b8';
+                            return p.type === 'skill' ? (
+                                <rect
+                                    key={p.id}
+                                    x={cx - 4}
+                                    y={cy - 4}
+                                    width={8}
+                                    height={8}
+                                    fill={color}
+                                    opacity={dimmed ? 0.15 : 0.9}
+                                    onMouseEnter={() => setHovered(p)}
+                                />
+                            ) : (
+                                <circle
+                                    key={p.id}
+                                    cx={cx}
+                                    cy={cy}
+                                    r={5}
+                                    fill={p.skillCount === 0 ? 'none' : color}
+                                    stroke={color}
+                                    strokeWidth={p.skillCount === 0 ? 2 : 1}
+                                    strokeDasharray={
+                                        p.skillCount === 0 ? '2 2' : undefined
+                                    }
+                                    opacity={dimmed ? 0.15 : 0.9}
+                                    onMouseEnter={() => setHovered(p)}
+                                />
+                            );
+                        })}
+                        {hovered && visible[hovered.type] && (
+                            <text
+                                x={scale(hovered).cx + 8}
+                                y={scale(hovered).cy - 8}
+                                fill="#f8fafc"
+                                fontSize={13}
+                                fontWeight={600}
+                            >
+                                {hovered.label} · {hovered.group}
+                                {hovered.type === 'employee'
+                                    ? ` · ${hovered.skillCount} skills`
+                                    : ''}
+                            </text>
+                        )}
+                    </svg>
+                )}
+
+                <p className="mt-2 text-xs text-slate-500">
+                    PCA of {points.length} vectors from {signature.provider}/
+                    {signature.model}; the axes explain {Math.round(pc1 * 100)}%
+                    and {Math.round(pc2 * 100)}% of the variance.
+                    {data && data.skipped > 0
+                        ? ` ${data.skipped} records with missing or stale embeddings are not shown.`
+                        : ''}{' '}
+                    Squares are skills, circles employees; dashed circles have
+                    no skills.
+                </p>
+            </div>
+
+            <div className="lg:w-64 p-4 border-t lg:border-t-0 lg:border-l border-slate-200">
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                    Categories &amp; departments
+                </h3>
+                <div className="flex flex-col gap-1">
+                    {Array.from(colors.entries()).map(([group, color]) => (
+                        <button
+                            key={group}
+                            onClick={() =>
+                                setHighlightGroup(
+                                    highlightGroup === group ? null : group
+                                )
+                            }
+                            className={`flex items-center gap-2 px-2 py-1 rounded text-sm text-left hover:bg-slate-50 ${
+                                highlightGroup === group
+                                    ? 'bg-slate-100 font-medium'
+                                    : ''
+                            }`}
+                        >
+                            <span
+                                className="w-3 h-3 rounded-full flex-shrink-0"
+                                style={{ backgroundColor: color }}
+                            />
+                            <span className="truncate">{group}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
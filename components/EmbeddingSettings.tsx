@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Check, Zap, Cloud, Cpu } from 'react-feather';
+import { Settings, Check, Zap, Cloud, Cpu, Server } from 'react-feather';
 import { 
     setEmbeddingConfig, 
     getEmbeddingConfig, 
     type EmbeddingProviderType 
 } from '../lib/EmbeddingProvider';
+import { useEmbeddingProviders } from '../constants/SkillQueries';
+
+const PROVIDER_ICONS: Record<string, React.ReactNode> = {
+    mock: <Zap size={18} />,
+    local: <Cpu size={18} />,
+    openai: <Cloud size={18} />,
+};
 
 type Props = {
     onConfigChange?: () => void;
@@ -15,6 +22,7 @@ export default function EmbeddingSettings({ onConfigChange }: Props) {
     const [provider, setProvider] = useState<EmbeddingProviderType>('mock');
     const [apiKey, setApiKey] = useState('');
     const [saved, setSaved] = useState(false);
+    const { data: providers = [], isLoading } = useEmbeddingProviders();
     
     useEffect(() => {
         const config = getEmbeddingConfig();
@@ -32,27 +40,6 @@ export default function EmbeddingSettings({ onConfigChange }: Props) {
         setTimeout(() => setSaved(false), 2000);
     };
     
-    const providers: { id: EmbeddingProviderType; name: string; icon: React.ReactNode; desc: string }[] = [
-        { 
-            id: 'mock', 
-            name: 'Mock', 
-            icon: <Zap size={18} />,
-            desc: 'Fast, deterministic, for demo purposes'
-        },
-        { 
-            id: 'local', 
-            name: 'Local', 
-            icon: <Cpu size={18} />,
-            desc: 'Runs in browser via transformers.js'
-        },
-        { 
-            id: 'openai', 
-            name: 'OpenAI', 
-            icon: <Cloud size={18} />,
-            desc: 'Best quality, requires API key'
-        },
-    ];
-    
     return (
         <div className="embedding-settings">
             <button 
@@ -68,18 +55,20 @@ export default function EmbeddingSettings({ onConfigChange }: Props) {
                     <h4>Embedding Provider</h4>
                     
                     <div className="providers">
+                        {isLoading && <span className="provider-desc">Loading providers...</span>}
                         {providers.map(p => (
                             <button
-                                key={p.id}
-                                className={`provider-btn ${provider === p.id ? 'active' : ''}`}
-                                onClick={() => setProvider(p.id)}
+                                key={p.type}
+                                className={`provider-btn ${provider === p.type ? 'active' : ''}`}
+                                onClick={() => setProvider(p.type)}
                             >
-                                {p.icon}
+                                {PROVIDER_ICONS[p.type] || <Server size={18} />}
                                 <div className="provider-info">
                                     <span className="provider-name">{p.name}</span>
-                                    <span className="provider-desc">{p.desc}</span>
+                                    {p.description && <span className="provider-desc">{p.description}</span>}
+                                    <span className="provider-desc">{p.model} · {p.dimensions} dimensions</span>
                                 </div>
-                                {provider === p.id && <Check size={16} className="check" />}
+                                {provider === p.type && <Check size={16} className="check" />}
                             </button>
                         ))}
                     </div>
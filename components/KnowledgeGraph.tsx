@@ -46,7 +46,7 @@ export default function KnowledgeGraph() {
     const [, forceRender] = useState(0);
     
     const { data: employees = [] } = useEmployees();
-    const { data: skills = [] } = useSkills();
+    const { data: skills = [] } = useSkills({ includeDeprecated: true });
     
     // Render function
     const render = useCallback(() => {
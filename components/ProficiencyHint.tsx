@@ -0,0 +1,42 @@
+import React from 'react';
+import { useProficiencyRubrics } from '../constants/SkillQueries';
+import { rubricFor } from '../lib/ProficiencyRubrics';
+
+type Props = {
+    // Skill name as entered; unknown skills get the default rubric
+    skill: string;
+    level: number;
+    className?: string;
+};
+
+/**
+ * What the picked proficiency level means for this skill, for forms with a
+ * 1-5 slider. Hovering shows the whole rubric.
+ */
+export default function ProficiencyHint({
+    skill,
+    level,
+    className = '',
+}: Props) {
+    const { data: rubrics } = useProficiencyRubrics();
+    const rubric = rubricFor(rubrics, { name: skill });
+    const current = rubric[Math.min(Math.max(level, 1), 5) - 1];
+
+    return (
+        <p
+            className={`text-xs text-neutral-500 ${className}`}
+            title={rubric
+                .map(
+                    ({ level: n, label, description }) =>
+                        `${n} ${label}: ${description}`
+                )
+                .join('\n')}
+        >
+            <span className="font-medium text-neutral-700">
+                {current.label}
+            </span>
+            {' — '}
+            {current.description}
+        </p>
+    );
+}
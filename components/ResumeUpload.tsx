@@ -14,6 +14,7 @@ import {
     Minus,
     Users
 } from 'react-feather';
+import ProficiencyHint from './ProficiencyHint';
 
 interface SkillEntry {
     name: string;
@@ -478,31 +479,34 @@ export default function ResumeUpload({ onParsed, onEmployeeCreated }: Props) {
                                     {person.skills.map((skill, skillIndex) => (
                                         <div 
                                             key={skillIndex}
-                                            className="flex items-center gap-2 p-2 bg-neutral-50 rounded-lg"
+                                            className="p-2 bg-neutral-50 rounded-lg"
                                         >
-                                            <span className="min-w-[120px] text-sm font-medium text-neutral-700">
-                                                {skill.name}
-                                            </span>
-                                            <input
-                                                type="range"
-                                                min="1"
-                                                max="5"
-                                                value={skill.proficiency}
-                                                onChange={(e) => updateSkill(personIndex, skillIndex, { proficiency: Number(e.target.value) })}
-                                                disabled={person.isCreated}
-                                                className="flex-1 h-2 bg-neutral-200 rounded-lg appearance-none cursor-pointer accent-emerald-600"
-                                            />
-                                            <span className="w-6 text-center text-sm font-bold text-emerald-600">
-                                                {skill.proficiency}
-                                            </span>
-                                            {!person.isCreated && (
-                                                <button
-                                                    onClick={() => removeSkill(personIndex, skillIndex)}
-                                                    className="p-1 text-red-500 hover:bg-red-50 rounded"
-                                                >
-                                                    <Minus size={14} />
-                                                </button>
-                                            )}
+                                            <div className="flex items-center gap-2">
+                                                <span className="min-w-[120px] text-sm font-medium text-neutral-700">
+                                                    {skill.name}
+                                                </span>
+                                                <input
+                                                    type="range"
+                                                    min="1"
+                                                    max="5"
+                                                    value={skill.proficiency}
+                                                    onChange={(e) => updateSkill(personIndex, skillIndex, { proficiency: Number(e.target.value) })}
+                                                    disabled={person.isCreated}
+                                                    className="flex-1 h-2 bg-neutral-200 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                                />
+                                                <span className="w-6 text-center text-sm font-bold text-emerald-600">
+                                                    {skill.proficiency}
+                                                </span>
+                                                {!person.isCreated && (
+                                                    <button
+                                                        onClick={() => removeSkill(personIndex, skillIndex)}
+                                                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                                                    >
+                                                        <Minus size={14} />
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <ProficiencyHint skill={skill.name} level={skill.proficiency} className="mt-1" />
                                         </div>
                                     ))}
                                     
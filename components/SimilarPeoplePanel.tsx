@@ -0,0 +1,93 @@
+import React from 'react';
+import { Users } from 'react-feather';
+import { useSimilarEmployees } from '../constants/SkillQueries';
+import type { EmployeeID } from '../constants/SkillTypes';
+
+type Props = {
+    employeeId: EmployeeID;
+    limit?: number;
+};
+
+export default function SimilarPeoplePanel({ employeeId, limit = 5 }: Props) {
+    const { data: similar = [], isLoading } = useSimilarEmployees({
+        id: employeeId,
+        limit,
+    });
+
+    return (
+        <div className="mt-4 pt-4 border-t border-indigo-100">
+            <div className="flex items-center gap-2 mb-3 text-sm font-semibold text-slate-700">
+                <Users size={16} className="text-indigo-500" />
+                Similar people
+            </div>
+            {isLoading ? (
+                <span className="text-slate-500 text-sm">
+                    Finding similar people...
+                </span>
+            ) : similar.length === 0 ? (
+                <span className="text-slate-500 text-sm">
+                    No similar people found
+                </span>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {similar.map(
+                        ({
+                            employee,
+                            score,
+                            embeddingSimilarity,
+                            skillOverlap,
+                            sharedSkills,
+                        }) => (
+                            <div
+                                key={employee.id}
+                                className="px-3 py-2 bg-white border border-slate-200 rounded-lg"
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-medium text-slate-900 truncate">
+                                            {employee.name}
+                                        </div>
+                                        <div className="text-xs text-slate-500 truncate">
+                                            {employee.role} ·{' '}
+                                            {employee.department}
+                                        </div>
+                                    </div>
+                                    <span
+                                        className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full text-xs font-semibold"
+                                        title={`Profile similarity ${Math.round(
+                                            embeddingSimilarity * 100
+                                        )}%, skill overlap ${Math.round(
+                                            skillOverlap * 100
+                                        )}%`}
+                                    >
+                                        {Math.round(score * 100)}%
+                                    </span>
+                                </div>
+                                {sharedSkills.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {sharedSkills
+                                            .slice(0, 4)
+                                            .map(({ skill, proficiency }) => (
+                                                <span
+                                                    key={skill.id}
+                                                    className="px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded text-xs"
+                                                >
+                                                    {skill.name} {proficiency}/5
+                                                </span>
+                                            ))}
+                                        {sharedSkills.length > 4 && (
+                                            <span className="text-xs text-slate-400">
+                                                +{sharedSkills.length - 4}{' '}
+                                                shared
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
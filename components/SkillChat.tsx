@@ -5,6 +5,8 @@ import CandidateCard from './CandidateCard';
 
 type Props = {
     onResultsChange?: (results: CandidateMatch[]) => void;
+    // Called with every message the user sends
+    onQuery?: (query: string) => void;
 };
 
 // API chat history for context
@@ -13,7 +15,7 @@ type ApiMessage = {
     content: string;
 };
 
-export default function SkillChat({ onResultsChange }: Props) {
+export default function SkillChat({ onResultsChange, onQuery }: Props) {
     const [messages, setMessages] = useState<ChatMessage[]>([
         {
             id: 'welcome',
@@ -47,6 +49,7 @@ export default function SkillChat({ onResultsChange }: Props) {
         
         setMessages(prev => [...prev, userMessage]);
         setInput('');
+        onQuery?.(userMessage.content);
         setIsLoading(true);
         
         try {
@@ -100,7 +103,7 @@ export default function SkillChat({ onResultsChange }: Props) {
         } finally {
             setIsLoading(false);
         }
-    }, [input, isLoading, chatHistory, onResultsChange]);
+    }, [input, isLoading, chatHistory, onResultsChange, onQuery]);
     
     const handleKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
@@ -0,0 +1,405 @@
+import React, { useState } from 'react';
+import { Archive, Edit2, RotateCcw, Trash2 } from 'react-feather';
+import {
+    useDeleteSkill,
+    useDeprecateSkill,
+    useSkillImpact,
+    useUpdateSkill,
+} from '../constants/SkillQueries';
+import type { Skill, SkillDeleteMode } from '../constants/SkillTypes';
+
+type Props = {
+    skill: Skill;
+    // Candidates for a replacement or reassign target
+    skills: Skill[];
+    categories: string[];
+    onDeleted: () => void;
+};
+
+type Tab = 'edit' | 'deprecate' | 'delete';
+
+const parseTags = (value: string) =>
+    Array.from(
+        new Set(
+            value
+                .split(',')
+                .map((tag) => tag.trim())
+                .filter(Boolean)
+        )
+    );
+
+function EditForm({ skill, categories }: Pick<Props, 'skill' | 'categories'>) {
+    const [name, setName] = useState(skill.name);
+    const [category, setCategory] = useState(skill.category);
+    const [description, setDescription] = useState(skill.description || '');
+    const [tags, setTags] = useState((skill.tags || []).join(', '));
+    const update = useUpdateSkill();
+
+    const save = () =>
+        update.mutate({
+            id: skill.id,
+            name: name.trim(),
+            category: category.trim(),
+            description: description.trim() || undefined,
+            tags: parseTags(tags),
+        });
+
+    return (
+        <div className="form">
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+            />
+            <input
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="Category"
+                list="skill-categories"
+            />
+            <datalist id="skill-categories">
+                {categories.map((c) => (
+                    <option key={c} value={c} />
+                ))}
+            </datalist>
+            <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description"
+                rows={2}
+            />
+            <input
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Tags, comma separated"
+            />
+            <button
+                className="primary"
+                disabled={!name.trim() || !category.trim() || update.isLoading}
+                onClick={save}
+            >
+                {update.isLoading
+                    ? 'Saving...'
+                    : update.isSuccess
+                    ? 'Saved'
+                    : 'Save changes'}
+            </button>
+            {update.isError && (
+                <p className="error">{(update.error as Error).message}</p>
+            )}
+        </div>
+    );
+}
+
+function DeprecateForm({ skill, skills }: Pick<Props, 'skill' | 'skills'>) {
+    const [replacedBy, setReplacedBy] = useState<string>(
+        skill.replaced_by ? String(skill.replaced_by) : ''
+    );
+    const deprecate = useDeprecateSkill();
+    const replacement = skills.find((s) => String(s.id) === replacedBy);
+
+    if (skill.deprecated) {
+        const current = skills.find(
+            (s) => String(s.id) === String(skill.replaced_by)
+        );
+        return (
+            <div className="form">
+                <p className="hint">
+                    Deprecated
+                    {skill.deprecated_at &&
+                        ` on ${new Date(
+                            skill.deprecated_at
+                        ).toLocaleDateString()}`}
+                    {current && `, replaced by ${current.name}`}. It stays on
+                    existing profiles and projects but is hidden from pickers.
+                </p>
+                <button
+                    disabled={deprecate.isLoading}
+                    onClick={() =>
+                        deprecate.mutate({ id: skill.id, deprecated: false })
+                    }
+                >
+                    <RotateCcw size={13} /> Restore
+                </button>
+                {deprecate.isError && (
+                    <p className="error">
+                        {(deprecate.error as Error).message}
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="form">
+            <p className="hint">
+                Hides the skill from pickers and search suggestions. People and
+                projects that have it keep it.
+            </p>
+            <select
+                value={replacedBy}
+                onChange={(e) => setReplacedBy(e.target.value)}
+            >
+                <option value="">No replacement</option>
+                {skills.map((s) => (
+                    <option key={String(s.id)} value={String(s.id)}>
+                        Replaced by {s.name}
+                    </option>
+                ))}
+            </select>
+            <button
+                className="primary"
+                disabled={deprecate.isLoading}
+                onClick={() =>
+                    deprecate.mutate({
+                        id: skill.id,
+                        deprecated: true,
+                        replacedBy: replacement?.id,
+                    })
+                }
+            >
+                <Archive size={13} /> Deprecate
+            </button>
+            {deprecate.isError && (
+                <p className="error">{(deprecate.error as Error).message}</p>
+            )}
+        </div>
+    );
+}
+
+function DeleteForm({
+    skill,
+    skills,
+    onDeleted,
+}: Pick<Props, 'skill' | 'skills' | 'onDeleted'>) {
+    const [mode, setMode] = useState<SkillDeleteMode>('cascade');
+    const [target, setTarget] = useState<string>('');
+    const { data: impact, isLoading } = useSkillImpact({ id: skill.id });
+    const remove = useDeleteSkill();
+    const reassignTo = skills.find((s) => String(s.id) === target)?.id;
+
+    const submit = () =>
+        remove.mutate(
+            { id: skill.id, mode, reassignTo },
+            { onSuccess: onDeleted }
+        );
+
+    return (
+        <div className="form">
+            {isLoading ? (
+                <p className="hint">Counting usage...</p>
+            ) : !impact ? (
+                <p className="error">Could not count usage</p>
+            ) : (
+                <p className="impact">
+                    Affects <strong>{impact.employees}</strong> employees,{' '}
+                    <strong>{impact.projects}</strong> projects,{' '}
+                    {impact.relations} relations, {impact.aliases} aliases and{' '}
+                    {impact.rubrics} proficiency rubrics
+                    {impact.replaces > 0 &&
+                        `; ${impact.replaces} deprecated skills name it as their replacement`}
+                    .
+                </p>
+            )}
+            <label>
+                <input
+                    type="radio"
+                    checked={mode === 'cascade'}
+                    onChange={() => setMode('cascade')}
+                />
+                Delete with all its edges and aliases
+            </label>
+            <label>
+                <input
+                    type="radio"
+                    checked={mode === 'reassign'}
+                    onChange={() => setMode('reassign')}
+                />
+                Move everything to another skill, then delete
+            </label>
+            {mode === 'reassign' && (
+                <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                >
+                    <option value="">Choose a skill...</option>
+                    {skills.map((s) => (
+                        <option key={String(s.id)} value={String(s.id)}>
+                            {s.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+            <button
+                className="danger"
+                disabled={
+                    remove.isLoading || (mode === 'reassign' && !reassignTo)
+                }
+                onClick={submit}
+            >
+                <Trash2 size={13} />
+                {remove.isLoading
+                    ? 'Deleting...'
+                    : mode === 'cascade'
+                    ? `Delete ${skill.name}`
+                    : `Move to ${
+                          skills.find((s) => s.id === reassignTo)?.name || '...'
+                      } and delete`}
+            </button>
+            {remove.isError && (
+                <p className="error">{(remove.error as Error).message}</p>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Edit, deprecate or delete a skill, shown inside its card on the Skills page
+ */
+export default function SkillManagePanel({
+    skill,
+    skills,
+    categories,
+    onDeleted,
+}: Props) {
+    const [tab, setTab] = useState<Tab | null>(null);
+    // Deprecated skills can't be a replacement or take over edges
+    const targets = skills.filter(
+        (s) => !s.deprecated && String(s.id) !== String(skill.id)
+    );
+
+    return (
+        <div className="manage" onClick={(e) => e.stopPropagation()}>
+            <div className="tabs">
+                <button
+                    className={tab === 'edit' ? 'active' : ''}
+                    onClick={() => setTab(tab === 'edit' ? null : 'edit')}
+                >
+                    <Edit2 size={12} /> Edit
+                </button>
+                <button
+                    className={tab === 'deprecate' ? 'active' : ''}
+                    onClick={() =>
+                        setTab(tab === 'deprecate' ? null : 'deprecate')
+                    }
+                >
+                    <Archive size={12} />{' '}
+                    {skill.deprecated ? 'Deprecated' : 'Deprecate'}
+                </button>
+                <button
+                    className={tab === 'delete' ? 'active' : ''}
+                    onClick={() => setTab(tab === 'delete' ? null : 'delete')}
+                >
+                    <Trash2 size={12} /> Delete
+                </button>
+            </div>
+
+            {tab === 'edit' && (
+                <EditForm skill={skill} categories={categories} />
+            )}
+            {tab === 'deprecate' && (
+                <DeprecateForm skill={skill} skills={targets} />
+            )}
+            {tab === 'delete' && (
+                <DeleteForm
+                    skill={skill}
+                    skills={targets}
+                    onDeleted={onDeleted}
+                />
+            )}
+
+            <style jsx>{`
+                .manage {
+                    margin-top: 12px;
+                    padding-top: 12px;
+                    border-top: 1px solid rgba(255, 255, 255, 0.1);
+                    cursor: default;
+                }
+                .tabs {
+                    display: flex;
+                    gap: 6px;
+                }
+                .tabs button {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    background: rgba(255, 255, 255, 0.06);
+                    border: 1px solid rgba(255, 255, 255, 0.12);
+                    border-radius: 6px;
+                    padding: 4px 8px;
+                    color: rgba(255, 255, 255, 0.7);
+                    font-size: 0.72rem;
+                    cursor: pointer;
+                }
+                .tabs button.active {
+                    border-color: #6366f1;
+                    background: rgba(99, 102, 241, 0.2);
+                }
+                .manage :global(.form) {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 6px;
+                    margin-top: 10px;
+                    font-size: 0.75rem;
+                }
+                .manage :global(.form input:not([type='radio'])),
+                .manage :global(.form textarea),
+                .manage :global(.form select) {
+                    background: rgba(0, 0, 0, 0.25);
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    border-radius: 6px;
+                    padding: 6px 8px;
+                    color: #fff;
+                    font-size: 0.75rem;
+                    outline: none;
+                    resize: vertical;
+                }
+                .manage :global(.form label) {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    color: rgba(255, 255, 255, 0.7);
+                    cursor: pointer;
+                }
+                .manage :global(.form button) {
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    gap: 6px;
+                    background: rgba(255, 255, 255, 0.1);
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    border-radius: 6px;
+                    padding: 6px 10px;
+                    color: #fff;
+                    font-size: 0.75rem;
+                    cursor: pointer;
+                }
+                .manage :global(.form button.primary) {
+                    background: #6366f1;
+                    border-color: #6366f1;
+                }
+                .manage :global(.form button.danger) {
+                    background: rgba(239, 68, 68, 0.8);
+                    border-color: rgba(239, 68, 68, 0.8);
+                }
+                .manage :global(.form button:disabled) {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+                .manage :global(.hint),
+                .manage :global(.impact) {
+                    margin: 0;
+                    color: rgba(255, 255, 255, 0.6);
+                    line-height: 1.4;
+                }
+                .manage :global(.impact strong) {
+                    color: #fff;
+                }
+                .manage :global(.error) {
+                    margin: 0;
+                    color: #f87171;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'react-feather';
+import { useSkillTaxonomy } from '../constants/SkillQueries';
+import type { SkillID, SkillTreeNode } from '../constants/SkillTypes';
+
+type Props = {
+    selectedId: SkillID | null;
+    onSelect: (id: SkillID, name: string) => void;
+};
+
+function countDescendants(node: SkillTreeNode): number {
+    return node.children.reduce(
+        (sum, child) => sum + 1 + countDescendants(child),
+        0
+    );
+}
+
+function TreeNode({
+    node,
+    depth,
+    selectedId,
+    onSelect,
+}: Props & { node: SkillTreeNode; depth: number }) {
+    const [open, setOpen] = useState(depth === 0);
+    const hasChildren = node.children.length > 0;
+    const selected = String(selectedId) === String(node.skill.id);
+
+    return (
+        <li>
+            <div className={`row ${selected ? 'selected' : ''}`}>
+                <button
+                    className="twisty"
+                    disabled={!hasChildren}
+                    onClick={() => setOpen(!open)}
+                >
+                    {hasChildren &&
+                        (open ? (
+                            <ChevronDown size={14} />
+                        ) : (
+                            <ChevronRight size={14} />
+                        ))}
+                </button>
+                <button
+                    className="name"
+                    onClick={() => onSelect(node.skill.id, node.skill.name)}
+                >
+                    {node.skill.name}
+                </button>
+                {node.cyclic ? (
+                    <span
+                        className="cyclic"
+                        title="Already an ancestor on this path"
+                    >
+                        <AlertTriangle size={12} /> cycle
+                    </span>
+                ) : (
+                    hasChildren && (
+                        <span className="count">{countDescendants(node)}</span>
+                    )
+                )}
+            </div>
+            {open && hasChildren && (
+                <ul>
+                    {node.children.map((child) => (
+                        <TreeNode
+                            key={String(child.skill.id)}
+                            node={child}
+                            depth={depth + 1}
+                            selectedId={selectedId}
+                            onSelect={onSelect}
+                        />
+                    ))}
+                </ul>
+            )}
+
+            <style jsx>{`
+                ul {
+                    list-style: none;
+                    margin: 0;
+                    padding-left: 18px;
+                    border-left: 1px solid rgba(255, 255, 255, 0.08);
+                }
+                .row {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    padding: 2px 6px;
+                    border-radius: 6px;
+                }
+                .row.selected {
+                    background: rgba(99, 102, 241, 0.2);
+                }
+                .twisty {
+                    width: 18px;
+                    height: 18px;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    background: none;
+                    border: none;
+                    color: rgba(255, 255, 255, 0.5);
+                    cursor: pointer;
+                    padding: 0;
+                }
+                .twisty:disabled {
+                    cursor: default;
+                }
+                .name {
+                    background: none;
+                    border: none;
+                    color: #fff;
+                    font-size: 0.85rem;
+                    cursor: pointer;
+                    padding: 2px 0;
+                }
+                .name:hover {
+                    color: #a5b4fc;
+                }
+                .count {
+                    color: rgba(255, 255, 255, 0.4);
+                    font-size: 0.7rem;
+                }
+                .cyclic {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 3px;
+                    color: #fbbf24;
+                    font-size: 0.7rem;
+                }
+            `}</style>
+        </li>
+    );
+}
+
+export default function SkillTreePanel({ selectedId, onSelect }: Props) {
+    const { data, isLoading } = useSkillTaxonomy();
+    const roots = data?.roots ?? [];
+    const cycles = data?.cycles ?? [];
+
+    return (
+        <section className="tree">
+            <h2>Skill hierarchy</h2>
+            {cycles.length > 0 && (
+                <div className="warning">
+                    <AlertTriangle size={14} />
+                    <div>
+                        {cycles.map((cycle) => (
+                            <p
+                                key={cycle
+                                    .map((skill) => String(skill.id))
+                                    .join('|')}
+                            >
+                                Cycle:{' '}
+                                {[...cycle, cycle[0]]
+                                    .map((skill) => skill.name)
+                                    .join(' → ')}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {isLoading ? (
+                <p className="hint">Loading...</p>
+            ) : roots.length === 0 ? (
+                <p className="hint">No parent or child relations yet.</p>
+            ) : (
+                <ul>
+                    {roots.map((node) => (
+                        <TreeNode
+                            key={String(node.skill.id)}
+                            node={node}
+                            depth={0}
+                            selectedId={selectedId}
+                            onSelect={onSelect}
+                        />
+                    ))}
+                </ul>
+            )}
+
+            <style jsx>{`
+                .tree {
+                    margin: 0 40px 12px;
+                    padding: 16px 20px;
+                    background: rgba(0, 0, 0, 0.2);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 14px;
+                }
+                h2 {
+                    margin: 0 0 12px;
+                    font-size: 1rem;
+                    color: rgba(255, 255, 255, 0.8);
+                }
+                ul {
+                    list-style: none;
+                    margin: 0;
+                    padding: 0;
+                }
+                .warning {
+                    display: flex;
+                    gap: 8px;
+                    margin-bottom: 12px;
+                    padding: 10px 12px;
+                    background: rgba(251, 191, 36, 0.1);
+                    border: 1px solid rgba(251, 191, 36, 0.3);
+                    border-radius: 8px;
+                    color: #fbbf24;
+                    font-size: 0.8rem;
+                }
+                .warning p {
+                    margin: 0;
+                }
+                .hint {
+                    margin: 0;
+                    color: rgba(255, 255, 255, 0.5);
+                    font-size: 0.85rem;
+                }
+            `}</style>
+        </section>
+    );
+}
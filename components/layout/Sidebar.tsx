@@ -6,6 +6,7 @@ import {
     Users, 
     Zap, 
     GitBranch, 
+    Map as MapIcon,
     LogOut, 
     ChevronLeft, 
     ChevronRight,
@@ -20,6 +21,7 @@ const navItems = [
     { href: '/employees', label: 'Employees', icon: Users },
     { href: '/project-ai', label: 'Project with AI', icon: Zap },
     { href: '/knowledge-graph', label: 'Knowledge Graph', icon: GitBranch },
+    { href: '/embedding-map', label: 'Embedding Map', icon: MapIcon },
 ];
 
 export default function Sidebar() {
@@ -7,7 +7,33 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { SurrealInstance as surreal } from '../lib/Surreal';
-import { generateEmbedding, cosineSimilarity } from '../lib/EmbeddingProvider';
+import {
+    generateEmbedding,
+    getEmbeddingSignature,
+    isEmbeddingCompatible,
+    listEmbeddingProviders,
+    registerRemoteEmbeddingProviders,
+    type EmbeddingProviderInfo,
+} from '../lib/EmbeddingProvider';
+import { knnSearch } from '../lib/VectorSearch';
+import { getScoringProfile, listScoringProfiles } from '../lib/ScoringProfiles';
+import { loadRubricCatalogue } from '../lib/ProficiencyRubrics';
+import { findPeopleForProject } from '../lib/ProjectMatching';
+import { projectPCA } from '../lib/Projection';
+import { expandSkills } from '../lib/SkillGraph';
+import { getSkillImpact } from '../lib/SkillLifecycle';
+import {
+    buildSkillTree,
+    findDescendantSkills,
+    loadSkillTaxonomy,
+    walkTaxonomy,
+    type TaxonomyStep,
+} from '../lib/SkillTaxonomy';
+import {
+    reembedStaleRecords,
+    type ReembedOptions,
+    type StaleEmbeddingCounts,
+} from '../lib/Reembed';
 import type {
     Employee,
     EmployeeID,
@@ -16,6 +42,8 @@ import type {
     Skill,
     SkillID,
     SkillInput,
+    SkillRelationType,
+    SkillTaxonomyTree,
     SkillWithEmployees,
     Project,
     ProjectID,
@@ -25,8 +53,26 @@ import type {
     SemanticSearchQuery,
     SearchResult,
     HasSkillEdge,
+    SimilarEmployee,
+    DuplicateSkillCluster,
+    SkillMergeResult,
+    SkillOverlapMethod,
+    SkillImpact,
+    SkillDeleteMode,
+    SkillDeleteResult,
+    CatalogueFile,
+    CatalogueFormat,
+    CatalogueImportResult,
+    EmbeddingMap,
+    EmbeddingMapPoint,
 } from './SkillTypes';
 
+// Bearer token of the signed-in user, for API routes that write as root
+function authHeaders(): Record<string, string> {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('usersession') : null;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 // Helper to extract data from SurrealDB v2 query result
 function extractQueryResult<T>(result: unknown): T[] {
     if (Array.isArray(result) && result.length > 0) {
@@ -165,6 +211,7 @@ export function useCreateEmployee() {
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['employees'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
         },
     });
 }
@@ -179,10 +226,12 @@ export function useDeleteEmployee() {
             // but for now we'll assumes graph edges are handled or we might want to manually delete them if needed.
             // In a simple setup, deleting the node might leave dangling edges unless defined otherwise.
             // For this demo, simple DELETE is likely sufficient.
+            await surreal.query('DELETE employee_chunk WHERE employee = <record> $id', { id });
             await surreal.query(`DELETE ${id}`);
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['employees'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
         },
     });
 }
@@ -191,7 +240,10 @@ export function useDeleteEmployee() {
 // SKILL QUERIES
 // ==========================================
 
-export function useSkills(filters?: { category?: string; tags?: string[] }) {
+/**
+ * Skills for pickers and lists. Deprecated skills are left out unless includeDeprecated is set.
+ */
+export function useSkills(filters?: { category?: string; tags?: string[]; includeDeprecated?: boolean }) {
     return useQuery({
         queryKey: ['skills', filters],
         queryFn: async (): Promise<Skill[]> => {
@@ -199,6 +251,9 @@ export function useSkills(filters?: { category?: string; tags?: string[] }) {
                 let query = 'SELECT * FROM skill';
                 const conditions: string[] = [];
                 
+                if (!filters?.includeDeprecated) {
+                    conditions.push('deprecated != true');
+                }
                 if (filters?.category) {
                     conditions.push('category = $category');
                 }
@@ -243,31 +298,58 @@ export function useSkill({ id }: { id?: SkillID }) {
     });
 }
 
-export function useSkillWithEmployees({ id }: { id?: SkillID }) {
+/**
+ * A skill and the employees holding it. With includeDescendants, employees
+ * holding any skill below it in the hierarchy are listed too, once each.
+ */
+export function useSkillWithEmployees({ id, includeDescendants = false }: { id?: SkillID; includeDescendants?: boolean }) {
     return useQuery({
-        queryKey: ['skill-with-employees', id],
+        queryKey: ['skill-with-employees', id, includeDescendants],
         queryFn: async (): Promise<SkillWithEmployees | null> => {
             if (!id) return null;
             try {
-                // Graph traversal: Skill <- has_skill <- Employee
+                const descendants = includeDescendants
+                    ? await findDescendantSkills([id])
+                    : new Map<string, TaxonomyStep>();
+                const descendantIds = Array.from(descendants.values()).map(step => step.skill.id);
+                
+                // Graph traversal: Skill <- has_skill <- Employee, plus the
+                // has_skill edges of each descendant
                 const result = await surreal.query<[unknown[]]>(`
                     SELECT 
                         *,
                         (
                             SELECT 
                                 in AS employee,
+                                out AS skill,
                                 proficiency,
                                 years,
                                 certified
-                            FROM <-has_skill
+                            FROM array::concat(<-has_skill, array::flatten((SELECT VALUE <-has_skill FROM $descendants)))
                             FETCH employee
                         ) AS employees
                     FROM skill 
                     WHERE id = $id
-                `, { id });
+                `, { id, descendants: descendantIds });
                 
-                const data = extractQueryResult<SkillWithEmployees>(result);
-                return data[0] ? processRecord(data[0]) : null;
+                type Row = SkillWithEmployees['employees'][number] & { skill: SkillID };
+                const data = extractQueryResult<Omit<SkillWithEmployees, 'employees'> & { employees: Row[] }>(result);
+                if (!data[0]) return null;
+                
+                // Direct holders first, then the best-proficiency descendant per employee
+                const byEmployee = new Map<string, SkillWithEmployees['employees'][number]>();
+                data[0].employees
+                    .map(({ skill, ...row }) => {
+                        const step = descendants.get(String(skill));
+                        return step ? { ...row, via: { id: step.skill.id, name: step.skill.name } } : row;
+                    })
+                    .sort((a, b) => Number(!!a.via) - Number(!!b.via) || b.proficiency - a.proficiency)
+                    .forEach(row => {
+                        const key = String(row.employee.id);
+                        if (!byEmployee.has(key)) byEmployee.set(key, row);
+                    });
+                
+                return processRecord({ ...data[0], employees: Array.from(byEmployee.values()) });
             } catch (error) {
                 console.error('Failed to fetch skill with employees:', error);
                 return null;
@@ -297,6 +379,112 @@ export function useCreateSkill() {
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['skills'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
+// Everything that shows a skill's name, category or deprecation
+function invalidateSkillViews(queryClient: ReturnType<typeof useQueryClient>) {
+    queryClient.invalidateQueries({ queryKey: ['skills'] });
+    queryClient.invalidateQueries({ queryKey: ['skill'] });
+    queryClient.invalidateQueries({ queryKey: ['skill-categories'] });
+    queryClient.invalidateQueries({ queryKey: ['skill-with-employees'] });
+    queryClient.invalidateQueries({ queryKey: ['employee-with-skills'] });
+    queryClient.invalidateQueries({ queryKey: ['skill-taxonomy'] });
+    queryClient.invalidateQueries({ queryKey: ['skill-lineage'] });
+    queryClient.invalidateQueries({ queryKey: ['proficiency-rubrics'] });
+    queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+}
+
+export function useUpdateSkill() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async ({ id, ...changes }: Partial<SkillInput> & { id: SkillID }): Promise<Skill> => {
+            // Fields left undefined would be sent as NONE and cleared
+            const result = await surreal.query<[Skill[]]>(
+                'UPDATE <record> $id MERGE $changes',
+                { id, changes: Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) }
+            );
+            
+            const data = extractQueryResult<Skill>(result);
+            if (!data[0]) throw new Error('Failed to update skill');
+            return processRecord(data[0]);
+        },
+        onSuccess: () => invalidateSkillViews(queryClient),
+    });
+}
+
+/**
+ * Deprecate a skill, optionally naming its replacement, or restore it with deprecated: false.
+ * Existing has_skill and requires_skill edges are left alone.
+ */
+export function useDeprecateSkill() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async ({ id, deprecated, replacedBy }: { id: SkillID; deprecated: boolean; replacedBy?: SkillID }): Promise<Skill> => {
+            if (replacedBy && String(replacedBy) === String(id)) {
+                throw new Error('A skill cannot replace itself');
+            }
+            const result = await surreal.query<[Skill[]]>(`
+                UPDATE <record> $id SET
+                    deprecated = $deprecated,
+                    deprecated_at = IF $deprecated THEN time::now() ELSE NONE END,
+                    replaced_by = IF $deprecated AND $replacedBy THEN <record> $replacedBy ELSE NONE END
+            `, { id, deprecated, replacedBy });
+            
+            const data = extractQueryResult<Skill>(result);
+            if (!data[0]) throw new Error('Failed to update skill');
+            return processRecord(data[0]);
+        },
+        onSuccess: () => {
+            invalidateSkillViews(queryClient);
+            queryClient.invalidateQueries({ queryKey: ['semantic-skill-search'] });
+        },
+    });
+}
+
+/**
+ * Employees, projects, relations and aliases a delete would touch
+ */
+export function useSkillImpact({ id }: { id?: SkillID }) {
+    return useQuery({
+        queryKey: ['skill-impact', id],
+        queryFn: async (): Promise<SkillImpact | null> => {
+            if (!id) return null;
+            return getSkillImpact(id);
+        },
+        enabled: !!id,
+    });
+}
+
+/**
+ * Delete a skill with its edges (cascade), or move them to another skill first (reassign)
+ */
+export function useDeleteSkill() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async (input: { id: SkillID; mode: SkillDeleteMode; reassignTo?: SkillID }): Promise<SkillDeleteResult> => {
+            const response = await fetch('/api/skills/delete', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                body: JSON.stringify(input),
+            });
+            
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || response.statusText);
+            }
+            return data.result;
+        },
+        onSuccess: () => {
+            invalidateSkillViews(queryClient);
+            queryClient.invalidateQueries({ queryKey: ['skill-impact'] });
+            queryClient.invalidateQueries({ queryKey: ['duplicate-skills'] });
+            queryClient.invalidateQueries({ queryKey: ['project-with-details'] });
         },
     });
 }
@@ -391,6 +579,7 @@ export function useCreateProject() {
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['projects'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
         },
     });
 }
@@ -471,8 +660,13 @@ export function useEmployeesWithSkills({ skillIds, minProficiency = 1 }: {
     });
 }
 
+const ALL_RELATIONS: SkillRelationType[] = [
+    'parent', 'child', 'synonym', 'prerequisite', 'commonly_used_with', 'alternative', 'related',
+];
+
 /**
- * Find related skills (graph traversal through skill relationships)
+ * Find related skills up to `depth` hops away (graph traversal through skill
+ * relationships), closest first
  */
 export function useRelatedSkills({ id, depth = 1 }: { id?: SkillID; depth?: number }) {
     return useQuery({
@@ -480,17 +674,18 @@ export function useRelatedSkills({ id, depth = 1 }: { id?: SkillID; depth?: numb
         queryFn: async (): Promise<Skill[]> => {
             if (!id) return [];
             try {
-                // Graph traversal to find related skills
-                const result = await surreal.query<[Skill[]]>(`
-                    SELECT 
-                        out.*
-                    FROM related_to
-                    WHERE in = $id
-                    ORDER BY similarity_score DESC
-                `, { id });
+                const result = await surreal.query<[Skill[]]>('SELECT * OMIT embedding FROM $id', { id });
+                const seed = extractQueryResult<Skill>(result)[0];
+                if (!seed) return [];
                 
-                const data = extractQueryResult<Skill>(result);
-                return data.map(processRecord);
+                // Relevance is the product of similarity_score along the path
+                const expanded = await expandSkills(
+                    new Map([[String(seed.id), { skill: seed, relevance: 1 }]]),
+                    { depth, relations: ALL_RELATIONS }
+                );
+                return Array.from(expanded.values())
+                    .sort((a, b) => b.relevance - a.relevance)
+                    .map(({ skill }) => processRecord(skill));
             } catch (error) {
                 console.error('Failed to find related skills:', error);
                 return [];
@@ -501,44 +696,59 @@ export function useRelatedSkills({ id, depth = 1 }: { id?: SkillID; depth?: numb
 }
 
 /**
- * Find best candidates for a project based on required skills
+ * The parent/child hierarchy as a tree, with any cycles in it
+ */
+export function useSkillTaxonomy() {
+    return useQuery({
+        queryKey: ['skill-taxonomy'],
+        queryFn: async (): Promise<SkillTaxonomyTree> => {
+            try {
+                return buildSkillTree(await loadSkillTaxonomy());
+            } catch (error) {
+                console.error('Failed to load skill taxonomy:', error);
+                return { roots: [], cycles: [] };
+            }
+        },
+    });
+}
+
+/**
+ * Every ancestor and descendant of a skill, at any depth, nearest first
  */
-export function useCandidatesForProject({ projectId }: { projectId?: ProjectID }) {
+export function useSkillLineage({ id }: { id?: SkillID }) {
     return useQuery({
-        queryKey: ['candidates-for-project', projectId],
+        queryKey: ['skill-lineage', id],
+        queryFn: async (): Promise<{ ancestors: TaxonomyStep[]; descendants: TaxonomyStep[] }> => {
+            if (!id) return { ancestors: [], descendants: [] };
+            try {
+                const taxonomy = await loadSkillTaxonomy();
+                return {
+                    ancestors: walkTaxonomy(taxonomy, id, 'ancestors'),
+                    descendants: walkTaxonomy(taxonomy, id, 'descendants'),
+                };
+            } catch (error) {
+                console.error('Failed to load skill lineage:', error);
+                return { ancestors: [], descendants: [] };
+            }
+        },
+        enabled: !!id,
+    });
+}
+
+/**
+ * Find the best people for a project: required skills (graph) plus
+ * project-to-employee embedding similarity
+ */
+export function useCandidatesForProject({ projectId, profile, limit }: { projectId?: ProjectID; profile?: string; limit?: number }) {
+    return useQuery({
+        queryKey: ['candidates-for-project', projectId, profile, limit],
         queryFn: async (): Promise<CandidateMatch[]> => {
             if (!projectId) return [];
             try {
-                // Complex graph query: Project -> requires_skill -> Skill <- has_skill <- Employee
-                const result = await surreal.query<[unknown[]]>(`
-                    LET $required = (SELECT out, importance, min_proficiency FROM $projectId->requires_skill);
-                    LET $skill_ids = (SELECT VALUE out FROM $required);
-                    
-                    SELECT 
-                        in AS employee,
-                        array::group(out) AS matched_skill_ids,
-                        math::sum(proficiency) AS total_proficiency,
-                        count() AS matched_count
-                    FROM has_skill
-                    WHERE out IN $skill_ids
-                    GROUP BY in
-                    ORDER BY matched_count DESC, total_proficiency DESC
-                    FETCH employee
-                `, { projectId });
-                
-                const data = extractQueryResult<{
-                    employee: Employee;
-                    matched_skill_ids: SkillID[];
-                    total_proficiency: number;
-                    matched_count: number;
-                }>(result);
-                
-                return data.map(item => ({
-                    employee: processRecord(item.employee),
-                    matchScore: (item.matched_count / 5) * 0.5 + (item.total_proficiency / 25) * 0.5,
-                    matchedSkills: [],
-                    semanticScore: 0,
-                    graphScore: item.matched_count / 5,
+                const candidates = await findPeopleForProject(projectId, { profile, limit });
+                return candidates.map(candidate => ({
+                    ...candidate,
+                    employee: processRecord(candidate.employee),
                 }));
             } catch (error) {
                 console.error('Failed to find candidates for project:', error);
@@ -556,31 +766,28 @@ export function useCandidatesForProject({ projectId }: { projectId?: ProjectID }
 /**
  * Semantic skill search using vector similarity
  */
-export function useSemanticSkillSearch({ query, limit = 10 }: { query?: string; limit?: number }) {
+export function useSemanticSkillSearch({ query, limit = 10, profile }: { query?: string; limit?: number; profile?: string }) {
     return useQuery({
-        queryKey: ['semantic-skill-search', query, limit],
+        queryKey: ['semantic-skill-search', query, limit, profile],
         queryFn: async (): Promise<Array<Skill & { score: number }>> => {
             if (!query) return [];
             try {
                 // Generate embedding for the query
-                const queryEmbedding = await generateEmbedding(query);
+                const [queryEmbedding, { thresholds }] = await Promise.all([
+                    generateEmbedding(query),
+                    getScoringProfile(profile),
+                ]);
                 
-                // Get all skills with embeddings
-                const result = await surreal.query<[Skill[]]>(
-                    'SELECT * FROM skill WHERE embedding != NONE'
-                );
-                const skills = extractQueryResult<Skill>(result);
+                // KNN in the database, only over vectors from the current provider and model
+                const nearest = await knnSearch<Skill>('skill', queryEmbedding, {
+                    k: limit,
+                    signature: getEmbeddingSignature(),
+                    where: 'deprecated != true',
+                });
                 
-                // Calculate similarity scores
-                const scoredSkills = skills
-                    .filter(skill => skill.embedding && skill.embedding.length > 0)
-                    .map(skill => ({
-                        ...processRecord(skill),
-                        score: cosineSimilarity(queryEmbedding, skill.embedding!),
-                    }))
-                    .filter(skill => skill.score > 0.5)
-                    .sort((a, b) => b.score - a.score)
-                    .slice(0, limit);
+                const scoredSkills = nearest
+                    .map(skill => processRecord(skill))
+                    .filter(skill => skill.score > thresholds.semantic_skill_search);
                 
                 return scoredSkills;
             } catch (error) {
@@ -593,144 +800,250 @@ export function useSemanticSkillSearch({ query, limit = 10 }: { query?: string;
 }
 
 /**
- * Main hybrid search: Find suitable candidates for a natural language query
+ * Stored scoring profiles, for picking one by name
+ */
+export function useScoringProfiles() {
+    return useQuery({
+        queryKey: ['scoring-profiles'],
+        queryFn: () => listScoringProfiles(),
+    });
+}
+
+/**
+ * Per-skill and per-category proficiency rubrics; look a skill up with rubricFor() or describeProficiency()
+ */
+export function useProficiencyRubrics() {
+    return useQuery({
+        queryKey: ['proficiency-rubrics'],
+        queryFn: () => loadRubricCatalogue(),
+    });
+}
+
+/**
+ * Main hybrid search: Find suitable candidates for a natural language query.
+ * Runs server-side in /api/search/candidates (see lib/CandidateSearch.ts).
  */
 export function useCandidateSearch() {
     return useMutation({
         mutationFn: async (searchQuery: SemanticSearchQuery): Promise<SearchResult> => {
-            const startTime = Date.now();
-            
             try {
-                const { query, filters, limit = 10 } = searchQuery;
+                const response = await fetch('/api/search/candidates', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        ...searchQuery,
+                        provider: getEmbeddingSignature().provider,
+                    }),
+                });
                 
-                // Step 1: Generate embedding for the query
-                const queryEmbedding = await generateEmbedding(query);
-                
-                // Step 2: Find semantically similar skills
-                const skillResult = await surreal.query<[Skill[]]>(
-                    'SELECT * FROM skill'
-                );
-                const allSkills = extractQueryResult<Skill>(skillResult);
-                
-                // Calculate skill relevance scores
-                const relevantSkills = allSkills
-                    .map(skill => ({
-                        skill: processRecord(skill),
-                        relevance: skill.embedding 
-                            ? cosineSimilarity(queryEmbedding, skill.embedding)
-                            : 0.3, // Default relevance for skills without embeddings
-                    }))
-                    .filter(s => s.relevance > 0.4)
-                    .sort((a, b) => b.relevance - a.relevance)
-                    .slice(0, 15);
-                
-                if (relevantSkills.length === 0) {
-                    return {
-                        candidates: [],
-                        queryEmbedding,
-                        totalMatches: 0,
-                        processingTimeMs: Date.now() - startTime,
-                    };
+                const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.error || response.statusText);
                 }
                 
-                // Step 3: Build base query with filters
-                let employeeQuery = 'SELECT * FROM employee';
-                const conditions: string[] = [];
-                const params: Record<string, unknown> = {};
-                
-                if (filters?.department) {
-                    conditions.push('department = $department');
-                    params.department = filters.department;
-                }
-                
-                if (conditions.length > 0) {
-                    employeeQuery += ' WHERE ' + conditions.join(' AND ');
-                }
-                
-                const employeeResult = await surreal.query<[Employee[]]>(employeeQuery, params);
-                const employees = extractQueryResult<Employee>(employeeResult);
-                
-                // Step 4: For each employee, get their skills and calculate match score
-                const candidates: CandidateMatch[] = [];
-                
-                for (const emp of employees) {
-                    // Get employee's skills via graph traversal
-                    const skillsResult = await surreal.query<[HasSkillEdge[]]>(`
-                        SELECT * FROM has_skill WHERE in = $empId
-                    `, { empId: emp.id });
-                    const empSkills = extractQueryResult<HasSkillEdge>(skillsResult);
-                    
-                    // Calculate match scores
-                    const matchedSkills: CandidateMatch['matchedSkills'] = [];
-                    let graphScore = 0;
-                    
-                    for (const empSkill of empSkills) {
-                        const relevantSkill = relevantSkills.find(
-                            rs => rs.skill.id === empSkill.out
-                        );
-                        
-                        if (relevantSkill) {
-                            matchedSkills.push({
-                                skill: relevantSkill.skill,
-                                proficiency: empSkill.proficiency,
-                                relevance: relevantSkill.relevance,
-                            });
-                            
-                            // Weight by proficiency and relevance
-                            graphScore += (empSkill.proficiency / 5) * relevantSkill.relevance;
-                            
-                            // Bonus for certification
-                            if (empSkill.certified) {
-                                graphScore += 0.1;
-                            }
-                        }
-                    }
-                    
-                    if (matchedSkills.length > 0) {
-                        // Calculate semantic score from employee embedding if available
-                        const semanticScore = emp.embedding
-                            ? cosineSimilarity(queryEmbedding, emp.embedding)
-                            : 0.5;
-                        
-                        // Combined score
-                        const matchScore = (graphScore * 0.6) + (semanticScore * 0.4);
-                        
-                        candidates.push({
-                            employee: processRecord(emp),
-                            matchScore,
-                            matchedSkills: matchedSkills.sort((a, b) => b.relevance - a.relevance),
-                            semanticScore,
-                            graphScore,
-                        });
-                    }
-                }
-                
-                // Sort by match score and limit results
-                candidates.sort((a, b) => b.matchScore - a.matchScore);
-                const topCandidates = candidates.slice(0, limit);
-                
+                const result = data as SearchResult;
                 return {
-                    candidates: topCandidates,
-                    queryEmbedding,
-                    totalMatches: candidates.length,
-                    processingTimeMs: Date.now() - startTime,
+                    ...result,
+                    candidates: result.candidates.map(candidate => ({
+                        ...candidate,
+                        employee: processRecord(candidate.employee),
+                        matchedSkills: candidate.matchedSkills.map(match => ({
+                            ...match,
+                            skill: processRecord(match.skill),
+                        })),
+                    })),
                 };
             } catch (error) {
                 console.error('Candidate search failed:', error);
                 return {
                     candidates: [],
                     totalMatches: 0,
-                    processingTimeMs: Date.now() - startTime,
+                    processingTimeMs: 0,
                 };
             }
         },
     });
 }
 
+/**
+ * Colleagues most similar to an employee: embedding closeness blended with
+ * has_skill overlap. Runs server-side in /api/search/similar-employees.
+ */
+export function useSimilarEmployees({ id, limit = 5, overlap }: { id?: EmployeeID; limit?: number; overlap?: SkillOverlapMethod }) {
+    return useQuery({
+        queryKey: ['similar-employees', id, limit, overlap],
+        queryFn: async (): Promise<SimilarEmployee[]> => {
+            if (!id) return [];
+            try {
+                const response = await fetch('/api/search/similar-employees', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        employeeId: id,
+                        limit,
+                        overlap,
+                        provider: getEmbeddingSignature().provider,
+                    }),
+                });
+                
+                const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.error || response.statusText);
+                }
+                
+                return (data.similar as SimilarEmployee[]).map(match => ({
+                    ...match,
+                    employee: processRecord(match.employee),
+                    sharedSkills: match.sharedSkills.map(shared => ({
+                        ...shared,
+                        skill: processRecord(shared.skill),
+                    })),
+                }));
+            } catch (error) {
+                console.error('Failed to find similar employees:', error);
+                return [];
+            }
+        },
+        enabled: !!id,
+    });
+}
+
+// ==========================================
+// SKILL CURATION
+// ==========================================
+
+/**
+ * Clusters of near-duplicate skills ("JS", "Javascript", "JavaScript (ES6)") with a proposed survivor.
+ * Runs server-side in /api/skills/duplicates (see lib/SkillDuplicates.ts).
+ */
+export function useDuplicateSkills({ threshold, enabled = true }: { threshold?: number; enabled?: boolean } = {}) {
+    return useQuery({
+        queryKey: ['duplicate-skills', threshold],
+        queryFn: async (): Promise<DuplicateSkillCluster[]> => {
+            const response = await fetch('/api/skills/duplicates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    threshold,
+                    provider: getEmbeddingSignature().provider,
+                }),
+            });
+            
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || response.statusText);
+            }
+            
+            return (data.clusters as DuplicateSkillCluster[]).map(cluster => ({
+                ...cluster,
+                skills: cluster.skills.map(entry => ({ ...entry, skill: processRecord(entry.skill) })),
+            }));
+        },
+        enabled,
+    });
+}
+
+/**
+ * Merge duplicate skills into a survivor: moves their edges over and records their names as aliases
+ */
+export function useMergeSkills() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async ({ survivor, duplicates }: { survivor: SkillID; duplicates: SkillID[] }): Promise<SkillMergeResult> => {
+            const response = await fetch('/api/skills/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                body: JSON.stringify({ survivor, duplicates }),
+            });
+            
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || response.statusText);
+            }
+            return data.result;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['skills'] });
+            queryClient.invalidateQueries({ queryKey: ['duplicate-skills'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-with-employees'] });
+            queryClient.invalidateQueries({ queryKey: ['employee-with-skills'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-taxonomy'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-lineage'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
+/**
+ * Export the skill catalogue and its related_to graph as downloadable files
+ */
+export function useExportCatalogue() {
+    return useMutation({
+        mutationFn: async ({ format }: { format: CatalogueFormat }): Promise<CatalogueFile[]> => {
+            const response = await fetch(`/api/skills/catalogue?format=${format}`);
+            
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || response.statusText);
+            }
+            return data.files;
+        },
+    });
+}
+
+/**
+ * Import catalogue files. With dryRun (the default) nothing is written and the diff is returned for review.
+ */
+export function useImportCatalogue() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async ({ files, dryRun = true }: { files: CatalogueFile[]; dryRun?: boolean }): Promise<CatalogueImportResult> => {
+            const response = await fetch('/api/skills/catalogue', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                body: JSON.stringify({ files, dryRun }),
+            });
+            
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || response.statusText);
+            }
+            return data.result;
+        },
+        onSuccess: (result) => {
+            if (!result.applied) return;
+            queryClient.invalidateQueries({ queryKey: ['skills'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-categories'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-with-employees'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-taxonomy'] });
+            queryClient.invalidateQueries({ queryKey: ['skill-lineage'] });
+            queryClient.invalidateQueries({ queryKey: ['duplicate-skills'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
 // ==========================================
 // EMBEDDING MANAGEMENT
 // ==========================================
 
+// Ask the server to (re)define the vector indexes for the dimension we're about to write.
+// Vectors of another length are cleared there and picked up by the re-embedding job.
+async function ensureVectorIndexes(): Promise<void> {
+    try {
+        const response = await fetch('/api/vector-index', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ dimensions: getEmbeddingSignature().dimensions }),
+        });
+        if (!response.ok) throw new Error(response.statusText);
+    } catch (error) {
+        console.warn('Failed to update vector indexes:', error);
+    }
+}
+
 /**
  * Generate and store embeddings for all skills
  */
@@ -739,63 +1052,182 @@ export function useGenerateSkillEmbeddings() {
     
     return useMutation({
         mutationFn: async (): Promise<number> => {
-            // Get all skills without embeddings
-            const result = await surreal.query<[Skill[]]>(
-                'SELECT * FROM skill WHERE embedding = NONE OR embedding = []'
-            );
-            const skills = extractQueryResult<Skill>(result);
-            
-            let updated = 0;
-            for (const skill of skills) {
-                const text = `${skill.name}: ${skill.description || ''} ${skill.tags?.join(' ') || ''}`;
-                const embedding = await generateEmbedding(text);
-                
-                await surreal.query(
-                    'UPDATE skill SET embedding = $embedding WHERE id = $id',
-                    { id: skill.id, embedding }
-                );
-                updated++;
-            }
-            
-            return updated;
+            // Fills skills without embeddings and replaces ones from another provider/model
+            await ensureVectorIndexes();
+            const result = await reembedStaleRecords({ tables: ['skill'] });
+            return result.updated.skill;
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['skills'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
         },
     });
 }
 
 /**
- * Generate and store embeddings for all employees
+ * Generate and store embeddings for all employees: one summary vector each,
+ * plus one per profile section (bio, experience, education, projects)
  */
 export function useGenerateEmployeeEmbeddings() {
     const queryClient = useQueryClient();
     
     return useMutation({
         mutationFn: async (): Promise<number> => {
-            // Get all employees without embeddings
-            const result = await surreal.query<[Employee[]]>(
-                'SELECT * FROM employee WHERE embedding = NONE OR embedding = []'
-            );
-            const employees = extractQueryResult<Employee>(result);
-            
-            let updated = 0;
-            for (const emp of employees) {
-                const text = `${emp.name}, ${emp.role} in ${emp.department}. ${emp.profile?.bio || ''}`;
-                const embedding = await generateEmbedding(text);
+            // Fills employees without embeddings and replaces ones from another provider/model
+            await ensureVectorIndexes();
+            const result = await reembedStaleRecords({ tables: ['employee'] });
+            return result.updated.employee;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['employees'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
+/**
+ * Generate and store embeddings for all projects
+ */
+export function useGenerateProjectEmbeddings() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async (): Promise<number> => {
+            // Embeds name, description and metadata; fills missing and replaces stale vectors
+            await ensureVectorIndexes();
+            const result = await reembedStaleRecords({ tables: ['project'] });
+            return result.updated.project;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['projects'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
+/**
+ * Embedding providers registered on the server (GET /api/embed). Registers browser stand-ins
+ * for server-only ones, so they can be picked and produce vectors in the server's space.
+ */
+export function useEmbeddingProviders() {
+    return useQuery({
+        queryKey: ['embedding-providers'],
+        queryFn: async (): Promise<EmbeddingProviderInfo[]> => {
+            try {
+                const response = await fetch('/api/embed');
+                if (!response.ok) throw new Error(response.statusText);
+                const { providers } = (await response.json()) as { providers: EmbeddingProviderInfo[] };
+                registerRemoteEmbeddingProviders(providers);
+                return providers;
+            } catch (error) {
+                // Without the API only the providers built into the browser bundle are usable
+                console.error('Failed to load embedding providers:', error);
+                return listEmbeddingProviders();
+            }
+        },
+        staleTime: Infinity,
+    });
+}
+
+/**
+ * Count skills, employees and projects whose embedding is missing, doesn't match the current provider,
+ * or was made from text that has changed. Counted on the server (GET /api/embedding-queue).
+ * Polls while the background worker has queued records.
+ */
+export function useStaleEmbeddingCounts() {
+    return useQuery({
+        queryKey: ['stale-embeddings'],
+        queryFn: async (): Promise<StaleEmbeddingCounts> => {
+            try {
+                const provider = encodeURIComponent(getEmbeddingSignature().provider);
+                const response = await fetch(`/api/embedding-queue?provider=${provider}`);
                 
-                await surreal.query(
-                    'UPDATE employee SET embedding = $embedding WHERE id = $id',
-                    { id: emp.id, embedding }
-                );
-                updated++;
+                const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.error || response.statusText);
+                }
+                return data.stale;
+            } catch (error) {
+                console.error('Failed to count stale embeddings:', error);
+                return { skill: 0, employee: 0, project: 0, employee_chunk: 0, queued: 0 };
             }
-            
-            return updated;
+        },
+        refetchInterval: (data) => (data && data.queued > 0 ? 5000 : false),
+    });
+}
+
+/**
+ * Re-embed stale skills, employees and projects in batches, reporting progress through options.onProgress
+ */
+export function useReembedStale() {
+    const queryClient = useQueryClient();
+    
+    return useMutation({
+        mutationFn: async (options?: ReembedOptions) => {
+            await ensureVectorIndexes();
+            return reembedStaleRecords(options);
         },
         onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['skills'] });
             queryClient.invalidateQueries({ queryKey: ['employees'] });
+            queryClient.invalidateQueries({ queryKey: ['projects'] });
+            queryClient.invalidateQueries({ queryKey: ['stale-embeddings'] });
+        },
+    });
+}
+
+/**
+ * Skill and employee embeddings projected to 2D with PCA, for the embedding map.
+ * Only vectors from the configured provider and model share a space, so others are skipped.
+ */
+export function useEmbeddingMap() {
+    return useQuery({
+        queryKey: ['embedding-map', getEmbeddingSignature()],
+        queryFn: async (): Promise<EmbeddingMap> => {
+            type MapRecord = Pick<Skill, 'embedding' | 'embedding_meta'> & {
+                id: string;
+                name: string;
+                group: string;
+                skill_count?: number;
+            };
+            try {
+                const result = await surreal.query<[MapRecord[], MapRecord[]]>(`
+                    SELECT id, name, category AS group, embedding, embedding_meta
+                        FROM skill WHERE embedding != NONE;
+                    SELECT id, name, department AS group, embedding, embedding_meta, count(->has_skill) AS skill_count
+                        FROM employee WHERE embedding != NONE;
+                `);
+                const [skills = [], employees = []] = result as [MapRecord[], MapRecord[]];
+                
+                const signature = getEmbeddingSignature();
+                const records = [
+                    ...skills.map(record => ({ record, type: 'skill' as const })),
+                    ...employees.map(record => ({ record, type: 'employee' as const })),
+                ];
+                const compatible = records.filter(({ record }) => isEmbeddingCompatible(record, signature));
+                const { points, explainedVariance } = projectPCA(
+                    compatible.map(({ record }) => record.embedding as number[])
+                );
+                
+                return {
+                    points: compatible.map(({ record, type }, i): EmbeddingMapPoint => ({
+                        id: String(record.id),
+                        type,
+                        label: record.name,
+                        group: record.group || 'Unknown',
+                        ...points[i],
+                        skillCount: type === 'employee' ? record.skill_count ?? 0 : undefined,
+                    })),
+                    explainedVariance,
+                    skipped: records.length - compatible.length,
+                };
+            } catch (error) {
+                console.error('Failed to build embedding map:', error);
+                return { points: [], explainedVariance: [0, 0], skipped: 0 };
+            }
         },
+        // Projection is computed client-side; don't redo it on every focus
+        staleTime: 5 * 60 * 1000,
     });
 }
 
@@ -1,3 +1,19 @@
+////////////////////////
+////// EMBEDDINGS ///////
+////////////////////////
+
+// Provenance stored next to every embedding vector
+export type EmbeddingMeta = {
+    provider: string;
+    model: string;
+    dimensions: number;
+    generated_at: Date;
+    // Mock stand-in stored after the real provider failed
+    fallback?: boolean;
+    // Hash of the text the vector was generated from
+    content_hash?: string;
+};
+
 ////////////////////////
 //////// EMPLOYEES ///////
 ////////////////////////
@@ -6,6 +22,7 @@ export type EmployeeID = `employee:${string}`;
 
 export type EmployeeProfile = {
     bio?: string;
+    experience?: string;
     location?: string;
     years_experience?: number;
     education?: string;
@@ -22,6 +39,7 @@ export type Employee = {
     avatar_url?: string;
     profile?: EmployeeProfile;
     embedding?: number[];
+    embedding_meta?: EmbeddingMeta;
     created: Date;
     updated: Date;
 };
@@ -31,6 +49,24 @@ export type EmployeeInput = Pick<Employee, 'name' | 'email' | 'department' | 'ro
     profile?: EmployeeProfile;
 };
 
+// Separately embedded profile sections; 'summary' is the employee's own
+// embedding (name, role, department, bio) and isn't stored as a chunk
+export type EmployeeChunkSection = 'summary' | 'bio' | 'experience' | 'education' | 'project';
+
+export type EmployeeChunkID = `employee_chunk:${string}`;
+
+export type EmployeeChunk = {
+    id: EmployeeChunkID;
+    employee: EmployeeID;
+    section: Exclude<EmployeeChunkSection, 'summary'>;
+    project?: ProjectID;
+    text: string;
+    embedding?: number[];
+    embedding_meta?: EmbeddingMeta;
+    created: Date;
+    updated: Date;
+};
+
 ////////////////////////
 //////// SKILLS /////////
 ////////////////////////
@@ -58,6 +94,12 @@ export type Skill = {
     description?: string;
     tags?: string[];
     embedding?: number[];
+    embedding_meta?: EmbeddingMeta;
+    // Hidden from pickers but kept on existing profiles and projects
+    deprecated?: boolean;
+    deprecated_at?: Date;
+    // Successor that free-text matching resolves to instead
+    replaced_by?: SkillID;
     created: Date;
     updated: Date;
 };
@@ -67,6 +109,40 @@ export type SkillInput = Pick<Skill, 'name' | 'category'> & {
     tags?: string[];
 };
 
+export type SkillAliasID = `skill_alias:${string}`;
+
+// Alternative spelling that resolves to a skill, e.g. "JS" -> JavaScript
+export type SkillAlias = {
+    id: SkillAliasID;
+    alias: string;
+    // Lowercased, punctuation-free form used for lookups
+    normalized: string;
+    skill: SkillID;
+    source: 'merge' | 'manual';
+    created: Date;
+};
+
+// What one has_skill.proficiency value (1-5) means
+export type ProficiencyLevel = {
+    level: number;
+    label: string;
+    description: string;
+};
+
+export type ProficiencyRubricID = `proficiency_rubric:${string}`;
+
+// Level descriptors for one skill, or for every skill in a category
+export type ProficiencyRubric = {
+    id: ProficiencyRubricID;
+    skill?: SkillID;
+    category?: SkillCategory;
+    // May leave levels out; they fall back to the category, then the default rubric
+    levels: ProficiencyLevel[];
+};
+
+// Which rubric a level descriptor came from
+export type ProficiencyRubricSource = 'skill' | 'category' | 'default';
+
 ////////////////////////
 //////// PROJECTS ///////
 ////////////////////////
@@ -94,6 +170,7 @@ export type Project = {
     priority?: string;
     metadata?: ProjectMetadata;
     embedding?: number[];
+    embedding_meta?: EmbeddingMeta;
     start_date?: Date;
     end_date?: Date;
     created: Date;
@@ -136,12 +213,18 @@ export type SkillRelationType =
     | 'alternative'
     | 'related';
 
+// curated: written by hand; inferred: mined from co-occurrence and safe to recompute
+export type RelatedToSource = 'curated' | 'inferred';
+
 export type RelatedToEdge = {
     id: string;
     in: SkillID;
     out: SkillID;
     similarity_score: number; // 0-1
     type: SkillRelationType;
+    source?: RelatedToSource; // missing on edges older than the field, which are curated
+    support?: number; // inferred edges: employees and projects having both skills
+    inferred_at?: Date;
     created: Date;
 };
 
@@ -192,6 +275,8 @@ export type SkillWithEmployees = Skill & {
         proficiency: number;
         years?: number;
         certified: boolean;
+        // Set when the employee is listed through a descendant skill
+        via?: Pick<Skill, 'id' | 'name'>;
     }>;
 };
 
@@ -213,6 +298,47 @@ export type ProjectWithDetails = Project & {
 // SEARCH TYPES /////////
 ////////////////////////
 
+// Retrieval channel a search hit came from: embeddings (KNN) or BM25 full-text
+export type SearchChannel = 'vector' | 'lexical';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export type FusionOptions = {
+    // rrf: reciprocal rank fusion; weighted: weighted sum of min-max normalised scores
+    method?: FusionMethod;
+    // RRF rank constant (default 60)
+    k?: number;
+    // Per-channel weight (default 1 each)
+    weights?: Partial<Record<SearchChannel, number>>;
+};
+
+// Query expansion through related_to edges
+export type SkillExpansion = {
+    depth?: number; // hops to follow, 0 disables expansion (default 1)
+    relations?: SkillRelationType[]; // default synonym, child, commonly_used_with
+    // Also match every descendant of a matched skill, at any depth (default false)
+    descendants?: boolean;
+};
+
+// Marks a skill that matched through the skill graph rather than the query itself
+export type InferredMatch = {
+    via: string; // name of the skill the last hop started from
+    relation: SkillRelationType;
+    hops: number;
+};
+
+// How an employee's chunk similarities become one semantic score:
+// max: best chunk; weighted: section-weighted mean of the best chunk per section
+export type ChunkAggregation = 'max' | 'weighted';
+
+// The profile chunk that matched a query best
+export type MatchedChunk = {
+    section: EmployeeChunkSection;
+    text: string;
+    score: number;
+    project?: ProjectID;
+};
+
 export type SemanticSearchQuery = {
     query: string;
     filters?: {
@@ -222,6 +348,59 @@ export type SemanticSearchQuery = {
         certified?: boolean;
     };
     limit?: number;
+    // Override the scoring profile's fusion and expansion settings
+    fusion?: FusionOptions;
+    expansion?: SkillExpansion;
+    // Name of a scoring_profile record, 'default' when omitted
+    profile?: string;
+    // How profile chunk similarities are combined (default max)
+    chunkAggregation?: ChunkAggregation;
+};
+
+// Why a candidate got its score: every term that went into the ranking
+export type ScoreExplanation = {
+    profile: string;
+    // One entry per matched skill: (proficiency / 5) x relevance, plus the certification bonus
+    skills: Array<{
+        skillId: SkillID;
+        skill: string;
+        proficiency: number;
+        relevance: number;
+        contribution: number;
+        certificationBonus: number;
+        channels?: SearchChannel[];
+        inferred?: InferredMatch;
+    }>;
+    graph: {
+        score: number; // sum of skill contributions and bonuses
+        certificationBonus: number;
+        weight: number;
+        contribution: number; // score x weight
+    };
+    semantic: {
+        similarity: number;
+        // True when the employee was outside the KNN top-k and the k-th neighbour's score was used
+        estimated: boolean;
+        weight: number;
+        contribution: number;
+        aggregation?: ChunkAggregation;
+        chunk?: MatchedChunk;
+    };
+    lexical?: {
+        profileScore: number; // BM25 on name, role and bio, relative to the best hit
+        skillScore: number; // proficiency-weighted BM25 on matched skills
+    };
+    fusion: {
+        method: FusionMethod;
+        // 1-based rank in each channel that returned the candidate
+        ranks: Partial<Record<SearchChannel, number>>;
+        score: number;
+    };
+    // Filters and cut-offs that changed what was counted
+    filters: Array<{
+        filter: string;
+        effect: string;
+    }>;
 };
 
 export type CandidateMatch = {
@@ -231,9 +410,35 @@ export type CandidateMatch = {
         skill: Skill;
         proficiency: number;
         relevance: number;
+        channels?: SearchChannel[];
+        inferred?: InferredMatch;
     }>;
     semanticScore: number;
     graphScore: number;
+    // Set by hybrid search: channels that returned this candidate and their BM25 score
+    channels?: SearchChannel[];
+    lexicalScore?: number;
+    explanation?: ScoreExplanation;
+    // Profile section the semantic score came from
+    matchedChunk?: MatchedChunk;
+};
+
+// How has_skill overlap is measured: plain Jaccard of skill sets, or
+// proficiency-weighted Jaccard (sum of min / sum of max proficiency)
+export type SkillOverlapMethod = 'jaccard' | 'weighted';
+
+export type SimilarEmployee = {
+    employee: Employee;
+    // Blend of embedding similarity and skill overlap, 0-1
+    score: number;
+    embeddingSimilarity: number;
+    skillOverlap: number;
+    sharedSkills: Array<{
+        skill: Skill;
+        proficiency: number;
+        // The reference employee's proficiency in the same skill
+        referenceProficiency: number;
+    }>;
 };
 
 export type SearchResult = {
@@ -241,6 +446,248 @@ export type SearchResult = {
     queryEmbedding?: number[];
     totalMatches: number;
     processingTimeMs: number;
+    fusion?: FusionMethod;
+    profile?: string;
+};
+
+// One skill or employee on the 2D embedding map
+export type EmbeddingMapPoint = {
+    id: string;
+    type: 'skill' | 'employee';
+    label: string;
+    // Skill category or employee department, used for colouring
+    group: string;
+    x: number;
+    y: number;
+    // Employees only: number of has_skill edges
+    skillCount?: number;
+};
+
+export type EmbeddingMap = {
+    points: EmbeddingMapPoint[];
+    explainedVariance: [number, number];
+    // Records left out because their vector is missing or from another provider/model
+    skipped: number;
+};
+
+////////////////////////
+// SKILL CURATION ///////
+////////////////////////
+
+// Edges pointing at a skill; a merge moves all of them
+export type SkillUsage = {
+    employees: number;
+    projects: number;
+    relations: number;
+};
+
+export type DuplicateSkillPair = {
+    a: SkillID;
+    b: SkillID;
+    // Blend of name and embedding similarity, 0-1
+    score: number;
+    nameSimilarity: number;
+    // null when either skill has no vector in the current space
+    embeddingSimilarity: number | null;
+};
+
+// Skills that look like spellings of the same thing
+export type DuplicateSkillCluster = {
+    skills: Array<{ skill: Skill; usage: SkillUsage }>;
+    // Proposed survivor: the most used skill
+    survivor: SkillID;
+    pairs: DuplicateSkillPair[];
+};
+
+export type SkillMergeResult = {
+    survivor: SkillID;
+    merged: SkillID[];
+    aliases: string[];
+    // Edges moved to the survivor, or folded into an edge it already had
+    hasSkill: number;
+    requiresSkill: number;
+    relatedTo: number;
+};
+
+// cascade drops every edge and alias of the skill; reassign moves them to another skill
+export type SkillDeleteMode = 'cascade' | 'reassign';
+
+// What deleting a skill would touch
+export type SkillImpact = SkillUsage & {
+    aliases: number;
+    // Deprecated skills that name this one as their replacement
+    replaces: number;
+    // Proficiency rubrics written for this skill
+    rubrics: number;
+};
+
+export type SkillDeleteResult = {
+    deleted: SkillID;
+    mode: SkillDeleteMode;
+    reassignedTo?: SkillID;
+    // Edges removed, or moved when reassigning
+    hasSkill: number;
+    requiresSkill: number;
+    relatedTo: number;
+    aliases: number;
+};
+
+// Node of the parent/child hierarchy; skills with several parents appear under each
+export type SkillTreeNode = {
+    skill: Pick<Skill, 'id' | 'name' | 'category'>;
+    children: SkillTreeNode[];
+    // The skill is already an ancestor on this path, so the branch stops here
+    cyclic?: boolean;
+};
+
+export type SkillTaxonomyTree = {
+    roots: SkillTreeNode[];
+    // Each cycle lists its skills in child -> parent order
+    cycles: Array<Array<Pick<Skill, 'id' | 'name'>>>;
+};
+
+// Skill catalogue in a store-neutral shape, for import and export.
+// `key` is the record id without the table (skill:python -> "python").
+export type CatalogueSkill = {
+    key: string;
+    name: string;
+    category: string;
+    description?: string;
+    tags?: string[];
+    aliases?: string[];
+};
+
+export type CatalogueRelation = {
+    from: string;
+    to: string;
+    type: SkillRelationType;
+    similarity?: number;
+};
+
+export type SkillCatalogue = {
+    skills: CatalogueSkill[];
+    relations: CatalogueRelation[];
+};
+
+// json: one file; csv: skills.csv and relations.csv;
+// esco: ESCO-style skills, broader-relations and skill-skill-relations CSVs
+export type CatalogueFormat = 'json' | 'csv' | 'esco';
+
+export type CatalogueFile = {
+    name: string;
+    content: string;
+};
+
+export type CatalogueConflict = {
+    kind: 'duplicate' | 'name_taken' | 'similar_name' | 'alias_taken' | 'unknown_skill';
+    message: string;
+};
+
+// What an import would change. Imports never delete anything.
+export type CatalogueDiff = {
+    addedSkills: CatalogueSkill[];
+    changedSkills: Array<{
+        key: string;
+        name: string;
+        changes: Array<{ field: 'name' | 'category' | 'description' | 'tags'; before: unknown; after: unknown }>;
+    }>;
+    unchangedSkills: number;
+    addedAliases: Array<{ alias: string; skill: string }>;
+    addedRelations: CatalogueRelation[];
+    // Relations whose similarity differs, or that were inferred and become curated
+    changedRelations: Array<CatalogueRelation & { before: number }>;
+    unchangedRelations: number;
+    // Entries that are skipped until the file or the catalogue is fixed
+    conflicts: CatalogueConflict[];
+    // Problems reading the files
+    warnings: string[];
+};
+
+export type CatalogueImportResult = {
+    diff: CatalogueDiff;
+    applied: boolean;
+};
+
+// Pair statistic used to infer commonly_used_with edges
+export type CooccurrenceMetric = 'jaccard' | 'npmi';
+
+export type InferredSkillRelation = {
+    in: SkillID;
+    out: SkillID;
+    inName: string;
+    outName: string;
+    // Employees and projects having both skills
+    support: number;
+    jaccard: number;
+    // Normalised PMI, -1 to 1
+    npmi: number;
+    // The chosen metric, clamped to 0-1; becomes similarity_score
+    score: number;
+    // skip: the pair already has a curated edge, which is left alone
+    action: 'create' | 'update' | 'skip';
+};
+
+export type SkillRelationInferenceResult = {
+    metric: CooccurrenceMetric;
+    threshold: number;
+    // Employee skill sets and project requirement sets that were counted
+    baskets: number;
+    created: number;
+    updated: number;
+    // Inferred edges whose pair fell below the threshold
+    removed: number;
+    skipped: number;
+    dryRun: boolean;
+    relations: InferredSkillRelation[];
+};
+
+// How a free-text skill name was matched to the catalogue, in the order tried
+export type SkillMatchMethod = 'exact' | 'alias' | 'normalized' | 'embedding';
+
+export type CanonicalSkill = {
+    input: string;
+    // null when nothing in the catalogue is close enough
+    skill: Pick<Skill, 'id' | 'name'> | null;
+    method: SkillMatchMethod | null;
+    // 1 for name matches, cosine similarity for embedding matches
+    score: number;
+};
+
+////////////////////////
+/////// SCORING ////////
+////////////////////////
+
+export type ScoringProfileID = `scoring_profile:${string}`;
+
+// Named ranking configuration stored in the scoring_profile table
+export type ScoringProfile = {
+    id?: ScoringProfileID;
+    name: string;
+    description?: string;
+    weights: {
+        graph: number; // matched skills (proficiency x relevance)
+        semantic: number; // employee profile embedding similarity
+    };
+    bonuses: {
+        certification: number; // per certified matched skill
+    };
+    thresholds: {
+        skill_relevance: number; // min similarity for a skill to count in candidate search
+        semantic_skill_search: number; // min similarity in semantic skill search
+    };
+    project: {
+        coverage_weight: number;
+        proficiency_weight: number;
+        expected_skills: number; // matched skills needed for full coverage
+        expected_proficiency: number; // summed proficiency needed for a full score
+    };
+    team: {
+        coverage_weight: number;
+        compatibility_weight: number;
+        collaborations_for_max: number; // past collaborations for full compatibility
+    };
+    fusion?: FusionOptions;
+    expansion?: SkillExpansion;
 };
 
 ////////////////////////
@@ -0,0 +1,28 @@
+/**
+ * Next.js server startup hook: loads the local embedding model when it is
+ * the configured provider, and starts the background embedding worker
+ * (lib/EmbeddingWorker.ts) unless EMBEDDING_WORKER=off.
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { getEmbeddingConfig, loadLocalEmbeddingModel, setEmbeddingConfig } =
+        await import('./lib/EmbeddingProvider');
+    // Its dimension comes from the model, so know it before anything embeds
+    if (getEmbeddingConfig().provider === 'local') {
+        await loadLocalEmbeddingModel().catch((error) =>
+            console.warn('Local embedding model could not be loaded:', error)
+        );
+    }
+
+    if (process.env.EMBEDDING_WORKER === 'off') return;
+
+    const { startEmbeddingWorker } = await import('./lib/EmbeddingWorker');
+
+    setEmbeddingConfig({ openaiApiKey: process.env.OPENAI_API_KEY });
+    startEmbeddingWorker({
+        intervalMs: process.env.EMBEDDING_WORKER_INTERVAL
+            ? parseInt(process.env.EMBEDDING_WORKER_INTERVAL) * 1000
+            : undefined,
+    });
+}
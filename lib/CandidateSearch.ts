@@ -0,0 +1,508 @@
+/**
+ * Candidate Search
+ *
+ * Hybrid (vector + BM25) candidate search, run server-side by
+ * /api/search/candidates. Employees and their matching has_skill edges
+ * are loaded in a single graph query.
+ */
+
+import {
+    generateEmbedding,
+    getEmbeddingSignature,
+    type EmbeddingProviderType,
+    type EmbeddingSignature,
+} from './EmbeddingProvider';
+import { knnSearch, type QueryRunner } from './VectorSearch';
+import { fullTextSearch, fuseRankings, type RankedItem } from './HybridSearch';
+import { getScoringProfile } from './ScoringProfiles';
+import { expandSkills } from './SkillGraph';
+import { findDescendantSkills } from './SkillTaxonomy';
+import { aggregateChunkScores, searchEmployeeChunks } from './EmployeeChunks';
+import { employeeEmbeddingText } from './Reembed';
+import type {
+    CandidateMatch,
+    Employee,
+    HasSkillEdge,
+    InferredMatch,
+    ScoreExplanation,
+    SearchChannel,
+    SearchResult,
+    SemanticSearchQuery,
+    Skill,
+} from '../constants/SkillTypes';
+
+type RelevantSkill = {
+    skill: Skill;
+    relevance: number;
+    vectorRelevance: number;
+    lexicalRelevance: number;
+    channels: SearchChannel[];
+    inferred?: InferredMatch;
+};
+
+type EmployeeWithEdges = Employee & {
+    skill_edges: Array<Pick<HasSkillEdge, 'out' | 'proficiency' | 'certified'>>;
+};
+
+/**
+ * Skills close to the query embedding (KNN) or matching its terms (BM25)
+ */
+async function findRelevantSkills(
+    db: QueryRunner,
+    query: string,
+    queryEmbedding: number[],
+    signature: EmbeddingSignature,
+    minRelevance: number
+): Promise<{
+    relevantSkills: Map<string, RelevantSkill>;
+    belowThreshold: number;
+}> {
+    const [nearestSkills, lexicalSkills] = await Promise.all([
+        knnSearch<Skill>('skill', queryEmbedding, {
+            k: 15,
+            signature,
+            db,
+        }),
+        fullTextSearch<Skill>('skill', query, { limit: 15, db }),
+    ]);
+
+    const relevantSkills = new Map<string, RelevantSkill>();
+    const aboveThreshold = nearestSkills.filter((s) => s.score > minRelevance);
+
+    aboveThreshold.forEach(({ score, ...skill }) => {
+        relevantSkills.set(String(skill.id), {
+            skill: skill as Skill,
+            relevance: score,
+            vectorRelevance: score,
+            lexicalRelevance: 0,
+            channels: ['vector'],
+        });
+    });
+
+    // BM25 scores are unbounded, so relevance is relative to the best lexical hit
+    const topSkillScore = lexicalSkills[0]?.score || 1;
+    lexicalSkills.forEach(({ score, ...skill }) => {
+        const lexicalRelevance = Math.min(1, score / topSkillScore);
+        const existing = relevantSkills.get(String(skill.id));
+        if (existing) {
+            existing.lexicalRelevance = lexicalRelevance;
+            existing.relevance = Math.max(existing.relevance, lexicalRelevance);
+            existing.channels.push('lexical');
+        } else {
+            relevantSkills.set(String(skill.id), {
+                skill: skill as Skill,
+                relevance: lexicalRelevance,
+                vectorRelevance: 0,
+                lexicalRelevance,
+                channels: ['lexical'],
+            });
+        }
+    });
+
+    return {
+        relevantSkills,
+        belowThreshold: nearestSkills.length - aboveThreshold.length,
+    };
+}
+
+/**
+ * Find suitable candidates for a natural language query.
+ * Vector (KNN) and lexical (BM25) rankings are fused, by default with RRF.
+ * Weights, thresholds and bonuses come from the named scoring profile.
+ * The query is embedded with the given provider, or the configured one.
+ */
+export async function searchCandidates(
+    db: QueryRunner,
+    searchQuery: SemanticSearchQuery,
+    provider?: EmbeddingProviderType
+): Promise<SearchResult> {
+    const startTime = Date.now();
+    const {
+        query,
+        filters,
+        limit = 10,
+        chunkAggregation = 'max',
+    } = searchQuery;
+    const profile = await getScoringProfile(searchQuery.profile, db);
+    const fusion = { ...profile.fusion, ...searchQuery.fusion };
+    const fusionMethod = fusion.method || 'rrf';
+    const expansion = { ...profile.expansion, ...searchQuery.expansion };
+    const { weights, bonuses, thresholds } = profile;
+    const departmentFilter = filters?.department
+        ? 'department = $department'
+        : undefined;
+    const departmentVars = { department: filters?.department };
+
+    // Step 1: Generate embedding for the query
+    const signature = getEmbeddingSignature(provider);
+    const queryEmbedding = await generateEmbedding(query, signature.provider);
+
+    // Step 2: Find relevant skills, semantically (KNN) and by exact terms (BM25)
+    const { relevantSkills, belowThreshold } = await findRelevantSkills(
+        db,
+        query,
+        queryEmbedding,
+        signature,
+        thresholds.skill_relevance
+    );
+
+    // Step 2b: Expand through the skill graph (e.g. React -> Next.js), discounting
+    // each hop by its similarity_score. Inferred skills keep their seed's channels.
+    const expanded = await expandSkills(relevantSkills, {
+        depth: expansion.depth,
+        relations: expansion.relations,
+        minRelevance: thresholds.skill_relevance,
+        db,
+    });
+    expanded.forEach((match, id) => {
+        const seed = relevantSkills.get(String(match.seed));
+        if (!seed) return;
+        const discount = match.relevance / seed.relevance;
+        relevantSkills.set(id, {
+            skill: match.skill,
+            relevance: match.relevance,
+            vectorRelevance: seed.vectorRelevance * discount,
+            lexicalRelevance: seed.lexicalRelevance * discount,
+            channels: seed.channels,
+            inferred: {
+                via: match.via.name,
+                relation: match.relation,
+                hops: match.hops,
+            },
+        });
+    });
+
+    // Step 2c: Optionally treat every descendant of a matched skill as a match
+    // too ("Cloud Platform" -> AWS -> EC2). Holding a narrower skill implies the
+    // broader one, so descendants keep their ancestor's relevance.
+    if (expansion.descendants) {
+        const descendants = await findDescendantSkills(
+            Array.from(relevantSkills.values()).map(({ skill }) => skill.id),
+            db
+        );
+        const missing = Array.from(descendants.keys()).filter(
+            (id) => !relevantSkills.has(id)
+        );
+        const loaded = missing.length
+            ? (
+                  (await db.query('SELECT * OMIT embedding FROM $ids', {
+                      ids: missing.map((id) => descendants.get(id)?.skill.id),
+                  })) as Skill[][]
+              )[0] ?? []
+            : [];
+        loaded.forEach((skill) => {
+            const step = descendants.get(String(skill.id));
+            const ancestor = step && relevantSkills.get(String(step.root));
+            if (!step || !ancestor) return;
+            relevantSkills.set(String(skill.id), {
+                ...ancestor,
+                skill,
+                inferred: {
+                    via: step.via.name,
+                    relation: 'child',
+                    hops: step.hops,
+                },
+            });
+        });
+    }
+
+    // Step 3: Nearest employees (KNN on the summary vector and on each profile
+    // section) and employees matching by name, role or bio (BM25)
+    const employeeK = Math.max(limit * 10, 100);
+    const [nearestEmployees, nearestChunks, lexicalEmployees] =
+        await Promise.all([
+            knnSearch<Employee>('employee', queryEmbedding, {
+                k: employeeK,
+                signature,
+                where: departmentFilter,
+                vars: departmentVars,
+                db,
+            }),
+            searchEmployeeChunks(queryEmbedding, {
+                k: employeeK,
+                signature,
+                where: filters?.department
+                    ? 'employee.department = $department'
+                    : undefined,
+                vars: departmentVars,
+                db,
+            }),
+            fullTextSearch<Employee>('employee', query, {
+                limit: employeeK,
+                where: departmentFilter,
+                vars: departmentVars,
+                db,
+            }),
+        ]);
+
+    // Employees whose best profile section alone is relevant enough to be a candidate
+    const chunkMatches = Array.from(nearestChunks.values()).filter(
+        ({ chunks }) =>
+            chunks.some((chunk) => chunk.score > thresholds.skill_relevance)
+    );
+    const chunkMatchIds = new Set(
+        chunkMatches.map((match) => String(match.employee))
+    );
+
+    if (
+        relevantSkills.size === 0 &&
+        lexicalEmployees.length === 0 &&
+        chunkMatches.length === 0
+    ) {
+        return {
+            candidates: [],
+            queryEmbedding,
+            totalMatches: 0,
+            processingTimeMs: Date.now() - startTime,
+            fusion: fusionMethod,
+            profile: profile.name,
+        };
+    }
+
+    const semanticScores = new Map(
+        nearestEmployees.map((emp) => [String(emp.id), emp.score])
+    );
+    // Employees outside a full top-k are at most as similar as the k-th neighbour
+    const outsideTopKScore =
+        nearestEmployees.length >= employeeK
+            ? nearestEmployees[nearestEmployees.length - 1].score
+            : 0.5;
+    const topEmployeeScore = lexicalEmployees[0]?.score || 1;
+    const lexicalEmployeeScores = new Map(
+        lexicalEmployees.map((emp) => [
+            String(emp.id),
+            emp.score / topEmployeeScore,
+        ])
+    );
+
+    // Step 4: One graph query for every employee that has a relevant skill,
+    // matched lexically or on a profile section, with only the edges
+    // pointing at relevant skills
+    const skillIds = Array.from(relevantSkills.values()).map((s) => s.skill.id);
+    const result = (await db.query(
+        `
+        SELECT *, ->has_skill[WHERE out IN $skills].{ out, proficiency, certified } AS skill_edges
+        OMIT embedding
+        FROM employee
+        WHERE (->has_skill.out CONTAINSANY $skills OR id IN $lexical OR id IN $chunks)${
+            departmentFilter ? ` AND ${departmentFilter}` : ''
+        };
+    `,
+        {
+            ...departmentVars,
+            skills: skillIds,
+            lexical: lexicalEmployees.map((emp) => emp.id),
+            chunks: chunkMatches.map((match) => match.employee),
+        }
+    )) as EmployeeWithEdges[][];
+    const employees = Array.isArray(result?.[0]) ? result[0] : [];
+
+    // Filters and cut-offs that apply to every candidate
+    const globalFilters: ScoreExplanation['filters'] = [];
+    if (filters?.department) {
+        globalFilters.push({
+            filter: 'department',
+            effect: `Only employees in ${filters.department} were considered`,
+        });
+    }
+    if (belowThreshold > 0) {
+        globalFilters.push({
+            filter: 'skill relevance',
+            effect: `${belowThreshold} similar skill(s) below ${Math.round(
+                thresholds.skill_relevance * 100
+            )}% relevance were ignored`,
+        });
+    }
+
+    // Step 5: Score each employee per channel
+    const candidatesById = new Map<string, CandidateMatch>();
+    const vectorRanking: RankedItem[] = [];
+    const lexicalRanking: RankedItem[] = [];
+
+    employees.forEach(({ skill_edges: edges = [], ...emp }) => {
+        const matchedSkills: CandidateMatch['matchedSkills'] = [];
+        const skillTerms: ScoreExplanation['skills'] = [];
+        const candidateFilters = [...globalFilters];
+        let graphScore = 0;
+        let certificationTotal = 0;
+        let vectorGraphScore = 0;
+        let lexicalGraphScore = 0;
+
+        edges.forEach((edge) => {
+            const relevantSkill = relevantSkills.get(String(edge.out));
+            if (!relevantSkill) return;
+
+            const { skill } = relevantSkill;
+            if (
+                filters?.minProficiency &&
+                edge.proficiency < filters.minProficiency
+            ) {
+                candidateFilters.push({
+                    filter: 'min proficiency',
+                    effect: `${skill.name} not counted: proficiency ${edge.proficiency} < ${filters.minProficiency}`,
+                });
+                return;
+            }
+            if (filters?.certified && !edge.certified) {
+                candidateFilters.push({
+                    filter: 'certified',
+                    effect: `${skill.name} not counted: not certified`,
+                });
+                return;
+            }
+
+            matchedSkills.push({
+                skill,
+                proficiency: edge.proficiency,
+                relevance: relevantSkill.relevance,
+                channels: relevantSkill.channels,
+                inferred: relevantSkill.inferred,
+            });
+
+            // Weight by proficiency and relevance, with a bonus for certification
+            const proficiencyWeight = edge.proficiency / 5;
+            const certBonus = edge.certified ? bonuses.certification : 0;
+            const contribution = proficiencyWeight * relevantSkill.relevance;
+            graphScore += contribution + certBonus;
+            certificationTotal += certBonus;
+            skillTerms.push({
+                skillId: skill.id,
+                skill: skill.name,
+                proficiency: edge.proficiency,
+                relevance: relevantSkill.relevance,
+                contribution,
+                certificationBonus: certBonus,
+                channels: relevantSkill.channels,
+                inferred: relevantSkill.inferred,
+            });
+            if (relevantSkill.vectorRelevance > 0) {
+                vectorGraphScore +=
+                    proficiencyWeight * relevantSkill.vectorRelevance +
+                    certBonus;
+            }
+            if (relevantSkill.lexicalRelevance > 0) {
+                lexicalGraphScore +=
+                    proficiencyWeight * relevantSkill.lexicalRelevance +
+                    certBonus;
+            }
+        });
+
+        const id = String(emp.id);
+        const lexicalScore = lexicalEmployeeScores.get(id) ?? 0;
+        const chunkMatched = chunkMatchIds.has(id);
+        if (matchedSkills.length === 0 && lexicalScore === 0 && !chunkMatched) {
+            return;
+        }
+
+        // Semantic score: the summary vector and each profile section, aggregated
+        const knnScore = semanticScores.get(id);
+        const sectionHits = [...(nearestChunks.get(id)?.chunks || [])];
+        if (knnScore !== undefined) {
+            sectionHits.push({
+                section: 'summary',
+                text: employeeEmbeddingText(emp as Employee),
+                score: knnScore,
+            });
+        }
+        const aggregated = aggregateChunkScores(sectionHits, chunkAggregation);
+        const semanticScore = aggregated?.score ?? outsideTopKScore;
+
+        // Vector channel: skills found by embedding similarity plus profile similarity
+        if (vectorGraphScore > 0 || chunkMatched) {
+            vectorRanking.push({
+                id,
+                score:
+                    vectorGraphScore * weights.graph +
+                    semanticScore * weights.semantic,
+            });
+        }
+        // Lexical channel: exact-term hits on the profile and on skill names/descriptions
+        if (lexicalScore + lexicalGraphScore > 0) {
+            lexicalRanking.push({
+                id,
+                score: lexicalScore + lexicalGraphScore,
+            });
+        }
+
+        candidatesById.set(id, {
+            employee: emp as Employee,
+            matchScore: 0,
+            matchedSkills: matchedSkills.sort(
+                (a, b) => b.relevance - a.relevance
+            ),
+            semanticScore,
+            graphScore,
+            lexicalScore,
+            matchedChunk: aggregated?.chunk,
+            explanation: {
+                profile: profile.name,
+                skills: skillTerms.sort(
+                    (a, b) =>
+                        b.contribution +
+                        b.certificationBonus -
+                        (a.contribution + a.certificationBonus)
+                ),
+                graph: {
+                    score: graphScore,
+                    certificationBonus: certificationTotal,
+                    weight: weights.graph,
+                    contribution: graphScore * weights.graph,
+                },
+                semantic: {
+                    similarity: semanticScore,
+                    estimated: aggregated === null,
+                    weight: weights.semantic,
+                    contribution: semanticScore * weights.semantic,
+                    aggregation: chunkAggregation,
+                    chunk: aggregated?.chunk,
+                },
+                lexical:
+                    lexicalScore + lexicalGraphScore > 0
+                        ? {
+                              profileScore: lexicalScore,
+                              skillScore: lexicalGraphScore,
+                          }
+                        : undefined,
+                // Filled in after fusion
+                fusion: { method: fusionMethod, ranks: {}, score: 0 },
+                filters: candidateFilters,
+            },
+        });
+    });
+
+    // Step 6: Fuse the two rankings
+    const byScore = (a: RankedItem, b: RankedItem) => b.score - a.score;
+    const fused = fuseRankings(
+        {
+            vector: vectorRanking.sort(byScore),
+            lexical: lexicalRanking.sort(byScore),
+        },
+        fusion
+    );
+
+    const candidates = fused.map((item) => {
+        const candidate = candidatesById.get(item.id) as CandidateMatch;
+        return {
+            ...candidate,
+            matchScore: item.score,
+            channels: item.channels,
+            explanation: candidate.explanation && {
+                ...candidate.explanation,
+                fusion: {
+                    method: fusionMethod,
+                    ranks: item.ranks,
+                    score: item.score,
+                },
+            },
+        };
+    });
+
+    return {
+        candidates: candidates.slice(0, limit),
+        queryEmbedding,
+        totalMatches: candidates.length,
+        processingTimeMs: Date.now() - startTime,
+        fusion: fusionMethod,
+        profile: profile.name,
+    };
+}
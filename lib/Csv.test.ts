@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from './Csv';
+
+describe('parseCsv', () => {
+    it('keys rows by the trimmed header line', () => {
+        const { headers, rows } = parseCsv(
+            ' name ,category\nReact,Framework\n'
+        );
+        assert.deepEqual(headers, ['name', 'category']);
+        assert.deepEqual(rows, [{ name: 'React', category: 'Framework' }]);
+    });
+
+    it('reads quoted commas, quotes and line breaks', () => {
+        const { rows } = parseCsv(
+            'name,description\r\n"C#","Say ""C sharp"", not\r\n""C hash"""\r\n'
+        );
+        assert.deepEqual(rows, [
+            { name: 'C#', description: 'Say "C sharp", not\r\n"C hash"' },
+        ]);
+    });
+
+    it('skips blank lines, a byte-order mark and a missing final newline', () => {
+        const { headers, rows } = parseCsv('\uFEFFname\n\nSQL\n\nRust');
+        assert.deepEqual(headers, ['name']);
+        assert.deepEqual(rows, [{ name: 'SQL' }, { name: 'Rust' }]);
+    });
+
+    it('fills short rows with empty strings', () => {
+        const { rows } = parseCsv('name,tags,description\nGo,backend');
+        assert.deepEqual(rows, [
+            { name: 'Go', tags: 'backend', description: '' },
+        ]);
+    });
+
+    it('returns nothing for empty input', () => {
+        assert.deepEqual(parseCsv(''), { headers: [], rows: [] });
+    });
+});
+
+describe('toCsv', () => {
+    it('round-trips through parseCsv', () => {
+        const headers = ['name', 'description'];
+        const rows = [
+            {
+                name: 'Node.js',
+                description: 'Runtime, "server-side"\nJavaScript',
+            },
+            { name: 'SQL', description: '' },
+        ];
+        const text = toCsv(headers, rows);
+
+        assert.equal(
+            text,
+            'name,description\r\nNode.js,"Runtime, ""server-side""\nJavaScript"\r\nSQL,\r\n'
+        );
+        assert.deepEqual(parseCsv(text), { headers, rows });
+    });
+});
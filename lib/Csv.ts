@@ -0,0 +1,78 @@
+/**
+ * CSV
+ *
+ * Minimal RFC 4180 reading and writing: quoted fields may contain commas,
+ * quotes ("") and line breaks. Used by the skill catalogue import/export.
+ */
+
+export type CsvRow = Record<string, string>;
+
+/**
+ * Parse CSV text into rows keyed by the header line. Blank lines are skipped
+ * and header names are trimmed; a leading byte-order mark is ignored.
+ */
+export function parseCsv(text: string): { headers: string[]; rows: CsvRow[] } {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    const endField = () => {
+        record.push(field);
+        field = '';
+    };
+    const endRecord = () => {
+        endField();
+        if (record.some((value) => value !== '')) records.push(record);
+        record = [];
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRecord();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) endRecord();
+
+    const [headerRecord = [], ...body] = records;
+    const headers = headerRecord.map((header) => header.trim());
+    const rows = body.map((values) =>
+        Object.fromEntries(
+            headers.map((header, i) => [header, values[i] ?? ''])
+        )
+    );
+    return { headers, rows };
+}
+
+function quote(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(headers: string[], rows: CsvRow[]): string {
+    return (
+        [
+            headers,
+            ...rows.map((row) => headers.map((header) => row[header] ?? '')),
+        ]
+            .map((values) => values.map(quote).join(','))
+            .join('\r\n') + '\r\n'
+    );
+}
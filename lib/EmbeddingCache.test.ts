@@ -0,0 +1,135 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    clearEmbeddingCache,
+    configureEmbeddingCache,
+    embedWithCache,
+    setEmbeddingCacheStore,
+    type EmbeddingCacheEntry,
+} from './EmbeddingCache';
+
+const parts = { provider: 'mock', model: 'mock-v1', dimensions: 2 };
+
+// Generator that records the texts it was asked for
+function recorder(cacheable = true) {
+    const calls: string[][] = [];
+    const generate = async (texts: string[]) => {
+        calls.push(texts);
+        return {
+            embeddings: texts.map((text) => [text.length, 1]),
+            cacheable,
+        };
+    };
+    return { calls, generate };
+}
+
+function memoryStore(initial: Record<string, number[]> = {}) {
+    const rows = new Map(Object.entries(initial));
+    const written: EmbeddingCacheEntry[] = [];
+    return {
+        written,
+        store: {
+            async get(keys: string[]) {
+                return new Map(
+                    keys
+                        .filter((key) => rows.has(key))
+                        .map((key) => [key, rows.get(key) as number[]])
+                );
+            },
+            async set(entries: EmbeddingCacheEntry[]) {
+                written.push(...entries);
+            },
+        },
+    };
+}
+
+describe('embedWithCache', () => {
+    beforeEach(() => {
+        clearEmbeddingCache();
+        configureEmbeddingCache({
+            enabled: true,
+            maxEntries: 100,
+            persistent: false,
+        });
+    });
+
+    it('embeds duplicate texts once and serves repeats from memory', async () => {
+        const { calls, generate } = recorder();
+
+        const first = await embedWithCache(parts, ['a', 'bb', 'a'], generate);
+        assert.deepEqual(calls, [['a', 'bb']]);
+        assert.deepEqual(first.embeddings, [
+            [1, 1],
+            [2, 1],
+            [1, 1],
+        ]);
+        assert.equal(first.misses, 3);
+
+        const second = await embedWithCache(parts, ['bb', 'a'], generate);
+        assert.equal(calls.length, 1);
+        assert.deepEqual(second.cached, [true, true]);
+        assert.equal(second.hits, 2);
+    });
+
+    it('keys entries by provider, model and dimensions', async () => {
+        const { calls, generate } = recorder();
+
+        await embedWithCache(parts, ['a'], generate);
+        await embedWithCache({ ...parts, model: 'mock-v2' }, ['a'], generate);
+        await embedWithCache({ ...parts, dimensions: 3 }, ['a'], generate);
+        await embedWithCache({ ...parts, provider: 'other' }, ['a'], generate);
+
+        assert.equal(calls.length, 4);
+    });
+
+    it('evicts the least recently used entry', async () => {
+        configureEmbeddingCache({ maxEntries: 2 });
+        const { calls, generate } = recorder();
+
+        await embedWithCache(parts, ['a', 'b'], generate);
+        // Touch a, so b is the oldest when c arrives
+        await embedWithCache(parts, ['a'], generate);
+        await embedWithCache(parts, ['c'], generate);
+        calls.length = 0;
+
+        await embedWithCache(parts, ['a'], generate);
+        assert.deepEqual(calls, []);
+        await embedWithCache(parts, ['b'], generate);
+        assert.deepEqual(calls, [['b']]);
+    });
+
+    it('never caches stand-in vectors', async () => {
+        const { store, written } = memoryStore();
+        setEmbeddingCacheStore(store);
+        configureEmbeddingCache({ persistent: true });
+        const { calls, generate } = recorder(false);
+
+        await embedWithCache(parts, ['a'], generate);
+        await embedWithCache(parts, ['a'], generate);
+
+        assert.equal(calls.length, 2);
+        assert.deepEqual(written, []);
+    });
+
+    it('reads misses from the persistent store and writes new vectors to it', async () => {
+        const { calls, generate } = recorder();
+        const seed = memoryStore();
+        setEmbeddingCacheStore(seed.store);
+        configureEmbeddingCache({ persistent: true });
+        await embedWithCache(parts, ['a'], generate);
+        // Let the background write settle
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.equal(seed.written.length, 1);
+        const [entry] = seed.written;
+        assert.equal(entry.key, `mock:mock-v1:2:${entry.text_hash}`);
+
+        clearEmbeddingCache();
+        calls.length = 0;
+        setEmbeddingCacheStore(memoryStore({ [entry.key]: [9, 9] }).store);
+        const result = await embedWithCache(parts, ['a', 'b'], generate);
+
+        assert.deepEqual(calls, [['b']]);
+        assert.deepEqual(result.embeddings[0], [9, 9]);
+        assert.deepEqual(result.cached, [true, false]);
+    });
+});
@@ -0,0 +1,340 @@
+/**
+ * Embedding Cache
+ *
+ * Two-level cache for generated embeddings: an in-process LRU in front of
+ * the persistent `embedding_cache` table in SurrealDB.
+ * Entries are keyed by provider, model, dimensions and a SHA-256 hash of the text.
+ * Browsers only read the table; the server writes it through a root
+ * connection (see lib/ServerSurreal.ts).
+ */
+
+import { SurrealInstance as surreal } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+
+export type EmbeddingCacheKeyParts = {
+    provider: string;
+    model: string;
+    dimensions: number;
+};
+
+export type EmbeddingCacheEntry = EmbeddingCacheKeyParts & {
+    key: string;
+    text_hash: string;
+    embedding: number[];
+};
+
+export type EmbeddingCacheStats = {
+    hits: number;
+    misses: number;
+    memoryHits: number;
+    persistentHits: number;
+    memoryEntries: number;
+};
+
+export type CachedEmbeddingResult = {
+    embeddings: number[][];
+    // Whether each vector came from the cache rather than the generator
+    cached: boolean[];
+    hits: number;
+    misses: number;
+};
+
+export type GeneratedEmbeddings = {
+    embeddings: number[][];
+    // False for stand-in vectors (e.g. a fallback after a provider error), which must not be cached
+    cacheable: boolean;
+};
+
+// Storage backend behind the in-process LRU
+export interface EmbeddingCacheStore {
+    get(keys: string[]): Promise<Map<string, number[]>>;
+    set(entries: EmbeddingCacheEntry[]): Promise<void>;
+}
+
+export type EmbeddingCacheOptions = {
+    enabled: boolean;
+    maxEntries: number;
+    persistent: boolean;
+};
+
+// ==========================================
+// IN-PROCESS LRU
+// ==========================================
+
+class LRUCache<V> {
+    private entries = new Map<string, V>();
+
+    constructor(private maxEntries: number) {}
+
+    get(key: string): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: string, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    resize(maxEntries: number): void {
+        this.maxEntries = maxEntries;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
+
+// ==========================================
+// SURREALDB STORE
+// ==========================================
+
+/**
+ * Store on the embedding_cache table. Only system users may write it, so
+ * pass `writable` only for a root-authenticated connection.
+ */
+export function createSurrealCacheStore(
+    db: () => Promise<QueryRunner>,
+    { writable }: { writable: boolean }
+): EmbeddingCacheStore {
+    return {
+        async get(keys: string[]): Promise<Map<string, number[]>> {
+            const result = (await (
+                await db()
+            ).query(
+                'SELECT key, embedding FROM embedding_cache WHERE key IN $keys',
+                { keys }
+            )) as [{ key: string; embedding: number[] }[]];
+            const rows = Array.isArray(result?.[0]) ? result[0] : [];
+            return new Map(rows.map((row) => [row.key, row.embedding]));
+        },
+
+        async set(entries: EmbeddingCacheEntry[]): Promise<void> {
+            if (!writable) return;
+            // Record id is derived from the key, so concurrent writers converge on one row
+            await (
+                await db()
+            ).query(
+                `
+                FOR $entry IN $entries {
+                    UPSERT type::thing('embedding_cache', $entry.key) CONTENT $entry;
+                };
+            `,
+                { entries }
+            );
+        },
+    };
+}
+
+// Default: the browser connection, which reads vectors the server cached
+const surrealStore = createSurrealCacheStore(async () => surreal, {
+    writable: false,
+});
+
+// ==========================================
+// CACHE STATE
+// ==========================================
+
+let options: EmbeddingCacheOptions = {
+    enabled: process.env.EMBEDDING_CACHE !== 'off',
+    maxEntries: process.env.EMBEDDING_CACHE_SIZE
+        ? parseInt(process.env.EMBEDDING_CACHE_SIZE)
+        : 5000,
+    persistent: process.env.EMBEDDING_CACHE !== 'memory',
+};
+
+let store: EmbeddingCacheStore = surrealStore;
+const memory = new LRUCache<number[]>(options.maxEntries);
+const stats = { hits: 0, misses: 0, memoryHits: 0, persistentHits: 0 };
+
+/**
+ * Update cache options
+ */
+export function configureEmbeddingCache(
+    config: Partial<EmbeddingCacheOptions>
+): void {
+    options = { ...options, ...config };
+    memory.resize(options.maxEntries);
+}
+
+/**
+ * Replace the persistent store, e.g. with a root-authenticated connection on the server
+ */
+export function setEmbeddingCacheStore(newStore: EmbeddingCacheStore): void {
+    store = newStore;
+}
+
+/**
+ * Cumulative hit and miss counts for this process
+ */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+    return { ...stats, memoryEntries: memory.size };
+}
+
+/**
+ * Drop all in-process entries and reset the counters
+ */
+export function clearEmbeddingCache(): void {
+    memory.clear();
+    stats.hits = 0;
+    stats.misses = 0;
+    stats.memoryHits = 0;
+    stats.persistentHits = 0;
+}
+
+// ==========================================
+// HASHING
+// ==========================================
+
+// 53-bit string hash, only used where SubtleCrypto is unavailable (insecure browser contexts)
+function fallbackHash(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 =
+        Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+        Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 =
+        Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+        Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return `fnv-${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)}`;
+}
+
+export async function hashText(text: string): Promise<string> {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) return fallbackHash(text);
+
+    const digest = await subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(text)
+    );
+    return Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function buildKey(parts: EmbeddingCacheKeyParts, textHash: string): string {
+    return `${parts.provider}:${parts.model}:${parts.dimensions}:${textHash}`;
+}
+
+// ==========================================
+// CACHED GENERATION
+// ==========================================
+
+/**
+ * Look texts up in the LRU, then the persistent store, and only call
+ * `generate` for the remaining misses. Duplicate texts are embedded once.
+ */
+export async function embedWithCache(
+    parts: EmbeddingCacheKeyParts,
+    texts: string[],
+    generate: (texts: string[]) => Promise<GeneratedEmbeddings>
+): Promise<CachedEmbeddingResult> {
+    if (!options.enabled || texts.length === 0) {
+        const { embeddings } = await generate(texts);
+        return {
+            embeddings,
+            cached: texts.map(() => false),
+            hits: 0,
+            misses: texts.length,
+        };
+    }
+
+    const hashes = await Promise.all(texts.map(hashText));
+    const keys = hashes.map((hash) => buildKey(parts, hash));
+    const results: Array<number[] | undefined> = keys.map((key) =>
+        memory.get(key)
+    );
+
+    let memoryHits = 0;
+    let persistentHits = 0;
+    results.forEach((embedding) => {
+        if (embedding) memoryHits++;
+    });
+    const cached = results.map(Boolean);
+
+    // Second level: persistent store
+    const pendingKeys = Array.from(new Set(keys.filter((_, i) => !results[i])));
+    if (options.persistent && pendingKeys.length > 0) {
+        try {
+            const found = await store.get(pendingKeys);
+            keys.forEach((key, i) => {
+                const embedding = found.get(key);
+                if (!results[i] && embedding) {
+                    results[i] = embedding;
+                    cached[i] = true;
+                    memory.set(key, embedding);
+                    persistentHits++;
+                }
+            });
+        } catch (error) {
+            console.warn('Embedding cache lookup failed:', error);
+        }
+    }
+
+    // Generate the rest, once per distinct key
+    const missing = new Map<string, { text: string; hash: string }>();
+    keys.forEach((key, i) => {
+        if (!results[i] && !missing.has(key)) {
+            missing.set(key, { text: texts[i], hash: hashes[i] });
+        }
+    });
+
+    if (missing.size > 0) {
+        const missingKeys = Array.from(missing.keys());
+        const { embeddings: generated, cacheable } = await generate(
+            missingKeys.map(
+                (key) => (missing.get(key) as { text: string }).text
+            )
+        );
+
+        const entries: EmbeddingCacheEntry[] = missingKeys.map((key, i) => ({
+            ...parts,
+            key,
+            text_hash: (missing.get(key) as { hash: string }).hash,
+            embedding: generated[i],
+        }));
+
+        const generatedByKey = new Map<string, number[]>();
+        entries.forEach((entry) => {
+            generatedByKey.set(entry.key, entry.embedding);
+            if (cacheable) memory.set(entry.key, entry.embedding);
+        });
+        keys.forEach((key, i) => {
+            if (!results[i]) results[i] = generatedByKey.get(key);
+        });
+
+        if (cacheable && options.persistent) {
+            // Don't hold up the caller on the write
+            store.set(entries).catch((error) => {
+                console.warn('Embedding cache write failed:', error);
+            });
+        }
+    }
+
+    const hits = memoryHits + persistentHits;
+    const misses = texts.length - hits;
+    stats.hits += hits;
+    stats.misses += misses;
+    stats.memoryHits += memoryHits;
+    stats.persistentHits += persistentHits;
+
+    return { embeddings: results as number[][], cached, hits, misses };
+}
@@ -2,46 +2,99 @@
  * Embedding Provider Interface
  * 
  * Pluggable architecture for generating text embeddings.
- * Supports Mock (demo), Local (transformers.js), and OpenAI providers.
+ * Ships Mock (demo), Local (transformers.js), OpenAI, Ollama and a generic
+ * OpenAI-compatible provider (TEI, vLLM, LM Studio, ...); deployments can
+ * register more with registerEmbeddingProvider.
  */
 
-export type EmbeddingProviderType = 'mock' | 'local' | 'openai' | 'ollama';
+import { embedWithCache, type CachedEmbeddingResult } from './EmbeddingCache';
+
+export type BuiltinEmbeddingProviderType = 'mock' | 'local' | 'openai' | 'ollama' | 'openai-compatible';
+
+// Any registered provider; the built-in names stay in autocompletion
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type EmbeddingProviderType = BuiltinEmbeddingProviderType | (string & {});
+
+// What to do when the configured provider fails:
+// - strict: throw, so no made-up vectors are returned or stored
+// - fallback: substitute mock vectors
+// - fallback-with-flag: substitute mock vectors and flag the result as a fallback
+export type EmbeddingFailurePolicy = 'strict' | 'fallback' | 'fallback-with-flag';
 
 export interface EmbeddingProvider {
     name: string;
+    // One line for provider pickers
+    description?: string;
+    // Model identifier, part of the embedding cache key
+    readonly model: string;
     dimensions: number;
+    // Shows an API key field in the settings
+    requiresApiKey?: boolean;
+    // Runs on the server only; browsers embed through /api/embed
+    serverOnly?: boolean;
     generate(text: string): Promise<number[]>;
-    generateBatch(texts: string[]): Promise<number[][]>;
+    generateBatch(texts: string[], options?: EmbeddingCallOptions): Promise<number[][]>;
 }
 
+// Per-call settings that override the configuration for one request
+export type EmbeddingCallOptions = {
+    // Used instead of the configured key by providers that send one
+    apiKey?: string;
+};
+
 // Configuration for the embedding system
 export interface EmbeddingConfig {
     provider: EmbeddingProviderType;
     openaiApiKey?: string;
     openaiModel?: string;
+    // Directory of a local transformers.js model, e.g. ./models/Xenova/all-MiniLM-L6-v2
     localModelPath?: string;
     // Ollama configuration
     ollamaHost?: string;
     ollamaModel?: string;
     ollamaDimensions?: number;
     ollamaTimeout?: number;
+    ollamaBatchSize?: number;      // Texts per /api/embed request
+    ollamaConcurrency?: number;    // Requests in flight at once
+    ollamaMaxRetries?: number;
+    // OpenAI-compatible server configuration
+    openaiCompatibleBaseUrl?: string;     // e.g. http://localhost:8080/v1
+    openaiCompatibleModel?: string;
+    openaiCompatibleDimensions?: number;
+    openaiCompatibleApiKey?: string;
+    failurePolicy?: EmbeddingFailurePolicy;
 }
 
 // Default configuration - reads from environment variables
 function getDefaultProvider(): EmbeddingProviderType {
-    const binding = process.env.EMBEDDING_BINDING;
-    if (binding === 'ollama') return 'ollama';
-    if (binding === 'openai') return 'openai';
-    if (binding === 'local') return 'local';
-    return 'mock';
+    // Any registered type; unknown ones fail with an EmbeddingConfigError when used
+    return process.env.EMBEDDING_BINDING || 'mock';
+}
+
+const isCompatibleBinding = process.env.EMBEDDING_BINDING === 'openai-compatible';
+
+function getDefaultFailurePolicy(): EmbeddingFailurePolicy {
+    const policy = process.env.EMBEDDING_FAILURE_POLICY;
+    if (policy === 'strict' || policy === 'fallback') return policy;
+    return 'fallback-with-flag';
 }
 
 let currentConfig: EmbeddingConfig = {
     provider: getDefaultProvider(),
+    openaiApiKey: process.env.OPENAI_API_KEY,
     ollamaHost: process.env.EMBEDDING_BINDING_HOST,
     ollamaModel: process.env.EMBEDDING_MODEL,
     ollamaDimensions: process.env.EMBEDDING_DIM ? parseInt(process.env.EMBEDDING_DIM) : undefined,
     ollamaTimeout: process.env.EMBEDDING_TIMEOUT ? parseInt(process.env.EMBEDDING_TIMEOUT) * 1000 : undefined,
+    ollamaBatchSize: process.env.EMBEDDING_BATCH_SIZE ? parseInt(process.env.EMBEDDING_BATCH_SIZE) : undefined,
+    ollamaConcurrency: process.env.EMBEDDING_CONCURRENCY ? parseInt(process.env.EMBEDDING_CONCURRENCY) : undefined,
+    localModelPath: process.env.EMBEDDING_LOCAL_MODEL_PATH,
+    // EMBEDDING_BINDING_HOST, EMBEDDING_MODEL and EMBEDDING_DIM describe whichever server EMBEDDING_BINDING names
+    openaiCompatibleBaseUrl: isCompatibleBinding ? process.env.EMBEDDING_BINDING_HOST : undefined,
+    openaiCompatibleModel: isCompatibleBinding ? process.env.EMBEDDING_MODEL : undefined,
+    openaiCompatibleDimensions: isCompatibleBinding && process.env.EMBEDDING_DIM ? parseInt(process.env.EMBEDDING_DIM) : undefined,
+    openaiCompatibleApiKey: process.env.EMBEDDING_BINDING_API_KEY,
+    failurePolicy: getDefaultFailurePolicy(),
 };
 
 /**
@@ -58,6 +111,59 @@ export function getEmbeddingConfig(): EmbeddingConfig {
     return { ...currentConfig };
 }
 
+// ==========================================
+// ERRORS
+// ==========================================
+
+/**
+ * Base class for failures of a real embedding provider
+ */
+export class EmbeddingError extends Error {
+    constructor(message: string, public readonly provider: EmbeddingProviderType, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'EmbeddingError';
+        // Keep instanceof working when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * The provider can't run as configured, e.g. a missing API key or package
+ */
+export class EmbeddingConfigError extends EmbeddingError {
+    constructor(message: string, provider: EmbeddingProviderType, cause?: unknown) {
+        super(message, provider, cause);
+        this.name = 'EmbeddingConfigError';
+    }
+}
+
+/**
+ * The request to the provider failed: network error, timeout or non-2xx status
+ */
+export class EmbeddingRequestError extends EmbeddingError {
+    constructor(message: string, provider: EmbeddingProviderType, public readonly status?: number, cause?: unknown) {
+        super(message, provider, cause);
+        this.name = 'EmbeddingRequestError';
+    }
+}
+
+/**
+ * The provider answered, but not with one vector per input text
+ */
+export class EmbeddingResponseError extends EmbeddingError {
+    constructor(message: string, provider: EmbeddingProviderType) {
+        super(message, provider);
+        this.name = 'EmbeddingResponseError';
+    }
+}
+
+function checkEmbeddings(embeddings: unknown, count: number, provider: EmbeddingProviderType): number[][] {
+    if (!Array.isArray(embeddings) || embeddings.length !== count || !embeddings.every(e => Array.isArray(e) && e.length > 0)) {
+        throw new EmbeddingResponseError(`Expected ${count} embeddings from ${provider}`, provider);
+    }
+    return embeddings;
+}
+
 // ==========================================
 // MOCK PROVIDER (for demo purposes)
 // ==========================================
@@ -82,6 +188,8 @@ function seededRandom(seed: number): () => number {
 
 const MockProvider: EmbeddingProvider = {
     name: 'Mock Embeddings',
+    description: 'Fast, deterministic, for demo purposes',
+    model: 'mock-hash',
     dimensions: 384, // Using smaller dimensions for mock
     
     async generate(text: string): Promise<number[]> {
@@ -109,187 +217,614 @@ const MockProvider: EmbeddingProvider = {
 // LOCAL PROVIDER (transformers.js)
 // ==========================================
 
-// Note: Requires @xenova/transformers package to be installed
-// Since it's not installed, this provider falls back to mock
+// Note: Requires the optional @xenova/transformers package on the server.
+// Model files are read from a local directory only, so this works air-gapped.
+// In the browser the texts are posted to /api/embed, which runs this provider server-side.
+
+type FeatureExtractionPipeline = Awaited<ReturnType<typeof import('@xenova/transformers').pipeline>>;
+
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+let localPipeline: { modelPath: string; pipe: Promise<FeatureExtractionPipeline> } | null = null;
+// Vector length of the loaded model, read from its config
+let localDimensions: { modelPath: string; dimensions: number } | null = null;
+
+// Split a model directory like "./models/all-MiniLM-L6-v2" into the models
+// root and the model name, which is how transformers.js locates local files
+function resolveLocalModel(modelPath?: string): { root: string; model: string } {
+    if (!modelPath) {
+        return { root: './models/', model: DEFAULT_LOCAL_MODEL };
+    }
+    const parts = modelPath.replace(/[\\/]+$/, '').split(/[\\/]/);
+    const model = parts.pop() as string;
+    return { root: `${parts.join('/') || '.'}/`, model };
+}
+
+async function getLocalPipeline(): Promise<FeatureExtractionPipeline> {
+    const modelPath = getEmbeddingConfig().localModelPath || '';
+    
+    if (!localPipeline || localPipeline.modelPath !== modelPath) {
+        const pipe = (async () => {
+            // webpackIgnore keeps the optional package out of the bundle; Node resolves it at runtime
+            const transformers: typeof import('@xenova/transformers') = await import(
+                /* webpackIgnore: true */ '@xenova/transformers'
+            );
+            const { root, model } = resolveLocalModel(modelPath || undefined);
+            transformers.env.localModelPath = root;
+            transformers.env.allowLocalModels = true;
+            transformers.env.allowRemoteModels = false;
+            const extractor = await transformers.pipeline('feature-extraction', model);
+            const config = extractor.model?.config || {};
+            const dimensions = Number(config.hidden_size ?? config.d_model ?? config.dim);
+            if (dimensions > 0) localDimensions = { modelPath, dimensions };
+            return extractor;
+        })();
+        localPipeline = { modelPath, pipe };
+        // Allow a retry on the next call if loading failed
+        pipe.catch(() => {
+            if (localPipeline?.pipe === pipe) localPipeline = null;
+        });
+    }
+    
+    return localPipeline.pipe;
+}
+
+/**
+ * Load the local model, so its dimension is known before a signature, cache
+ * key or vector index is built from it. Called at server start-up.
+ */
+export async function loadLocalEmbeddingModel(): Promise<void> {
+    await getLocalPipeline();
+}
+
+// Browser side of a server-only provider
+async function embedViaApi(texts: string[], provider: EmbeddingProviderType): Promise<number[][]> {
+    const response = await fetch('/api/embed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ texts, provider }),
+    });
+    
+    const data = await response.json();
+    if (!response.ok) {
+        throw new EmbeddingRequestError(`Embedding API error (${provider}): ${data.error || response.statusText}`, provider, response.status);
+    }
+    // The server applies its own failure policy; don't pass its fallback vectors off as this provider's
+    if (data.producedBy?.some((type: string) => type !== provider)) {
+        throw new EmbeddingError(`Embedding API fell back to another provider than ${provider}`, provider);
+    }
+    return checkEmbeddings(data.embeddings, texts.length, provider);
+}
+
 const LocalProvider: EmbeddingProvider = {
     name: 'Local Embeddings (transformers.js)',
-    dimensions: 384, // all-MiniLM-L6-v2 dimensions
+    description: 'Runs on the server via transformers.js',
+    serverOnly: true,
+    get model() {
+        return resolveLocalModel(getEmbeddingConfig().localModelPath).model;
+    },
+    // From the loaded model's config; all-MiniLM-L6-v2's until it has loaded
+    get dimensions() {
+        const modelPath = getEmbeddingConfig().localModelPath || '';
+        return localDimensions?.modelPath === modelPath ? localDimensions.dimensions : 384;
+    },
     
     async generate(text: string): Promise<number[]> {
-        // @xenova/transformers is not installed, fall back to mock
-        console.warn('Local embeddings: @xenova/transformers not installed, using mock');
-        return MockProvider.generate(text);
+        const [embedding] = await this.generateBatch([text]);
+        return embedding;
     },
     
     async generateBatch(texts: string[]): Promise<number[][]> {
-        return MockProvider.generateBatch(texts);
+        if (texts.length === 0) return [];
+        
+        if (typeof window !== 'undefined') {
+            return embedViaApi(texts, 'local');
+        }
+        
+        let extractor: FeatureExtractionPipeline;
+        try {
+            extractor = await getLocalPipeline();
+        } catch (error) {
+            throw new EmbeddingConfigError('Local embedding model could not be loaded', 'local', error);
+        }
+        
+        try {
+            const output = await extractor(texts, { pooling: 'mean', normalize: true });
+            
+            // Output is a flat [texts.length, dimensions] tensor
+            const dimensions = output.dims[output.dims.length - 1];
+            localDimensions = { modelPath: getEmbeddingConfig().localModelPath || '', dimensions };
+            
+            const embeddings: number[][] = [];
+            for (let i = 0; i < texts.length; i++) {
+                embeddings.push(Array.from(output.data.subarray(i * dimensions, (i + 1) * dimensions)));
+            }
+            return embeddings;
+        } catch (error) {
+            throw new EmbeddingError('Local embedding generation failed', 'local', error);
+        }
     }
 };
 
 // ==========================================
-// OPENAI PROVIDER
+// OPENAI-COMPATIBLE PROVIDERS
 // ==========================================
 
-const OpenAIProvider: EmbeddingProvider = {
-    name: 'OpenAI Embeddings',
-    dimensions: 1536, // text-embedding-3-small default
+export type OpenAICompatibleSettings = {
+    name: string;
+    description?: string;
+    // Base URL up to the API version, e.g. https://api.openai.com/v1 or http://localhost:8080/v1
+    baseUrl?: string;
+    model: string;
+    // Vector length. Required: it is part of cache keys and embedding signatures,
+    // which are built before the first response
+    dimensions?: number;
+    apiKey?: string;
+    requiresApiKey?: boolean;
+    serverOnly?: boolean;
+    batchSize?: number;        // Texts per request (default 32)
+    timeout?: number;          // Per request, in ms (default 60s)
+};
+
+/**
+ * Provider for any server implementing POST {baseUrl}/embeddings with OpenAI's
+ * request and response format. Pass a function to read settings at call time,
+ * e.g. from the embedding configuration.
+ */
+export function createOpenAICompatibleProvider(
+    type: EmbeddingProviderType,
+    settings: OpenAICompatibleSettings | (() => OpenAICompatibleSettings)
+): EmbeddingProvider {
+    const read = typeof settings === 'function' ? settings : () => settings;
     
-    async generate(text: string): Promise<number[]> {
-        const config = getEmbeddingConfig();
-        
-        if (!config.openaiApiKey) {
-            console.warn('OpenAI API key not configured, falling back to mock');
-            return MockProvider.generate(text);
-        }
+    const embedBatch = async (texts: string[], apiKey?: string): Promise<number[][]> => {
+        const { baseUrl, model, timeout = 60000 } = read();
+        const url = `${(baseUrl || '').replace(/\/+$/, '')}/embeddings`;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
         
+        let response: Response;
         try {
-            const response = await fetch('https://api.openai.com/v1/embeddings', {
+            response = await fetch(url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${config.openaiApiKey}`,
+                    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
                 },
-                body: JSON.stringify({
-                    model: config.openaiModel || 'text-embedding-3-small',
-                    input: text,
-                }),
+                body: JSON.stringify({ model, input: texts }),
+                signal: controller.signal,
             });
-            
-            if (!response.ok) {
-                throw new Error(`OpenAI API error: ${response.statusText}`);
-            }
-            
-            const data = await response.json();
-            return data.data[0].embedding;
         } catch (error) {
-            console.error('OpenAI embedding generation failed:', error);
-            return MockProvider.generate(text);
+            throw new EmbeddingRequestError(`Embedding request to ${url} failed`, type, undefined, error);
+        } finally {
+            clearTimeout(timeoutId);
         }
-    },
-    
-    async generateBatch(texts: string[]): Promise<number[][]> {
-        const config = getEmbeddingConfig();
         
-        if (!config.openaiApiKey) {
-            console.warn('OpenAI API key not configured, falling back to mock');
-            return MockProvider.generateBatch(texts);
+        if (!response.ok) {
+            throw new EmbeddingRequestError(`${read().name} API error: ${response.status} ${response.statusText}`, type, response.status);
         }
         
-        try {
-            const response = await fetch('https://api.openai.com/v1/embeddings', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${config.openaiApiKey}`,
-                },
-                body: JSON.stringify({
-                    model: config.openaiModel || 'text-embedding-3-small',
-                    input: texts,
-                }),
-            });
+        const data = await response.json();
+        // Sort by index to maintain order
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const sorted = (data.data || []).sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
+        return checkEmbeddings(sorted, texts.length, type);
+    };
+    
+    return {
+        get name() {
+            return read().name;
+        },
+        get description() {
+            return read().description;
+        },
+        get model() {
+            return read().model;
+        },
+        // 0 until configured, so no index or stored vector ever matches a guess
+        get dimensions() {
+            return read().dimensions || 0;
+        },
+        get requiresApiKey() {
+            return read().requiresApiKey;
+        },
+        get serverOnly() {
+            return read().serverOnly;
+        },
+        
+        async generate(text: string): Promise<number[]> {
+            const [embedding] = await this.generateBatch([text]);
+            return embedding;
+        },
+        
+        async generateBatch(texts: string[], options: EmbeddingCallOptions = {}): Promise<number[][]> {
+            if (texts.length === 0) return [];
+            const settings = read();
+            const { baseUrl, requiresApiKey, serverOnly, dimensions, batchSize = 32 } = settings;
+            const apiKey = options.apiKey || settings.apiKey;
             
-            if (!response.ok) {
-                throw new Error(`OpenAI API error: ${response.statusText}`);
+            if (serverOnly && typeof window !== 'undefined') {
+                return embedViaApi(texts, type);
+            }
+            if (requiresApiKey && !apiKey) {
+                throw new EmbeddingConfigError(`${read().name}: API key not configured`, type);
+            }
+            if (!baseUrl) {
+                throw new EmbeddingConfigError(`${read().name}: base URL not configured`, type);
+            }
+            if (!dimensions) {
+                throw new EmbeddingConfigError(`${read().name}: vector dimensions not configured`, type);
             }
             
-            const data = await response.json();
-            // Sort by index to maintain order
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            return data.data.sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
-        } catch (error) {
-            console.error('OpenAI batch embedding generation failed:', error);
-            return MockProvider.generateBatch(texts);
+            const embeddings: number[][] = [];
+            for (let i = 0; i < texts.length; i += batchSize) {
+                embeddings.push(...(await embedBatch(texts.slice(i, i + batchSize), apiKey)));
+            }
+            
+            // A model change on the server would silently mix vector spaces
+            const wrong = embeddings.find(e => e.length !== dimensions);
+            if (wrong) {
+                throw new EmbeddingResponseError(`${read().name} returned ${wrong.length}-dimensional vectors, expected ${dimensions}`, type);
+            }
+            return embeddings;
         }
-    }
-};
+    };
+}
+
+const OpenAIProvider = createOpenAICompatibleProvider('openai', () => {
+    const model = getEmbeddingConfig().openaiModel || 'text-embedding-3-small';
+    return {
+        name: 'OpenAI Embeddings',
+        description: 'Best quality, requires API key',
+        baseUrl: 'https://api.openai.com/v1',
+        model,
+        dimensions: model === 'text-embedding-3-large' ? 3072 : 1536,
+        apiKey: getEmbeddingConfig().openaiApiKey,
+        requiresApiKey: true,
+        batchSize: 2048, // OpenAI's limit on inputs per request
+    };
+});
+
+// Self-hosted servers such as TEI, vLLM or LM Studio
+const OpenAICompatibleProvider = createOpenAICompatibleProvider('openai-compatible', () => {
+    const config = getEmbeddingConfig();
+    return {
+        name: 'OpenAI-compatible Embeddings',
+        description: config.openaiCompatibleBaseUrl
+            ? `Self-hosted server at ${config.openaiCompatibleBaseUrl}`
+            : 'Self-hosted server (TEI, vLLM, LM Studio, ...)',
+        baseUrl: config.openaiCompatibleBaseUrl,
+        model: config.openaiCompatibleModel || 'default',
+        dimensions: config.openaiCompatibleDimensions,
+        apiKey: config.openaiCompatibleApiKey,
+        serverOnly: true,
+    };
+});
 
 // ==========================================
 // OLLAMA PROVIDER
 // ==========================================
 
-const OllamaProvider: EmbeddingProvider = {
-    name: 'Ollama Embeddings',
-    dimensions: 1024, // Default for bge-m3, but configurable
+function getOllamaSettings() {
+    const config = getEmbeddingConfig();
+    return {
+        host: config.ollamaHost || process.env.EMBEDDING_BINDING_HOST || 'http://localhost:11434',
+        model: config.ollamaModel || process.env.EMBEDDING_MODEL || 'bge-m3:latest',
+        timeout: config.ollamaTimeout || parseInt(process.env.EMBEDDING_TIMEOUT || '300') * 1000,
+        batchSize: config.ollamaBatchSize || 32,
+        concurrency: config.ollamaConcurrency || 4,
+        maxRetries: config.ollamaMaxRetries ?? 3,
+    };
+}
+
+async function postOllama<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const { host, timeout } = getOllamaSettings();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
     
-    async generate(text: string): Promise<number[]> {
-        const config = getEmbeddingConfig();
-        const host = config.ollamaHost || process.env.EMBEDDING_BINDING_HOST || 'http://localhost:11434';
-        const model = config.ollamaModel || process.env.EMBEDDING_MODEL || 'bge-m3:latest';
-        const timeout = config.ollamaTimeout || parseInt(process.env.EMBEDDING_TIMEOUT || '300') * 1000;
-        
+    try {
+        let response: Response;
         try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeout);
-            
-            const response = await fetch(`${host}/api/embeddings`, {
+            response = await fetch(`${host}${path}`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    model,
-                    prompt: text,
-                }),
+                body: JSON.stringify(body),
                 signal: controller.signal,
             });
-            
-            clearTimeout(timeoutId);
-            
-            if (!response.ok) {
-                throw new Error(`Ollama API error: ${response.statusText}`);
+        } catch (error) {
+            throw new EmbeddingRequestError(`Ollama request to ${host}${path} failed`, 'ollama', undefined, error);
+        }
+        
+        if (!response.ok) {
+            // Ollama explains errors in a JSON body, e.g. {"error":"model \"x\" not found, try pulling it first"};
+            // a server without the endpoint answers with plain text
+            const body = await response.text().catch(() => '');
+            let detail = body.trim().slice(0, 200) || response.statusText;
+            try {
+                detail = JSON.parse(body).error || detail;
+            } catch {
+                // Not JSON
             }
-            
-            const data = await response.json();
-            return data.embedding;
+            throw new EmbeddingRequestError(`Ollama API error: ${response.status} ${detail}`, 'ollama', response.status);
+        }
+        
+        return await response.json();
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Client errors (bad model name, missing endpoint) won't succeed on a retry
+function isRetryable(error: unknown): boolean {
+    const status = error instanceof EmbeddingRequestError ? error.status : undefined;
+    return !(status && status >= 400 && status < 500 && status !== 429);
+}
+
+async function withRetry<T>(fn: () => Promise<T>, maxRetries: number, baseDelayMs = 500): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
         } catch (error) {
-            console.error('Ollama embedding generation failed:', error);
-            return MockProvider.generate(text);
+            if (attempt >= maxRetries || !isRetryable(error)) throw error;
+            // Exponential backoff with jitter: 500ms, 1s, 2s, ...
+            const delay = baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+// Returns a wrapper that keeps at most `concurrency` calls in flight across everything run through it
+function createLimiter(concurrency: number) {
+    let active = 0;
+    const waiting: Array<() => void> = [];
+    
+    return async <T>(fn: () => Promise<T>): Promise<T> => {
+        if (active >= concurrency) {
+            // The finishing call hands its slot over, so active stays the same
+            await new Promise<void>(resolve => waiting.push(resolve));
+        } else {
+            active++;
         }
+        try {
+            return await fn();
+        } finally {
+            const next = waiting.shift();
+            if (next) next();
+            else active--;
+        }
+    };
+}
+
+// Set once the server has no /api/embed endpoint (Ollama < 0.3.4), so we stop trying it
+let ollamaBatchUnsupported = false;
+
+async function ollamaEmbedLegacy(text: string): Promise<number[]> {
+    const { model, maxRetries } = getOllamaSettings();
+    const data = await withRetry(
+        () => postOllama<{ embedding: number[] }>('/api/embeddings', { model, prompt: text }),
+        maxRetries
+    );
+    return checkEmbeddings([data.embedding], 1, 'ollama')[0];
+}
+
+const OllamaProvider: EmbeddingProvider = {
+    name: 'Ollama Embeddings',
+    description: 'Self-hosted Ollama server',
+    get model() {
+        return getOllamaSettings().model;
+    },
+    get dimensions() {
+        return getEmbeddingConfig().ollamaDimensions || 1024; // Default for bge-m3
+    },
+    
+    async generate(text: string): Promise<number[]> {
+        const [embedding] = await this.generateBatch([text]);
+        return embedding;
     },
     
     async generateBatch(texts: string[]): Promise<number[][]> {
-        // Ollama doesn't have a batch endpoint, so we process sequentially
-        const embeddings: number[][] = [];
-        for (const text of texts) {
-            const embedding = await this.generate(text);
-            embeddings.push(embedding);
+        const { model, batchSize, concurrency, maxRetries } = getOllamaSettings();
+        
+        const chunks: string[][] = [];
+        for (let i = 0; i < texts.length; i += batchSize) {
+            chunks.push(texts.slice(i, i + batchSize));
         }
-        return embeddings;
+        
+        // Batch and per-text requests of all chunks share one limit
+        const limit = createLimiter(concurrency);
+        
+        const embedChunk = async (chunk: string[]): Promise<number[][]> => {
+            if (!ollamaBatchUnsupported) {
+                try {
+                    const data = await limit(() => withRetry(
+                        () => postOllama<{ embeddings: number[][] }>('/api/embed', { model, input: chunk }),
+                        maxRetries
+                    ));
+                    return checkEmbeddings(data.embeddings, chunk.length, 'ollama');
+                } catch (error) {
+                    // A missing endpoint is a plain 404; an unknown model is a 404 whose error names the model.
+                    // Anything else (outage, timeout, unknown model) would fail per text as well.
+                    if (!(error instanceof EmbeddingRequestError && error.status === 404 && !/model/i.test(error.message))) {
+                        throw error;
+                    }
+                    console.warn('Ollama /api/embed not available, falling back to /api/embeddings');
+                    ollamaBatchUnsupported = true;
+                }
+            }
+            
+            // Legacy endpoint: one request per text
+            return Promise.all(chunk.map(text => limit(() => ollamaEmbedLegacy(text))));
+        };
+        
+        const results = await Promise.all(chunks.map(embedChunk));
+        return results.reduce((all, chunk) => all.concat(chunk), [] as number[][]);
     }
 };
 
 // ==========================================
-// PROVIDER FACTORY
+// PROVIDER REGISTRY
 // ==========================================
 
-const providers: Record<EmbeddingProviderType, EmbeddingProvider> = {
-    mock: MockProvider,
-    local: LocalProvider,
-    openai: OpenAIProvider,
-    ollama: OllamaProvider,
+const providers = new Map<EmbeddingProviderType, EmbeddingProvider>([
+    ['mock', MockProvider],
+    ['local', LocalProvider],
+    ['openai', OpenAIProvider],
+    ['ollama', OllamaProvider],
+    ['openai-compatible', OpenAICompatibleProvider],
+]);
+
+// What pickers and GET /api/embed show for a registered provider
+export type EmbeddingProviderInfo = {
+    type: EmbeddingProviderType;
+    name: string;
+    description?: string;
+    model: string;
+    dimensions: number;
+    requiresApiKey: boolean;
+    serverOnly: boolean;
+};
+
+/**
+ * Register a provider under a new type, e.g. from instrumentation.ts on the server.
+ * Pass replace to swap out an existing one; 'mock' stays, as it backs the fallback policies.
+ */
+export function registerEmbeddingProvider(
+    type: EmbeddingProviderType,
+    provider: EmbeddingProvider,
+    options: { replace?: boolean } = {}
+): void {
+    if (type === 'mock' || (providers.has(type) && !options.replace)) {
+        throw new Error(`Embedding provider '${type}' is already registered`);
+    }
+    providers.set(type, provider);
+}
+
+export function unregisterEmbeddingProvider(type: EmbeddingProviderType): boolean {
+    if (type === 'mock') return false;
+    return providers.delete(type);
+}
+
+export function isEmbeddingProviderRegistered(type: EmbeddingProviderType): boolean {
+    return providers.has(type);
+}
+
+export function listEmbeddingProviders(): EmbeddingProviderInfo[] {
+    return Array.from(providers.entries()).map(([type, provider]) => ({
+        type,
+        name: provider.name,
+        description: provider.description,
+        model: provider.model,
+        dimensions: provider.dimensions,
+        requiresApiKey: !!provider.requiresApiKey,
+        serverOnly: !!provider.serverOnly,
+    }));
+}
+
+/**
+ * Make the server's providers usable in the browser. Server-only providers,
+ * and ones the browser doesn't know, are replaced by stand-ins that embed
+ * through /api/embed and report the server's model and dimensions.
+ */
+export function registerRemoteEmbeddingProviders(infos: EmbeddingProviderInfo[]): void {
+    infos.forEach(info => {
+        const existing = providers.get(info.type);
+        if (info.type === 'mock' || (existing && !existing.serverOnly && !info.serverOnly)) return;
+        
+        providers.set(info.type, {
+            name: info.name,
+            description: info.description,
+            model: info.model,
+            dimensions: info.dimensions,
+            requiresApiKey: info.requiresApiKey,
+            serverOnly: true,
+            async generate(text: string): Promise<number[]> {
+                const [embedding] = await this.generateBatch([text]);
+                return embedding;
+            },
+            async generateBatch(texts: string[]): Promise<number[][]> {
+                return texts.length === 0 ? [] : embedViaApi(texts, info.type);
+            },
+        });
+    });
+}
+
+function resolveProvider(type: EmbeddingProviderType): EmbeddingProvider {
+    const provider = providers.get(type);
+    if (!provider) {
+        throw new EmbeddingConfigError(`Unknown embedding provider '${type}'`, type);
+    }
+    return provider;
+}
+
+/**
+ * Get the current embedding provider based on configuration, or the given one
+ */
+export function getEmbeddingProvider(type: EmbeddingProviderType = currentConfig.provider): EmbeddingProvider {
+    return resolveProvider(type);
+}
+
+export type EmbeddingResult = CachedEmbeddingResult & {
+    // Provider that actually produced each vector; differs from the configured one after a fallback
+    producedBy: EmbeddingProviderType[];
+    // Set under the fallback-with-flag policy when any vector is a mock stand-in
+    fallback: boolean;
 };
 
 /**
- * Get the current embedding provider based on configuration
+ * Generate embedding for a single text using the configured provider, or the given one
  */
-export function getEmbeddingProvider(): EmbeddingProvider {
-    return providers[currentConfig.provider];
+export async function generateEmbedding(text: string, type?: EmbeddingProviderType): Promise<number[]> {
+    const { embeddings } = await generateEmbeddingsWithStats([text], type);
+    return embeddings[0];
 }
 
 /**
- * Generate embedding for a single text using the configured provider
+ * Generate embeddings for multiple texts using the configured provider, or the given one
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-    const provider = getEmbeddingProvider();
-    return provider.generate(text);
+export async function generateEmbeddings(texts: string[], type?: EmbeddingProviderType): Promise<number[][]> {
+    const { embeddings } = await generateEmbeddingsWithStats(texts, type);
+    return embeddings;
 }
 
 /**
- * Generate embeddings for multiple texts using the configured provider
+ * Same as generateEmbeddings, but also reports cache hits and misses and which provider
+ * produced each vector. Provider failures are handled according to the failure policy.
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-    const provider = getEmbeddingProvider();
-    return provider.generateBatch(texts);
+export async function generateEmbeddingsWithStats(
+    texts: string[],
+    type: EmbeddingProviderType = currentConfig.provider,
+    options?: EmbeddingCallOptions
+): Promise<EmbeddingResult> {
+    const policy = currentConfig.failurePolicy || 'fallback-with-flag';
+    const provider = resolveProvider(type);
+    let usedFallback = false;
+    
+    const result = await embedWithCache(
+        { provider: type, model: provider.model, dimensions: provider.dimensions },
+        texts,
+        async batch => {
+            try {
+                return { embeddings: await provider.generateBatch(batch, options), cacheable: true };
+            } catch (error) {
+                if (policy === 'strict' || !(error instanceof EmbeddingError)) throw error;
+                
+                console.warn(`${provider.name} failed, using mock embeddings (${policy}):`, error);
+                usedFallback = true;
+                return { embeddings: await MockProvider.generateBatch(batch), cacheable: false };
+            }
+        }
+    );
+    
+    // Cached vectors were always produced by the configured provider; fallbacks are never cached
+    const producedBy = result.cached.map(cached => (cached || !usedFallback ? type : 'mock'));
+    
+    return {
+        ...result,
+        producedBy,
+        fallback: usedFallback && policy === 'fallback-with-flag',
+    };
 }
 
 /**
@@ -320,3 +855,43 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 export function getEmbeddingDimensions(): number {
     return getEmbeddingProvider().dimensions;
 }
+
+// ==========================================
+// EMBEDDING PROVENANCE
+// ==========================================
+
+// Identifies the vector space an embedding lives in
+export type EmbeddingSignature = {
+    provider: EmbeddingProviderType;
+    model: string;
+    dimensions: number;
+};
+
+/**
+ * Get the provider, model and dimensions that new embeddings are generated with,
+ * or that a specific provider generates them with
+ */
+export function getEmbeddingSignature(type: EmbeddingProviderType = currentConfig.provider): EmbeddingSignature {
+    const provider = resolveProvider(type);
+    return {
+        provider: type,
+        model: provider.model,
+        dimensions: provider.dimensions,
+    };
+}
+
+/**
+ * Check whether a stored embedding can be compared with vectors from the given signature.
+ * Records without provenance are only accepted when their dimension matches.
+ */
+export function isEmbeddingCompatible(
+    record: { embedding?: number[]; embedding_meta?: { provider: string; model: string; dimensions: number } },
+    signature: EmbeddingSignature
+): boolean {
+    if (!record.embedding || record.embedding.length === 0) return false;
+    if (!record.embedding_meta) return record.embedding.length === signature.dimensions;
+    
+    return record.embedding_meta.provider === signature.provider
+        && record.embedding_meta.model === signature.model
+        && record.embedding.length === signature.dimensions;
+}
@@ -0,0 +1,221 @@
+/**
+ * Embedding Worker
+ *
+ * Server-side loop that drains the embedding_queue table. SurrealDB events
+ * (tables/embedding_queue.surql) queue a record whenever its embedded text
+ * changes; every tick the worker re-embeds the queued records whose content
+ * hash no longer matches, refreshes the affected profile chunks, and removes
+ * the entries. Failed entries stay queued with their error until they reach
+ * the attempt limit.
+ *
+ * Started from instrumentation.ts when the Next.js server boots.
+ */
+
+import { getServerDB } from './ServerSurreal';
+import { getEmbeddingDimensions } from './EmbeddingProvider';
+import { reembedStaleRecords, type EmbeddableTable } from './Reembed';
+import { getVectorIndexDimensions, type QueryRunner } from './VectorSearch';
+
+export type EmbeddingQueueEntry = {
+    id: string;
+    record: string;
+    reason: string;
+    queued_at: Date;
+    attempts: number;
+    last_error?: string;
+};
+
+export type EmbeddingQueueRun = {
+    processed: number;
+    failed: number;
+    // Entries still queued, including ones past the attempt limit
+    remaining: number;
+};
+
+export type EmbeddingWorkerOptions = {
+    intervalMs?: number;
+    batchSize?: number;
+    maxAttempts?: number;
+};
+
+export type EmbeddingWorkerStatus = {
+    running: boolean;
+    intervalMs: number;
+    lastRunAt: Date | null;
+    lastRun: EmbeddingQueueRun | null;
+    lastError: string | null;
+};
+
+export const DEFAULT_WORKER_INTERVAL_MS = 15000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+function extractRows<T>(result: unknown, index = 0): T[] {
+    if (Array.isArray(result) && Array.isArray(result[index])) {
+        return result[index] as T[];
+    }
+    return [];
+}
+
+/**
+ * Process one batch of the embedding queue, oldest entries first
+ */
+export async function processEmbeddingQueue(
+    db: QueryRunner,
+    options: Pick<EmbeddingWorkerOptions, 'batchSize' | 'maxAttempts'> = {}
+): Promise<EmbeddingQueueRun> {
+    const { batchSize = 32, maxAttempts = DEFAULT_MAX_ATTEMPTS } = options;
+
+    const entries = extractRows<EmbeddingQueueEntry>(
+        await db.query(
+            `SELECT * FROM embedding_queue WHERE attempts < $maxAttempts
+                ORDER BY queued_at LIMIT $batchSize`,
+            { maxAttempts, batchSize }
+        )
+    );
+    if (entries.length === 0) {
+        return { processed: 0, failed: 0, remaining: 0 };
+    }
+
+    const tables = Array.from(
+        new Set(
+            entries.map(
+                (entry) => String(entry.record).split(':')[0] as EmbeddableTable
+            )
+        )
+    );
+    let failedIds = new Set<string>();
+    let error: string | undefined;
+
+    try {
+        // Never redefine indexes here: that clears vectors of the other dimension
+        const dimensions = getEmbeddingDimensions();
+        if (!dimensions) {
+            throw new Error(
+                'The embedding provider has no vector dimensions configured (EMBEDDING_DIM)'
+            );
+        }
+        const indexes = await getVectorIndexDimensions(db);
+        const mismatched = tables.filter(
+            (table) => indexes[table] !== null && indexes[table] !== dimensions
+        );
+        if (mismatched.length > 0) {
+            throw new Error(
+                `Vector indexes on ${mismatched.join(', ')} don't match the ` +
+                    `configured ${dimensions} dimensions; re-embed from the Skill Match page`
+            );
+        }
+        const result = await reembedStaleRecords({
+            db,
+            tables,
+            ids: entries.map((entry) => String(entry.record)),
+        });
+        failedIds = new Set(result.failedIds);
+        if (result.failedIds.length > 0) {
+            error = 'Embedding provider failed or fell back to mock vectors';
+        }
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        failedIds = new Set(entries.map((entry) => String(entry.record)));
+    }
+
+    const done = entries.filter(
+        (entry) => !failedIds.has(String(entry.record))
+    );
+    const failed = entries.filter((entry) =>
+        failedIds.has(String(entry.record))
+    );
+
+    // Entries re-queued while this batch ran have a newer queued_at and stay
+    const remaining = await db.query(
+        `
+        FOR $entry IN $done {
+            DELETE $entry.id WHERE queued_at = $entry.queued_at;
+        };
+        FOR $entry IN $failed {
+            UPDATE $entry.id SET attempts += 1, last_error = $error;
+        };
+        SELECT count() AS total FROM embedding_queue GROUP ALL;
+    `,
+        {
+            done: done.map(({ id, queued_at }) => ({ id, queued_at })),
+            failed: failed.map(({ id }) => ({ id })),
+            error,
+        }
+    );
+
+    return {
+        processed: done.length,
+        failed: failed.length,
+        remaining:
+            Number(extractRows<{ total: number }>(remaining, 2)[0]?.total) || 0,
+    };
+}
+
+// ==========================================
+// LOOP
+// ==========================================
+
+const state: EmbeddingWorkerStatus & {
+    timer: ReturnType<typeof setTimeout> | null;
+} = {
+    running: false,
+    intervalMs: DEFAULT_WORKER_INTERVAL_MS,
+    lastRunAt: null,
+    lastRun: null,
+    lastError: null,
+    timer: null,
+};
+
+async function tick(options: EmbeddingWorkerOptions): Promise<void> {
+    let db: Awaited<ReturnType<typeof getServerDB>> | null = null;
+    try {
+        db = await getServerDB();
+        let run: EmbeddingQueueRun;
+        // Keep going while batches make progress, so a bulk import drains in one tick
+        do {
+            run = await processEmbeddingQueue(db, options);
+            state.lastRun = run;
+        } while (run.processed > 0 && run.remaining > 0);
+        state.lastError = null;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Log once per distinct error, e.g. while the database is down
+        if (message !== state.lastError) {
+            console.error('Embedding worker failed:', error);
+        }
+        state.lastError = message;
+    } finally {
+        state.lastRunAt = new Date();
+        await db?.close().catch(() => undefined);
+    }
+}
+
+/**
+ * Start polling the queue. Calling it again while running is a no-op.
+ */
+export function startEmbeddingWorker(
+    options: EmbeddingWorkerOptions = {}
+): void {
+    if (state.running) return;
+    state.running = true;
+    state.intervalMs = options.intervalMs ?? DEFAULT_WORKER_INTERVAL_MS;
+
+    const loop = async () => {
+        await tick(options);
+        if (state.running) {
+            state.timer = setTimeout(loop, state.intervalMs);
+        }
+    };
+    state.timer = setTimeout(loop, 0);
+}
+
+export function stopEmbeddingWorker(): void {
+    state.running = false;
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+}
+
+export function getEmbeddingWorkerStatus(): EmbeddingWorkerStatus {
+    const { timer: _timer, ...status } = state;
+    return status;
+}
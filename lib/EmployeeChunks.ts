@@ -0,0 +1,404 @@
+/**
+ * Employee Chunks
+ *
+ * Multi-vector employee embeddings. Every profile section (bio, experience,
+ * education, and each worked_on contribution) is embedded on its own and
+ * stored in employee_chunk, next to the single summary vector on the
+ * employee record. Search scores an employee by its best chunk or by a
+ * section-weighted aggregate, and reports which chunk matched.
+ */
+
+import { StringRecordId } from 'surrealdb';
+import { SurrealInstance } from './Surreal';
+import {
+    generateEmbeddingsWithStats,
+    getEmbeddingSignature,
+    type EmbeddingSignature,
+} from './EmbeddingProvider';
+import { knnSearch, type KnnOptions, type QueryRunner } from './VectorSearch';
+import type {
+    ChunkAggregation,
+    Employee,
+    EmployeeChunk,
+    EmployeeChunkSection,
+    EmployeeID,
+    MatchedChunk,
+    ProjectID,
+} from '../constants/SkillTypes';
+
+// Relative weight of each section in the 'weighted' aggregation
+export const DEFAULT_CHUNK_WEIGHTS: Record<EmployeeChunkSection, number> = {
+    summary: 1,
+    bio: 1,
+    experience: 1,
+    education: 0.6,
+    project: 0.8,
+};
+
+type ChunkSource = Pick<Employee, 'id' | 'profile'> & {
+    projects?: Array<{
+        project: ProjectID;
+        name?: string;
+        role?: string;
+        contribution?: string;
+    }>;
+};
+
+type ChunkDraft = Pick<EmployeeChunk, 'employee' | 'section' | 'text'> & {
+    project?: ProjectID;
+};
+
+type StoredChunk = Pick<
+    EmployeeChunk,
+    'employee' | 'section' | 'project' | 'text' | 'embedding_meta'
+> & { has_embedding: boolean };
+
+/**
+ * Split an employee profile into the texts that get their own vector
+ */
+export function employeeChunkTexts(source: ChunkSource): ChunkDraft[] {
+    const { profile } = source;
+    const employee = source.id;
+    const chunks: ChunkDraft[] = [];
+
+    if (profile?.bio) {
+        chunks.push({ employee, section: 'bio', text: profile.bio });
+    }
+    if (profile?.experience) {
+        const years = profile.years_experience
+            ? `${profile.years_experience} years of experience. `
+            : '';
+        chunks.push({
+            employee,
+            section: 'experience',
+            text: `${years}${profile.experience}`,
+        });
+    }
+    const education = [
+        profile?.education && `Education: ${profile.education}.`,
+        profile?.certifications?.length &&
+            `Certifications: ${profile.certifications.join(', ')}.`,
+    ].filter(Boolean);
+    if (education.length > 0) {
+        chunks.push({
+            employee,
+            section: 'education',
+            text: education.join(' '),
+        });
+    }
+    (source.projects || []).forEach(({ project, name, role, contribution }) => {
+        if (!role && !contribution) return;
+        chunks.push({
+            employee,
+            section: 'project',
+            project,
+            text: `${name || 'Project'}${role ? ` (${role})` : ''}: ${
+                contribution || ''
+            }`.trim(),
+        });
+    });
+
+    return chunks;
+}
+
+// ==========================================
+// STALE DETECTION
+// ==========================================
+
+const chunkKey = (chunk: {
+    section: string;
+    project?: ProjectID | null;
+    text: string;
+}) =>
+    `${chunk.section}|${chunk.project ? String(chunk.project) : ''}|${
+        chunk.text
+    }`;
+
+// Stored chunks match the profile text and the current vector space
+function isUpToDate(
+    drafts: ChunkDraft[],
+    stored: StoredChunk[],
+    signature: EmbeddingSignature
+): boolean {
+    if (drafts.length !== stored.length) return false;
+    const current = new Set(
+        stored
+            .filter(
+                (chunk) =>
+                    chunk.has_embedding &&
+                    chunk.embedding_meta?.provider === signature.provider &&
+                    chunk.embedding_meta?.model === signature.model &&
+                    chunk.embedding_meta?.dimensions === signature.dimensions &&
+                    !chunk.embedding_meta?.fallback
+            )
+            .map(chunkKey)
+    );
+    return drafts.every((draft) => current.has(chunkKey(draft)));
+}
+
+/**
+ * Employees whose chunks are missing, outdated or from another vector space,
+ * with the chunk texts they should have. Pass employees to only check those.
+ */
+async function findStaleChunkSources(
+    db: QueryRunner,
+    signature: EmbeddingSignature,
+    force: boolean,
+    employees?: string[]
+): Promise<Array<{ employee: EmployeeID; drafts: ChunkDraft[] }>> {
+    const result = (await db.query(
+        `
+        SELECT id, profile,
+            ->worked_on.{ project: out, name: out.name, role, contribution } AS projects
+        FROM ${employees ? '$employees' : 'employee'};
+        SELECT employee, section, project, text, embedding_meta,
+            embedding != NONE AS has_embedding
+        FROM employee_chunk${employees ? ' WHERE employee IN $employees' : ''};
+    `,
+        { employees: employees?.map((id) => new StringRecordId(String(id))) }
+    )) as [ChunkSource[], StoredChunk[]];
+    const sources = Array.isArray(result?.[0]) ? result[0] : [];
+    const storedByEmployee = new Map<string, StoredChunk[]>();
+    (Array.isArray(result?.[1]) ? result[1] : []).forEach((chunk) => {
+        const key = String(chunk.employee);
+        storedByEmployee.set(key, [
+            ...(storedByEmployee.get(key) || []),
+            chunk,
+        ]);
+    });
+
+    return sources
+        .map((source) => ({
+            employee: source.id,
+            drafts: employeeChunkTexts(source),
+            stored: storedByEmployee.get(String(source.id)) || [],
+        }))
+        .filter(
+            ({ drafts, stored }) =>
+                force || !isUpToDate(drafts, stored, signature)
+        )
+        .map(({ employee, drafts }) => ({ employee, drafts }));
+}
+
+/**
+ * Number of employees whose profile chunks need (re-)embedding for the
+ * given signature (default: the configured provider)
+ */
+export async function countStaleEmployeeChunks(
+    db: QueryRunner = SurrealInstance,
+    signature: EmbeddingSignature = getEmbeddingSignature()
+): Promise<number> {
+    return (await findStaleChunkSources(db, signature, false)).length;
+}
+
+// ==========================================
+// JOB
+// ==========================================
+
+export type ChunkRefreshOptions = {
+    batchSize?: number;
+    // Rebuild every employee's chunks, not only stale ones
+    force?: boolean;
+    // Only refresh these employees (e.g. from the embedding queue), all by default
+    employees?: string[];
+    onProgress?: (progress: {
+        processed: number;
+        total: number;
+        failed: number;
+    }) => void;
+    db?: QueryRunner;
+};
+
+export type ChunkRefreshResult = {
+    // Employees whose chunks were rewritten, and the number of chunks stored
+    employees: number;
+    chunks: number;
+    failed: number;
+    // Employees whose chunks are still missing or from a fallback
+    failedIds: string[];
+};
+
+/**
+ * Rewrite the chunks of stale employees. A full run (no employees option)
+ * also removes chunks of deleted employees.
+ */
+export async function refreshEmployeeChunks(
+    options: ChunkRefreshOptions = {}
+): Promise<ChunkRefreshResult> {
+    const {
+        batchSize = 16,
+        force = false,
+        employees,
+        onProgress,
+        db = SurrealInstance,
+    } = options;
+    const signature = getEmbeddingSignature();
+    const result: ChunkRefreshResult = {
+        employees: 0,
+        chunks: 0,
+        failed: 0,
+        failedIds: [],
+    };
+    if (employees?.length === 0) return result;
+
+    if (!employees) {
+        await db.query(
+            'DELETE employee_chunk WHERE employee NOT IN (SELECT VALUE id FROM employee)'
+        );
+    }
+    const stale = await findStaleChunkSources(db, signature, force, employees);
+    onProgress?.({ processed: 0, total: stale.length, failed: 0 });
+
+    for (let start = 0; start < stale.length; start += batchSize) {
+        const batch = stale.slice(start, start + batchSize);
+        const drafts = batch.flatMap((source) => source.drafts);
+
+        try {
+            const { embeddings, producedBy, fallback } = drafts.length
+                ? await generateEmbeddingsWithStats(
+                      drafts.map((draft) => draft.text)
+                  )
+                : { embeddings: [], producedBy: [], fallback: false };
+            const chunks = drafts.map((draft, i) => ({
+                ...draft,
+                embedding: embeddings[i],
+                provider: producedBy[i],
+                model: getEmbeddingSignature(producedBy[i]).model,
+                fallback: fallback && producedBy[i] !== signature.provider,
+            }));
+
+            await db.query(
+                `
+                DELETE employee_chunk WHERE employee IN $employees;
+                FOR $chunk IN $chunks {
+                    CREATE employee_chunk SET
+                        employee = $chunk.employee,
+                        section = $chunk.section,
+                        project = $chunk.project,
+                        text = $chunk.text,
+                        embedding = $chunk.embedding,
+                        embedding_meta = {
+                            provider: $chunk.provider,
+                            model: $chunk.model,
+                            dimensions: array::len($chunk.embedding),
+                            generated_at: time::now(),
+                            fallback: $chunk.fallback OR NONE
+                        };
+                };
+            `,
+                { employees: batch.map((source) => source.employee), chunks }
+            );
+
+            // An employee with a fallback chunk stays stale and is retried next run
+            const failedEmployees = new Set(
+                chunks
+                    .filter((chunk) => chunk.provider !== signature.provider)
+                    .map((chunk) => String(chunk.employee))
+            );
+            result.employees += batch.length - failedEmployees.size;
+            result.failed += failedEmployees.size;
+            result.failedIds.push(...Array.from(failedEmployees));
+            result.chunks += chunks.length;
+        } catch (error) {
+            console.error('Re-embedding employee chunks failed:', error);
+            result.failed += batch.length;
+            result.failedIds.push(
+                ...batch.map((source) => String(source.employee))
+            );
+        }
+
+        onProgress?.({
+            processed: Math.min(start + batchSize, stale.length),
+            total: stale.length,
+            failed: result.failed,
+        });
+    }
+
+    return result;
+}
+
+// ==========================================
+// SEARCH
+// ==========================================
+
+export type EmployeeChunkMatches = {
+    employee: EmployeeID;
+    chunks: MatchedChunk[];
+};
+
+/**
+ * Nearest profile chunks to a query, grouped by employee (best first).
+ * Only chunks from the given signature (default: the configured provider) match.
+ */
+export async function searchEmployeeChunks(
+    embedding: number[],
+    options: Pick<KnnOptions, 'k' | 'signature' | 'where' | 'vars' | 'db'>
+): Promise<Map<string, EmployeeChunkMatches>> {
+    const hits = await knnSearch<EmployeeChunk>('employee_chunk', embedding, {
+        ...options,
+        signature: options.signature || getEmbeddingSignature(),
+    });
+
+    const byEmployee = new Map<string, EmployeeChunkMatches>();
+    hits.forEach((hit) => {
+        const key = String(hit.employee);
+        const matches = byEmployee.get(key) || {
+            employee: hit.employee,
+            chunks: [],
+        };
+        matches.chunks.push({
+            section: hit.section,
+            text: hit.text,
+            score: hit.score,
+            project: hit.project,
+        });
+        byEmployee.set(key, matches);
+    });
+    return byEmployee;
+}
+
+/**
+ * One semantic score from an employee's chunk matches:
+ *
+ * - max: similarity of the best chunk
+ * - weighted: weighted mean over sections of each section's best chunk
+ *
+ * The reported chunk is the one contributing most.
+ */
+export function aggregateChunkScores(
+    chunks: MatchedChunk[],
+    method: ChunkAggregation = 'max',
+    weights: Record<EmployeeChunkSection, number> = DEFAULT_CHUNK_WEIGHTS
+): { score: number; chunk: MatchedChunk } | null {
+    if (chunks.length === 0) return null;
+
+    const bestBySection = new Map<EmployeeChunkSection, MatchedChunk>();
+    chunks.forEach((chunk) => {
+        const best = bestBySection.get(chunk.section);
+        if (!best || chunk.score > best.score) {
+            bestBySection.set(chunk.section, chunk);
+        }
+    });
+    const best = Array.from(bestBySection.values());
+
+    if (method === 'max') {
+        const top = best.reduce((a, b) => (b.score > a.score ? b : a));
+        return { score: top.score, chunk: top };
+    }
+
+    const weight = (chunk: MatchedChunk) => weights[chunk.section] ?? 1;
+    const totalWeight = best.reduce((sum, chunk) => sum + weight(chunk), 0);
+    const top = best.reduce((a, b) =>
+        weight(b) * b.score > weight(a) * a.score ? b : a
+    );
+    return {
+        score:
+            totalWeight > 0
+                ? best.reduce(
+                      (sum, chunk) => sum + weight(chunk) * chunk.score,
+                      0
+                  ) / totalWeight
+                : top.score,
+        chunk: top,
+    };
+}
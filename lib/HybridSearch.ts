@@ -0,0 +1,154 @@
+/**
+ * Hybrid Search
+ *
+ * BM25 full-text queries against the search indexes in
+ * tables/search_indexes.surql, and fusion of several ranked lists
+ * (e.g. lexical and vector) into one ranking.
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    FusionMethod,
+    FusionOptions,
+    SearchChannel,
+} from '../constants/SkillTypes';
+
+export type FullTextTable = 'skill' | 'employee';
+
+// Fields with a BM25 index, in match-reference order (@0@, @1@, ...)
+const FULL_TEXT_FIELDS: Record<FullTextTable, string[]> = {
+    skill: ['name', 'description'],
+    employee: ['name', 'role', 'profile.bio'],
+};
+
+export type FullTextOptions = {
+    limit: number;
+    // Extra SurrealQL condition, e.g. 'department = $department'
+    where?: string;
+    vars?: Record<string, unknown>;
+    db?: QueryRunner;
+};
+
+function lastStatement<T>(result: unknown): T[] {
+    if (Array.isArray(result) && result.length > 0) {
+        const last = result[result.length - 1];
+        if (Array.isArray(last)) return last as T[];
+    }
+    return [];
+}
+
+/**
+ * BM25 search over the indexed text fields of a table, best match first.
+ * Returns an empty list when the query is blank or the indexes are missing,
+ * so callers degrade to vector-only search.
+ */
+export async function fullTextSearch<T>(
+    table: FullTextTable,
+    query: string,
+    options: FullTextOptions
+): Promise<Array<T & { score: number }>> {
+    const { where, vars, db = SurrealInstance } = options;
+    if (!query.trim()) return [];
+
+    const fields = FULL_TEXT_FIELDS[table];
+    const matches = fields
+        .map((field, i) => `${field} @${i}@ $query`)
+        .join(' OR ');
+    const score = fields.map((_, i) => `search::score(${i})`).join(' + ');
+
+    try {
+        const result = await db.query(
+            `
+            SELECT *, ${score} AS score
+            OMIT embedding
+            FROM type::table($table)
+            WHERE (${matches})${where ? ` AND (${where})` : ''}
+            ORDER BY score DESC
+            LIMIT $limit;
+        `,
+            {
+                ...vars,
+                table,
+                query,
+                limit: Math.max(1, Math.floor(options.limit)),
+            }
+        );
+        return lastStatement<T & { score: number }>(result);
+    } catch (error) {
+        console.warn(`Full-text search on ${table} failed:`, error);
+        return [];
+    }
+}
+
+// ==========================================
+// RANK FUSION
+// ==========================================
+
+export type RankedItem = { id: string; score: number };
+
+export type FusedItem = {
+    id: string;
+    score: number;
+    channels: SearchChannel[];
+    // 1-based rank of the item in each channel that returned it
+    ranks: Partial<Record<SearchChannel, number>>;
+};
+
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Merge per-channel rankings (each sorted best first) into one list.
+ *
+ * - rrf: sum of weight / (k + rank); scores only depend on rank positions
+ * - weighted: sum of weight * min-max normalised channel score
+ *
+ * Scores are scaled to 0-1, where 1 means first in every channel.
+ */
+export function fuseRankings(
+    rankings: Partial<Record<SearchChannel, RankedItem[]>>,
+    options: FusionOptions = {}
+): FusedItem[] {
+    const method: FusionMethod = options.method || 'rrf';
+    const k = options.k ?? DEFAULT_RRF_K;
+    const fused = new Map<string, FusedItem>();
+    let maxScore = 0;
+
+    (Object.keys(rankings) as SearchChannel[]).forEach((channel) => {
+        const items = rankings[channel] || [];
+        const weight = options.weights?.[channel] ?? 1;
+        if (items.length === 0 || weight <= 0) return;
+
+        const scores = items.map((item) => item.score);
+        const min = Math.min(...scores);
+        const range = Math.max(...scores) - min;
+        maxScore += method === 'rrf' ? weight / (k + 1) : weight;
+
+        items.forEach((item, index) => {
+            const contribution =
+                method === 'rrf'
+                    ? weight / (k + index + 1)
+                    : weight * (range > 0 ? (item.score - min) / range : 1);
+
+            const entry = fused.get(item.id) || {
+                id: item.id,
+                score: 0,
+                channels: [],
+                ranks: {},
+            };
+            if (entry.ranks[channel] === undefined) {
+                entry.score += contribution;
+                entry.channels.push(channel);
+                entry.ranks[channel] = index + 1;
+            }
+            fused.set(item.id, entry);
+        });
+    });
+
+    return Array.from(fused.values())
+        .map((item) => ({
+            ...item,
+            score: maxScore > 0 ? item.score / maxScore : 0,
+        }))
+        .sort((a, b) => b.score - a.score);
+}
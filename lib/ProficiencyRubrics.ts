@@ -0,0 +1,141 @@
+/**
+ * Proficiency Rubrics
+ *
+ * Descriptors for the 1-5 has_skill.proficiency levels, stored per skill or
+ * per category in the proficiency_rubric table. A level is described by the
+ * skill's own rubric, then its category's, then the default rubric below, so
+ * a stored rubric only needs the levels it changes.
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    ProficiencyLevel,
+    ProficiencyRubric,
+    ProficiencyRubricSource,
+    Skill,
+} from '../constants/SkillTypes';
+
+export const DEFAULT_PROFICIENCY_RUBRIC: ProficiencyLevel[] = [
+    {
+        level: 1,
+        label: 'Beginner',
+        description: 'Has learned the basics; needs guidance for real work',
+    },
+    {
+        level: 2,
+        label: 'Basic',
+        description: 'Handles simple tasks; needs help with anything unusual',
+    },
+    {
+        level: 3,
+        label: 'Intermediate',
+        description: 'Works independently on typical tasks',
+    },
+    {
+        level: 4,
+        label: 'Advanced',
+        description: 'Handles complex work and helps others',
+    },
+    {
+        level: 5,
+        label: 'Expert',
+        description: 'Recognised authority; sets direction for others',
+    },
+];
+
+export type ResolvedProficiencyLevel = ProficiencyLevel & {
+    source: ProficiencyRubricSource;
+};
+
+// Rubrics indexed for lookup, plus skill names and categories so callers that
+// only have a typed skill name (forms, resume review) can find its rubric
+export type RubricCatalogue = {
+    bySkill: Map<string, ProficiencyLevel[]>;
+    byCategory: Map<string, ProficiencyLevel[]>;
+    skillsByName: Map<string, Pick<Skill, 'id' | 'category'>>;
+};
+
+type RubricSkill = Partial<Pick<Skill, 'id' | 'name' | 'category'>>;
+
+/**
+ * All stored rubrics. A database without the proficiency_rubric table gives
+ * an empty catalogue, so everything falls back to the default rubric.
+ */
+export async function loadRubricCatalogue(
+    db: QueryRunner = SurrealInstance
+): Promise<RubricCatalogue> {
+    const catalogue: RubricCatalogue = {
+        bySkill: new Map(),
+        byCategory: new Map(),
+        skillsByName: new Map(),
+    };
+
+    try {
+        const result = (await db.query(`
+            SELECT skill, category, levels FROM proficiency_rubric;
+            SELECT id, name, category FROM skill;
+        `)) as [ProficiencyRubric[], Pick<Skill, 'id' | 'name' | 'category'>[]];
+        const rubrics = Array.isArray(result?.[0]) ? result[0] : [];
+        const skills = Array.isArray(result?.[1]) ? result[1] : [];
+
+        rubrics.forEach(({ skill, category, levels }) => {
+            if (skill) catalogue.bySkill.set(String(skill), levels || []);
+            else if (category)
+                catalogue.byCategory.set(category.toLowerCase(), levels || []);
+        });
+        skills.forEach(({ id, name, category }) =>
+            catalogue.skillsByName.set(name.trim().toLowerCase(), {
+                id,
+                category,
+            })
+        );
+    } catch (error) {
+        console.warn('Failed to load proficiency rubrics:', error);
+    }
+
+    return catalogue;
+}
+
+/**
+ * The five level descriptors for a skill, given by id, by name, or just by
+ * category. Unknown skills get the default rubric.
+ */
+export function rubricFor(
+    catalogue: RubricCatalogue | undefined,
+    skill: RubricSkill
+): ResolvedProficiencyLevel[] {
+    const known = skill.name
+        ? catalogue?.skillsByName.get(skill.name.trim().toLowerCase())
+        : undefined;
+    const id = skill.id ?? known?.id;
+    const category = skill.category ?? known?.category;
+
+    const own = id ? catalogue?.bySkill.get(String(id)) : undefined;
+    const shared = category
+        ? catalogue?.byCategory.get(category.toLowerCase())
+        : undefined;
+
+    return DEFAULT_PROFICIENCY_RUBRIC.map((fallback) => {
+        const fromSkill = own?.find((entry) => entry.level === fallback.level);
+        if (fromSkill) return { ...fromSkill, source: 'skill' as const };
+        const fromCategory = shared?.find(
+            (entry) => entry.level === fallback.level
+        );
+        if (fromCategory)
+            return { ...fromCategory, source: 'category' as const };
+        return { ...fallback, source: 'default' as const };
+    });
+}
+
+/**
+ * Descriptor for one level; levels outside 1-5 are clamped
+ */
+export function describeProficiency(
+    catalogue: RubricCatalogue | undefined,
+    skill: RubricSkill,
+    level: number
+): ResolvedProficiencyLevel {
+    const index = Math.min(Math.max(Math.round(level) || 1, 1), 5) - 1;
+    return rubricFor(catalogue, skill)[index];
+}
@@ -0,0 +1,146 @@
+/**
+ * Project Matching
+ *
+ * "Best people for this project": combines the requires_skill/has_skill
+ * graph path with project-to-employee embedding similarity, so projects
+ * whose skill edges haven't been curated yet can still be staffed.
+ */
+
+import { SurrealInstance } from './Surreal';
+import {
+    generateEmbedding,
+    getEmbeddingSignature,
+    isEmbeddingCompatible,
+} from './EmbeddingProvider';
+import { knnSearch, type QueryRunner } from './VectorSearch';
+import { projectEmbeddingText } from './Reembed';
+import { getScoringProfile } from './ScoringProfiles';
+import type {
+    CandidateMatch,
+    Employee,
+    HasSkillEdge,
+    Project,
+    ProjectID,
+    Skill,
+} from '../constants/SkillTypes';
+
+export type ProjectMatchOptions = {
+    // Scoring profile name, 'default' when omitted
+    profile?: string;
+    limit?: number;
+    db?: QueryRunner;
+};
+
+/**
+ * Rank employees for a project. With required skills the score is
+ * graph * weights.graph + semantic * weights.semantic; without any it is
+ * the project-to-employee similarity alone.
+ */
+export async function findPeopleForProject(
+    projectId: ProjectID,
+    options: ProjectMatchOptions = {}
+): Promise<CandidateMatch[]> {
+    const { limit = 20, db = SurrealInstance } = options;
+    const profile = await getScoringProfile(options.profile, db);
+    const { weights, project: projectWeights } = profile;
+
+    const result = (await db.query(
+        `
+        LET $project = <record> $projectId;
+        SELECT * FROM $project;
+        SELECT * OMIT embedding FROM $project->requires_skill->skill;
+        SELECT in, out, proficiency, certified FROM has_skill
+            WHERE out IN $project->requires_skill->skill;
+    `,
+        { projectId }
+    )) as unknown[];
+    const [project] = (result?.[1] as Project[]) || [];
+    const requiredSkills = (result?.[2] as Skill[]) || [];
+    const edges = (result?.[3] as HasSkillEdge[]) || [];
+    if (!project) return [];
+
+    // Vector path: reuse the stored project embedding when it's in the current vector space
+    const signature = getEmbeddingSignature();
+    const projectEmbedding = isEmbeddingCompatible(project, signature)
+        ? (project.embedding as number[])
+        : await generateEmbedding(projectEmbeddingText(project));
+
+    const k = Math.max(limit * 5, 50);
+    const nearest = await knnSearch<Employee>('employee', projectEmbedding, {
+        k,
+        signature,
+        db,
+    });
+    const similarity = new Map(
+        nearest.map((emp) => [String(emp.id), emp.score])
+    );
+    // Employees outside a full top-k are at most as similar as the k-th neighbour
+    const outsideTopKScore =
+        nearest.length >= k ? nearest[nearest.length - 1].score : 0;
+
+    // Graph path: required skills each employee has
+    const skillsById = new Map(requiredSkills.map((s) => [String(s.id), s]));
+    const graphMatches = new Map<string, HasSkillEdge[]>();
+    edges.forEach((edge) => {
+        const key = String(edge.in);
+        graphMatches.set(key, [...(graphMatches.get(key) || []), edge]);
+    });
+
+    // Load employees found only through the graph
+    const employees = new Map<string, Employee>(
+        nearest.map(({ score: _score, ...emp }) => [
+            String(emp.id),
+            emp as Employee,
+        ])
+    );
+    const missing = Array.from(graphMatches.values())
+        .map((matched) => matched[0].in)
+        .filter((id) => !employees.has(String(id)));
+    if (missing.length > 0) {
+        const loaded = (await db.query('SELECT * OMIT embedding FROM $ids', {
+            ids: missing,
+        })) as Employee[][];
+        (loaded?.[0] || []).forEach((emp) =>
+            employees.set(String(emp.id), emp)
+        );
+    }
+
+    const candidates: CandidateMatch[] = Array.from(employees.values()).map(
+        (employee) => {
+            const id = String(employee.id);
+            const matched = graphMatches.get(id) || [];
+            const totalProficiency = matched.reduce(
+                (sum, edge) => sum + edge.proficiency,
+                0
+            );
+            const graphScore =
+                (matched.length / projectWeights.expected_skills) *
+                    projectWeights.coverage_weight +
+                (totalProficiency / projectWeights.expected_proficiency) *
+                    projectWeights.proficiency_weight;
+            const semanticScore = similarity.get(id) ?? outsideTopKScore;
+
+            return {
+                employee,
+                matchScore:
+                    requiredSkills.length > 0
+                        ? graphScore * weights.graph +
+                          semanticScore * weights.semantic
+                        : semanticScore,
+                matchedSkills: matched
+                    .filter((edge) => skillsById.has(String(edge.out)))
+                    .map((edge) => ({
+                        skill: skillsById.get(String(edge.out)) as Skill,
+                        proficiency: edge.proficiency,
+                        relevance: 1,
+                    })),
+                semanticScore,
+                graphScore,
+            };
+        }
+    );
+
+    return candidates
+        .sort((a, b) => b.matchScore - a.matchScore)
+        .slice(0, limit);
+}
@@ -0,0 +1,109 @@
+/**
+ * Projection
+ *
+ * Reduces embedding vectors to 2D for plotting. Uses PCA through power
+ * iteration on the centred data, so it never builds the (dims x dims)
+ * covariance matrix and stays cheap in the browser for a few thousand
+ * 384-1536 dimensional vectors.
+ */
+
+export type Point2D = { x: number; y: number };
+
+export type ProjectionResult = {
+    points: Point2D[];
+    // Share of the total variance captured by each of the two axes
+    explainedVariance: [number, number];
+};
+
+const POWER_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function normalize(v: number[]): number[] {
+    const norm = Math.sqrt(dot(v, v));
+    return norm > 0 ? v.map((x) => x / norm) : v;
+}
+
+// Covariance times v, computed as X^T (X v) / n
+function covarianceTimes(rows: number[][], v: number[]): number[] {
+    const result = new Array(v.length).fill(0);
+    rows.forEach((row) => {
+        const projection = dot(row, v);
+        for (let i = 0; i < row.length; i++) {
+            result[i] += row[i] * projection;
+        }
+    });
+    return result.map((x) => x / rows.length);
+}
+
+// Dominant eigenvector of the covariance, orthogonal to `exclude`
+function principalComponent(
+    rows: number[][],
+    exclude: number[][]
+): { vector: number[]; variance: number } {
+    const dims = rows[0].length;
+    // Deterministic start so the map doesn't flip between renders
+    let v = normalize(
+        Array.from({ length: dims }, (_, i) => Math.sin(i + 1 + exclude.length))
+    );
+    let variance = 0;
+
+    for (let iter = 0; iter < POWER_ITERATIONS; iter++) {
+        let next = covarianceTimes(rows, v);
+        exclude.forEach((component) => {
+            const overlap = dot(next, component);
+            next = next.map((x, i) => x - overlap * component[i]);
+        });
+        const nextVariance = Math.sqrt(dot(next, next));
+        next = normalize(next);
+        const converged = Math.abs(nextVariance - variance) < TOLERANCE;
+        v = next;
+        variance = nextVariance;
+        if (converged) break;
+    }
+    return { vector: v, variance };
+}
+
+/**
+ * Project vectors (all of the same length) onto their first two principal
+ * components. Fewer than two vectors land on the origin.
+ */
+export function projectPCA(vectors: number[][]): ProjectionResult {
+    if (vectors.length < 2) {
+        return {
+            points: vectors.map(() => ({ x: 0, y: 0 })),
+            explainedVariance: [0, 0],
+        };
+    }
+
+    const dims = vectors[0].length;
+    const mean = new Array(dims).fill(0);
+    vectors.forEach((v) =>
+        v.forEach((x, i) => (mean[i] += x / vectors.length))
+    );
+    const centred = vectors.map((v) => v.map((x, i) => x - mean[i]));
+
+    const totalVariance =
+        centred.reduce((sum, row) => sum + dot(row, row), 0) / centred.length;
+    const first = principalComponent(centred, []);
+    const second = principalComponent(centred, [first.vector]);
+
+    return {
+        points: centred.map((row) => ({
+            x: dot(row, first.vector),
+            y: dot(row, second.vector),
+        })),
+        explainedVariance:
+            totalVariance > 0
+                ? [
+                      first.variance / totalVariance,
+                      second.variance / totalVariance,
+                  ]
+                : [0, 0],
+    };
+}
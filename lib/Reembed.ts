@@ -0,0 +1,408 @@
+/**
+ * Re-embedding Job
+ *
+ * Finds records whose embedding is missing, was generated by a different
+ * provider, model or dimension than the current configuration, or was
+ * generated from text that has since been edited (embedding_meta.content_hash),
+ * and regenerates them in batches with progress reporting.
+ */
+
+import { StringRecordId } from 'surrealdb';
+import { SurrealInstance as surreal } from './Surreal';
+import {
+    generateEmbeddingsWithStats,
+    getEmbeddingSignature,
+    type EmbeddingProviderType,
+    type EmbeddingSignature,
+} from './EmbeddingProvider';
+import type { QueryRunner } from './VectorSearch';
+import {
+    countStaleEmployeeChunks,
+    refreshEmployeeChunks,
+    type ChunkRefreshResult,
+} from './EmployeeChunks';
+import type { Employee, Project, Skill } from '../constants/SkillTypes';
+
+export type EmbeddableTable = 'skill' | 'employee' | 'project';
+
+export const EMBEDDABLE_TABLES: EmbeddableTable[] = [
+    'skill',
+    'employee',
+    'project',
+];
+
+export type ReembedProgress = {
+    // employee_chunk: per-section profile vectors, refreshed with employees
+    table: EmbeddableTable | 'employee_chunk';
+    processed: number;
+    total: number;
+    failed: number;
+};
+
+export type ReembedOptions = {
+    tables?: EmbeddableTable[];
+    // Only consider these records (e.g. the embedding queue), all by default
+    ids?: string[];
+    batchSize?: number;
+    // Re-embed every record, not only stale ones
+    force?: boolean;
+    onProgress?: (progress: ReembedProgress) => void;
+    // Connection to use, the browser singleton by default
+    db?: QueryRunner;
+};
+
+export type ReembedResult = {
+    updated: Record<EmbeddableTable, number>;
+    // Set when employees were re-embedded
+    chunks: ChunkRefreshResult | null;
+    failed: number;
+    // Skill, employee and project records that still have no current vector,
+    // or whose employees' profile chunks failed
+    failedIds: string[];
+    signature: EmbeddingSignature;
+    durationMs: number;
+};
+
+// ==========================================
+// EMBEDDING TEXT
+// ==========================================
+
+export function skillEmbeddingText(
+    skill: Pick<Skill, 'name' | 'description' | 'tags'>
+): string {
+    return `${skill.name}: ${skill.description || ''} ${
+        skill.tags?.join(' ') || ''
+    }`;
+}
+
+export function employeeEmbeddingText(
+    emp: Pick<Employee, 'name' | 'role' | 'department' | 'profile'>
+): string {
+    return `${emp.name}, ${emp.role} in ${emp.department}. ${
+        emp.profile?.bio || ''
+    }`;
+}
+
+export function projectEmbeddingText(
+    project: Pick<Project, 'name' | 'description' | 'metadata'>
+): string {
+    // Metadata is free-form: keep readable strings, numbers and string lists
+    const metadata = Object.entries(project.metadata || {})
+        .map(([key, value]) => {
+            const text = Array.isArray(value)
+                ? value.filter((item) => typeof item === 'string').join(', ')
+                : typeof value === 'string' || typeof value === 'number'
+                ? String(value)
+                : '';
+            return text ? `${key.replace(/_/g, ' ')}: ${text}.` : '';
+        })
+        .filter(Boolean)
+        .join(' ');
+    return `${project.name}: ${project.description || ''} ${metadata}`.trim();
+}
+
+// The fields each table's embedding text is built from
+type EmbeddableRows = {
+    skill: Pick<Skill, 'name' | 'description' | 'tags'>;
+    employee: Pick<Employee, 'name' | 'role' | 'department' | 'profile'>;
+    project: Pick<Project, 'name' | 'description' | 'metadata'>;
+};
+
+const sources: {
+    [T in EmbeddableTable]: (record: EmbeddableRows[T]) => string;
+} = {
+    skill: skillEmbeddingText,
+    employee: employeeEmbeddingText,
+    project: projectEmbeddingText,
+};
+
+// ==========================================
+// STALE DETECTION
+// ==========================================
+
+// The texts above in SurrealQL, so the database can hash them and find
+// edited records without sending them over. Stored content hashes come from
+// these expressions too, so they only have to change whenever the text does.
+const TEXT_EXPRESSIONS: Record<EmbeddableTable, string> = {
+    skill: "string::concat(name, ': ', description ?? '', ' ', array::join(tags ?? [], ' '))",
+    employee:
+        "string::concat(name, ', ', role, ' in ', department, '. ', profile.bio ?? '')",
+    project:
+        "string::concat(name, ': ', description ?? '', ' ', <string> (metadata ?? {}))",
+};
+
+const contentHash = (table: EmbeddableTable) =>
+    `crypto::sha256(${TEXT_EXPRESSIONS[table]})`;
+
+// Missing vector, missing provenance, a flagged fallback, provenance from
+// another vector space, or text edited since it was embedded. Vectors stored
+// before content hashes were recorded count as edited once.
+const staleCondition = (table: EmbeddableTable) => `
+    embedding = NONE
+    OR embedding = []
+    OR embedding_meta = NONE
+    OR embedding_meta.fallback = true
+    OR embedding_meta.provider != $provider
+    OR embedding_meta.model != $model
+    OR embedding_meta.dimensions != $dimensions
+    OR embedding_meta.content_hash != ${contentHash(table)}
+`;
+
+type StaleRecord = {
+    id: string;
+    text: string;
+    contentHash: string;
+};
+
+function extractRows<T>(result: unknown, index = 0): T[] {
+    if (Array.isArray(result) && Array.isArray(result[index])) {
+        return result[index] as T[];
+    }
+    return [];
+}
+
+/**
+ * Records of a table that need (re-)embedding for the given signature,
+ * with the text to embed and its content hash
+ */
+async function findStaleRecords<T extends EmbeddableTable>(
+    db: QueryRunner,
+    table: T,
+    signature: EmbeddingSignature,
+    options: { force?: boolean; ids?: string[] } = {}
+): Promise<StaleRecord[]> {
+    const source = options.ids ? '$ids' : 'type::table($table)';
+    const result = await db.query(
+        `
+        SELECT *, ${contentHash(table)} AS content_hash OMIT embedding
+        FROM ${source} WHERE $force OR ${staleCondition(table)};
+    `,
+        {
+            ...signature,
+            table,
+            force: !!options.force,
+            ids: options.ids?.map((id) => new StringRecordId(String(id))),
+        }
+    );
+    const toText: (record: EmbeddableRows[T]) => string = sources[table];
+
+    return extractRows<
+        EmbeddableRows[T] & { id: string; content_hash: string }
+    >(result).map((record) => ({
+        id: record.id,
+        text: toText(record),
+        contentHash: record.content_hash,
+    }));
+}
+
+export type StaleEmbeddingCounts = Record<
+    EmbeddableTable | 'employee_chunk',
+    number
+> & {
+    // Records waiting for the background embedding worker
+    queued: number;
+};
+
+/**
+ * Count records per table that need (re-)embedding for the configured
+ * provider (or the given one) or because their text changed. Counted in the
+ * database; GET /api/embedding-queue serves the counts to the browser.
+ */
+export async function countStaleEmbeddings(
+    db: QueryRunner = surreal,
+    provider?: EmbeddingProviderType
+): Promise<StaleEmbeddingCounts> {
+    const signature = getEmbeddingSignature(provider);
+    const result = await db.query(
+        `
+        ${EMBEDDABLE_TABLES.map(
+            (table) =>
+                `SELECT count() AS total FROM ${table} WHERE ${staleCondition(
+                    table
+                )} GROUP ALL;`
+        ).join('\n')}
+        SELECT count() AS total FROM embedding_queue GROUP ALL;
+    `,
+        signature
+    );
+    const count = (index: number) =>
+        Number(extractRows<{ total: number }>(result, index)[0]?.total) || 0;
+
+    return {
+        skill: count(0),
+        employee: count(1),
+        project: count(2),
+        // Employees whose profile chunks are missing or outdated
+        employee_chunk: await countStaleEmployeeChunks(db, signature),
+        queued: count(EMBEDDABLE_TABLES.length),
+    };
+}
+
+// ==========================================
+// JOB
+// ==========================================
+
+// Employees whose profile chunks each of the given records feeds: an
+// employee its own, a project those of everyone who worked on it
+async function findChunkOwners(
+    db: QueryRunner,
+    ids: string[]
+): Promise<Map<string, string[]>> {
+    const owners = new Map<string, string[]>();
+    ids.filter((id) => String(id).startsWith('employee:')).forEach((id) =>
+        owners.set(String(id), [String(id)])
+    );
+
+    const projects = ids.filter((id) => String(id).startsWith('project:'));
+    if (projects.length > 0) {
+        const result = await db.query(
+            'SELECT id, <-worked_on<-employee AS employees FROM $projects;',
+            { projects: projects.map((id) => new StringRecordId(String(id))) }
+        );
+        extractRows<{ id: string; employees?: string[] }>(result).forEach(
+            (project) =>
+                owners.set(
+                    String(project.id),
+                    (project.employees || []).map(String)
+                )
+        );
+    }
+    return owners;
+}
+
+/**
+ * Regenerate stale embeddings and store them with their provenance
+ */
+export async function reembedStaleRecords(
+    options: ReembedOptions = {}
+): Promise<ReembedResult> {
+    const startTime = Date.now();
+    const {
+        tables = EMBEDDABLE_TABLES,
+        ids,
+        batchSize = 32,
+        force = false,
+        onProgress,
+        db = surreal,
+    } = options;
+    const signature = getEmbeddingSignature();
+
+    const updated: Record<EmbeddableTable, number> = {
+        skill: 0,
+        employee: 0,
+        project: 0,
+    };
+    const failedIds: string[] = [];
+
+    for (const table of tables) {
+        const tableIds = ids?.filter((id) =>
+            String(id).startsWith(`${table}:`)
+        );
+        if (tableIds?.length === 0) continue;
+        const records = await findStaleRecords(db, table, signature, {
+            force,
+            ids: tableIds,
+        });
+
+        let tableFailed = 0;
+        onProgress?.({ table, processed: 0, total: records.length, failed: 0 });
+
+        for (let start = 0; start < records.length; start += batchSize) {
+            const batch = records.slice(start, start + batchSize);
+
+            try {
+                const { embeddings, producedBy, fallback } =
+                    await generateEmbeddingsWithStats(
+                        batch.map((record) => record.text)
+                    );
+                // Record the provider that really produced each vector, so
+                // fallback vectors stay stale and are retried on the next run
+                const items = batch.map((record, i) => ({
+                    id: record.id,
+                    embedding: embeddings[i],
+                    provider: producedBy[i],
+                    model: getEmbeddingSignature(producedBy[i]).model,
+                    fallback: fallback && producedBy[i] !== signature.provider,
+                    content_hash: record.contentHash,
+                }));
+
+                await db.query(
+                    `
+                    FOR $item IN $items {
+                        UPDATE $item.id SET
+                            embedding = $item.embedding,
+                            embedding_meta = {
+                                provider: $item.provider,
+                                model: $item.model,
+                                dimensions: array::len($item.embedding),
+                                generated_at: time::now(),
+                                fallback: $item.fallback OR NONE,
+                                content_hash: $item.content_hash
+                            };
+                    };
+                `,
+                    { items }
+                );
+
+                const stale = items.filter(
+                    (item) => item.provider !== signature.provider
+                );
+                updated[table] += batch.length - stale.length;
+                tableFailed += stale.length;
+                failedIds.push(...stale.map((item) => String(item.id)));
+            } catch (error) {
+                console.error(`Re-embedding ${table} batch failed:`, error);
+                tableFailed += batch.length;
+                failedIds.push(...batch.map((record) => String(record.id)));
+            }
+
+            onProgress?.({
+                table,
+                processed: Math.min(start + batchSize, records.length),
+                total: records.length,
+                failed: tableFailed,
+            });
+        }
+    }
+
+    // Profile sections are embedded separately, see lib/EmployeeChunks.ts.
+    // Project chunks include the project name, so project edits count too.
+    let chunks: ChunkRefreshResult | null = null;
+    const recordFailures = failedIds.length;
+    if (tables.includes('employee') || tables.includes('project')) {
+        // A run over given ids only refreshes those employees and the people on those projects
+        const owners = ids ? await findChunkOwners(db, ids) : null;
+        chunks = await refreshEmployeeChunks({
+            force,
+            employees: owners
+                ? Array.from(new Set(Array.from(owners.values()).flat()))
+                : undefined,
+            db,
+            onProgress: (progress) =>
+                onProgress?.({ table: 'employee_chunk', ...progress }),
+        });
+
+        // Report chunk failures against the ids that were asked for, so the
+        // queue keeps those entries
+        const failedEmployees = new Set(chunks.failedIds);
+        const chunkFailures = owners
+            ? Array.from(owners.keys()).filter((id) =>
+                  owners
+                      .get(id)
+                      ?.some((employee) => failedEmployees.has(employee))
+              )
+            : chunks.failedIds;
+        failedIds.push(
+            ...chunkFailures.filter((id) => !failedIds.includes(id))
+        );
+    }
+
+    return {
+        updated,
+        chunks,
+        failed: recordFailures + (chunks?.failed ?? 0),
+        failedIds,
+        signature,
+        durationMs: Date.now() - startTime,
+    };
+}
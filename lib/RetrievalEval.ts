@@ -0,0 +1,299 @@
+/**
+ * Retrieval Evaluation
+ *
+ * Offline measurement of candidate search quality. A fixture lists
+ * natural-language queries with the employees (and optionally skills) a
+ * good search should return; every query is run through searchCandidates
+ * for each provider/scoring setup and scored with recall@k, MRR and nDCG@k.
+ * See scripts/eval-retrieval.ts for the command that seeds a local database
+ * and prints the report.
+ */
+
+import {
+    getEmbeddingConfig,
+    getEmbeddingDimensions,
+    setEmbeddingConfig,
+    type EmbeddingProviderType,
+} from './EmbeddingProvider';
+import { searchCandidates } from './CandidateSearch';
+import { reembedStaleRecords } from './Reembed';
+import { defineVectorIndexes, type QueryRunner } from './VectorSearch';
+import type {
+    EmployeeID,
+    FusionOptions,
+    SemanticSearchQuery,
+    SkillExpansion,
+    SkillID,
+} from '../constants/SkillTypes';
+
+export type EvalQuery = {
+    id: string;
+    query: string;
+    // Relevant results; order doesn't matter
+    expectedEmployees: EmployeeID[];
+    expectedSkills?: SkillID[];
+    filters?: SemanticSearchQuery['filters'];
+};
+
+export type EvalFixture = {
+    description?: string;
+    // Cut-off for recall@k and nDCG@k (default 5)
+    k?: number;
+    queries: EvalQuery[];
+};
+
+// One provider + scoring combination to evaluate
+export type EvalSetup = {
+    provider: EmbeddingProviderType;
+    profile?: string;
+    fusion?: FusionOptions;
+    expansion?: SkillExpansion;
+};
+
+export type RankingMetrics = {
+    recall: number;
+    mrr: number;
+    ndcg: number;
+};
+
+export type EvalQueryResult = {
+    queryId: string;
+    employees: RankingMetrics;
+    skills?: RankingMetrics;
+    // Ranked ids as returned by the search
+    retrievedEmployees: string[];
+    retrievedSkills: string[];
+};
+
+export type EvalSetupReport = {
+    setup: EvalSetup;
+    label: string;
+    k: number;
+    // Means over all queries (skills: over queries that list expected skills)
+    employees: RankingMetrics;
+    skills: RankingMetrics | null;
+    queries: EvalQueryResult[];
+    durationMs: number;
+    // Set when the setup could not run, e.g. the provider is unavailable offline
+    error?: string;
+};
+
+export const DEFAULT_EVAL_K = 5;
+
+// ==========================================
+// METRICS
+// ==========================================
+
+/**
+ * Share of the relevant items found in the first k results
+ */
+export function recallAtK(
+    ranked: string[],
+    relevant: Set<string>,
+    k: number
+): number {
+    if (relevant.size === 0) return 0;
+    const found = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+    return found / relevant.size;
+}
+
+/**
+ * 1 / rank of the first relevant result, 0 when none is returned
+ */
+export function reciprocalRank(
+    ranked: string[],
+    relevant: Set<string>
+): number {
+    const index = ranked.findIndex((id) => relevant.has(id));
+    return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Normalised discounted cumulative gain over the first k results,
+ * with binary relevance
+ */
+export function ndcgAtK(
+    ranked: string[],
+    relevant: Set<string>,
+    k: number
+): number {
+    const gain = (rank: number) => 1 / Math.log2(rank + 2);
+    const dcg = ranked
+        .slice(0, k)
+        .reduce((sum, id, i) => sum + (relevant.has(id) ? gain(i) : 0), 0);
+    let ideal = 0;
+    for (let i = 0; i < Math.min(k, relevant.size); i++) ideal += gain(i);
+    return ideal > 0 ? dcg / ideal : 0;
+}
+
+export function rankingMetrics(
+    ranked: string[],
+    relevant: string[],
+    k: number
+): RankingMetrics {
+    const relevantSet = new Set(relevant.map(String));
+    return {
+        recall: recallAtK(ranked, relevantSet, k),
+        mrr: reciprocalRank(ranked, relevantSet),
+        ndcg: ndcgAtK(ranked, relevantSet, k),
+    };
+}
+
+function meanMetrics(metrics: RankingMetrics[]): RankingMetrics {
+    const mean = (key: keyof RankingMetrics) =>
+        metrics.length > 0
+            ? metrics.reduce((sum, m) => sum + m[key], 0) / metrics.length
+            : 0;
+    return { recall: mean('recall'), mrr: mean('mrr'), ndcg: mean('ndcg') };
+}
+
+// ==========================================
+// RUNNER
+// ==========================================
+
+export function setupLabel(setup: EvalSetup): string {
+    return [
+        setup.provider,
+        setup.profile || 'default',
+        setup.fusion?.method,
+        setup.expansion?.depth !== undefined
+            ? `depth ${setup.expansion.depth}`
+            : undefined,
+    ]
+        .filter(Boolean)
+        .join(' / ');
+}
+
+/**
+ * Switch to the setup's provider and bring the indexes and stored vectors
+ * of the seeded database into its vector space. Failures are not replaced
+ * with mock vectors, so an unavailable provider fails the setup instead of
+ * silently scoring the mock provider.
+ */
+async function prepareProvider(
+    db: QueryRunner,
+    provider: EmbeddingProviderType
+): Promise<void> {
+    setEmbeddingConfig({ provider, failurePolicy: 'strict' });
+    await defineVectorIndexes(db, getEmbeddingDimensions());
+
+    const { failed } = await reembedStaleRecords({ db });
+    if (failed > 0) {
+        throw new Error(`${failed} records could not be embedded`);
+    }
+}
+
+/**
+ * Run every fixture query for one setup
+ */
+export async function evaluateSetup(
+    db: QueryRunner,
+    fixture: EvalFixture,
+    setup: EvalSetup
+): Promise<EvalSetupReport> {
+    const startTime = Date.now();
+    const k = fixture.k ?? DEFAULT_EVAL_K;
+    const report: EvalSetupReport = {
+        setup,
+        label: setupLabel(setup),
+        k,
+        employees: { recall: 0, mrr: 0, ndcg: 0 },
+        skills: null,
+        queries: [],
+        durationMs: 0,
+    };
+
+    try {
+        await prepareProvider(db, setup.provider);
+
+        for (const evalQuery of fixture.queries) {
+            const { candidates } = await searchCandidates(db, {
+                query: evalQuery.query,
+                filters: evalQuery.filters,
+                // Rank deeper than k so MRR sees late hits too
+                limit: Math.max(k, 20),
+                profile: setup.profile,
+                fusion: setup.fusion,
+                expansion: setup.expansion,
+            });
+
+            const retrievedEmployees = candidates.map((c) =>
+                String(c.employee.id)
+            );
+            // Skills ranked by their best relevance across all candidates
+            const skillRelevance = new Map<string, number>();
+            candidates.forEach(({ matchedSkills }) =>
+                matchedSkills.forEach(({ skill, relevance }) => {
+                    const id = String(skill.id);
+                    skillRelevance.set(
+                        id,
+                        Math.max(skillRelevance.get(id) ?? 0, relevance)
+                    );
+                })
+            );
+            const retrievedSkills = Array.from(skillRelevance.entries())
+                .sort((a, b) => b[1] - a[1])
+                .map(([id]) => id);
+
+            report.queries.push({
+                queryId: evalQuery.id,
+                employees: rankingMetrics(
+                    retrievedEmployees,
+                    evalQuery.expectedEmployees,
+                    k
+                ),
+                skills: evalQuery.expectedSkills?.length
+                    ? rankingMetrics(
+                          retrievedSkills,
+                          evalQuery.expectedSkills,
+                          k
+                      )
+                    : undefined,
+                retrievedEmployees,
+                retrievedSkills,
+            });
+        }
+
+        report.employees = meanMetrics(report.queries.map((q) => q.employees));
+        const skillMetrics = report.queries
+            .map((q) => q.skills)
+            .filter((m): m is RankingMetrics => !!m);
+        report.skills =
+            skillMetrics.length > 0 ? meanMetrics(skillMetrics) : null;
+    } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    report.durationMs = Date.now() - startTime;
+    return report;
+}
+
+/**
+ * Evaluate several setups in turn. Setups are grouped by provider so the
+ * database is re-embedded once per provider. The embedding configuration
+ * is restored afterwards.
+ */
+export async function evaluateRetrieval(
+    db: QueryRunner,
+    fixture: EvalFixture,
+    setups: EvalSetup[]
+): Promise<EvalSetupReport[]> {
+    const previousConfig = getEmbeddingConfig();
+    const ordered = setups
+        .map((setup, index) => ({ setup, index }))
+        .sort(
+            (a, b) =>
+                a.setup.provider.localeCompare(b.setup.provider) ||
+                a.index - b.index
+        );
+
+    const reports: EvalSetupReport[] = [];
+    try {
+        for (const { setup } of ordered) {
+            reports.push(await evaluateSetup(db, fixture, setup));
+        }
+    } finally {
+        setEmbeddingConfig(previousConfig);
+    }
+    return reports;
+}
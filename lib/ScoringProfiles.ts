@@ -0,0 +1,109 @@
+/**
+ * Scoring Profiles
+ *
+ * Loads named ranking configurations from the scoring_profile table.
+ * Stored profiles may be partial; every missing value comes from the
+ * default profile below, which mirrors scoring_profile:default.
+ */
+
+import { SurrealInstance } from './Surreal';
+import { DEFAULT_EXPANSION_RELATIONS } from './SkillGraph';
+import type { QueryRunner } from './VectorSearch';
+import type { ScoringProfile } from '../constants/SkillTypes';
+
+export const DEFAULT_SCORING_PROFILE_NAME = 'default';
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+    name: DEFAULT_SCORING_PROFILE_NAME,
+    description: 'Balanced ranking',
+    weights: { graph: 0.6, semantic: 0.4 },
+    bonuses: { certification: 0.1 },
+    thresholds: { skill_relevance: 0.4, semantic_skill_search: 0.5 },
+    project: {
+        coverage_weight: 0.5,
+        proficiency_weight: 0.5,
+        expected_skills: 5,
+        expected_proficiency: 25,
+    },
+    team: {
+        coverage_weight: 0.7,
+        compatibility_weight: 0.3,
+        collaborations_for_max: 3,
+    },
+    expansion: { depth: 1, relations: DEFAULT_EXPANSION_RELATIONS },
+};
+
+type ProfileSection = 'weights' | 'bonuses' | 'thresholds' | 'project' | 'team';
+
+// What a scoring_profile record may hold: any section can be partial or missing
+type StoredScoringProfile = Partial<Omit<ScoringProfile, ProfileSection>> & {
+    [K in ProfileSection]?: Partial<ScoringProfile[K]>;
+};
+
+/**
+ * Fill in a stored (possibly partial) profile with the default values
+ */
+export function resolveScoringProfile(
+    stored: StoredScoringProfile
+): ScoringProfile {
+    const defaults = DEFAULT_SCORING_PROFILE;
+    return {
+        ...defaults,
+        ...stored,
+        name: stored.name || defaults.name,
+        weights: { ...defaults.weights, ...stored.weights },
+        bonuses: { ...defaults.bonuses, ...stored.bonuses },
+        thresholds: { ...defaults.thresholds, ...stored.thresholds },
+        project: { ...defaults.project, ...stored.project },
+        team: { ...defaults.team, ...stored.team },
+        fusion: stored.fusion || defaults.fusion,
+        expansion: { ...defaults.expansion, ...stored.expansion },
+    };
+}
+
+function firstStatement<T>(result: unknown): T[] {
+    if (Array.isArray(result) && Array.isArray(result[0])) {
+        return result[0] as T[];
+    }
+    return [];
+}
+
+/**
+ * Load a scoring profile by name. Unknown names, or a database without the
+ * scoring_profile table, fall back to the default profile.
+ */
+export async function getScoringProfile(
+    name: string = DEFAULT_SCORING_PROFILE_NAME,
+    db: QueryRunner = SurrealInstance
+): Promise<ScoringProfile> {
+    try {
+        const result = await db.query(
+            'SELECT * FROM scoring_profile WHERE name = $name LIMIT 1',
+            { name }
+        );
+        const [stored] = firstStatement<StoredScoringProfile>(result);
+        if (stored) return resolveScoringProfile(stored);
+
+        if (name !== DEFAULT_SCORING_PROFILE_NAME) {
+            console.warn(`Scoring profile "${name}" not found, using default`);
+        }
+    } catch (error) {
+        console.warn('Failed to load scoring profile:', error);
+    }
+    return DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * All stored scoring profiles, with defaults filled in
+ */
+export async function listScoringProfiles(
+    db: QueryRunner = SurrealInstance
+): Promise<ScoringProfile[]> {
+    const result = await db.query(
+        'SELECT * FROM scoring_profile ORDER BY name'
+    );
+    const profiles = firstStatement<StoredScoringProfile>(result).map(
+        resolveScoringProfile
+    );
+    return profiles.length > 0 ? profiles : [DEFAULT_SCORING_PROFILE];
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import Surreal from 'surrealdb';
+import {
+    createSurrealCacheStore,
+    setEmbeddingCacheStore,
+} from './EmbeddingCache';
+
+async function connect(): Promise<Surreal> {
+    const db = new Surreal();
+    const endpoint =
+        process.env.NEXT_PUBLIC_SURREAL_ENDPOINT ?? 'http://localhost:8000/rpc';
+    const namespace = process.env.NEXT_PUBLIC_SURREAL_NAMESPACE ?? 'test';
+    const database = process.env.NEXT_PUBLIC_SURREAL_DATABASE ?? 'test';
+
+    try {
+        await db.connect(endpoint);
+        await db.use({ namespace, database });
+    } catch (error) {
+        await db.close().catch(() => undefined);
+        throw error;
+    }
+    return db;
+}
+
+// Create a root-authenticated SurrealDB connection for API routes.
+// Callers are responsible for closing it.
+export async function getServerDB(): Promise<Surreal> {
+    const db = await connect();
+    try {
+        await db.signin({
+            username: process.env.SURREAL_USER || 'root',
+            password: process.env.SURREAL_PASS || 'root',
+        });
+    } catch (error) {
+        await db.close().catch(() => undefined);
+        throw error;
+    }
+
+    return db;
+}
+
+// Check that a request comes from a signed-in user (token from the
+// Authorization header or the usersession cookie, as in /api/chat-history)
+// before a route writes through the root connection. Answers 401 otherwise;
+// throws when the database is unreachable, for the route's own 500.
+export async function requireCaller(
+    req: NextApiRequest,
+    res: NextApiResponse
+): Promise<boolean> {
+    const token =
+        req.headers.authorization?.replace('Bearer ', '') ||
+        req.cookies?.usersession;
+
+    if (!token) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return false;
+    }
+
+    const db = await connect();
+
+    try {
+        await db.authenticate(token);
+        return true;
+    } catch {
+        res.status(401).json({ error: 'Invalid or expired session' });
+        return false;
+    } finally {
+        await db.close();
+    }
+}
+
+// One long-lived root connection for the embedding cache, opened on first use
+let cacheDB: Promise<Surreal> | null = null;
+
+function getCacheDB(): Promise<Surreal> {
+    if (!cacheDB) {
+        cacheDB = getServerDB();
+        // Reconnect on the next call if this one failed
+        cacheDB.catch(() => {
+            cacheDB = null;
+        });
+    }
+    return cacheDB;
+}
+
+// Everything server-side that talks to the database imports this module, so
+// embeddings generated on the server (API routes, the worker) are cached
+// through the root connection, the only one allowed to write the table.
+setEmbeddingCacheStore(createSurrealCacheStore(getCacheDB, { writable: true }));
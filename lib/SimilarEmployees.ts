@@ -0,0 +1,208 @@
+/**
+ * Similar Employees
+ *
+ * "Who is like this person?": blends embedding closeness with the overlap
+ * of has_skill edges, so people with the same profile but differently
+ * worded bios (or the same bio but different skills) still rank sensibly.
+ */
+
+import { SurrealInstance } from './Surreal';
+import {
+    generateEmbedding,
+    getEmbeddingSignature,
+    isEmbeddingCompatible,
+    type EmbeddingProviderType,
+} from './EmbeddingProvider';
+import { knnSearch, type QueryRunner } from './VectorSearch';
+import { employeeEmbeddingText } from './Reembed';
+import type {
+    Employee,
+    EmployeeID,
+    HasSkillEdge,
+    SimilarEmployee,
+    Skill,
+    SkillOverlapMethod,
+} from '../constants/SkillTypes';
+
+export type SimilarEmployeeOptions = {
+    limit?: number;
+    overlap?: SkillOverlapMethod;
+    // Share of the score from embeddings and from skill overlap
+    weights?: { embedding?: number; skills?: number };
+    // Vector space to compare in; defaults to the configured provider
+    provider?: EmbeddingProviderType;
+    db?: QueryRunner;
+};
+
+export const DEFAULT_SIMILARITY_WEIGHTS = { embedding: 0.5, skills: 0.5 };
+
+type SkillEdge = Pick<HasSkillEdge, 'in' | 'out' | 'proficiency'>;
+
+/**
+ * Jaccard overlap of two skill maps (skill id -> proficiency). The weighted
+ * variant compares proficiencies, so a 5 vs 1 in a shared skill counts less
+ * than 5 vs 5.
+ */
+export function skillOverlap(
+    a: Map<string, number>,
+    b: Map<string, number>,
+    method: SkillOverlapMethod = 'weighted'
+): number {
+    let intersection = 0;
+    let union = 0;
+    const keys = new Set(Array.from(a.keys()).concat(Array.from(b.keys())));
+    keys.forEach((key) => {
+        const x = a.get(key) ?? 0;
+        const y = b.get(key) ?? 0;
+        if (method === 'jaccard') {
+            intersection += x > 0 && y > 0 ? 1 : 0;
+            union += 1;
+        } else {
+            intersection += Math.min(x, y);
+            union += Math.max(x, y);
+        }
+    });
+    return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Colleagues most similar to an employee, best first. Candidates come from
+ * the employee KNN and from anyone sharing at least one skill.
+ */
+export async function findSimilarEmployees(
+    employeeId: EmployeeID,
+    options: SimilarEmployeeOptions = {}
+): Promise<SimilarEmployee[]> {
+    const { limit = 10, overlap = 'weighted', db = SurrealInstance } = options;
+    const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, ...options.weights };
+
+    const result = (await db.query(
+        `
+        LET $target = <record> $employeeId;
+        SELECT * FROM $target;
+        SELECT * OMIT embedding FROM $target->has_skill->skill;
+    `,
+        { employeeId }
+    )) as unknown[];
+    const [target] = (result?.[1] as Employee[]) || [];
+    const targetSkills = (result?.[2] as Skill[]) || [];
+    if (!target) return [];
+    const targetKey = String(target.id);
+
+    // Embedding channel: reuse the stored vector when it's in the current vector space
+    const signature = getEmbeddingSignature(options.provider);
+    const embedding = isEmbeddingCompatible(target, signature)
+        ? (target.embedding as number[])
+        : await generateEmbedding(
+              employeeEmbeddingText(target),
+              signature.provider
+          );
+
+    const k = Math.max(limit * 5, 50);
+    const nearest = (
+        await knnSearch<Employee>('employee', embedding, {
+            k: k + 1,
+            signature,
+            where: 'id != $self',
+            vars: { self: target.id },
+            db,
+        })
+    ).slice(0, k);
+    const similarity = new Map(
+        nearest.map((emp) => [String(emp.id), emp.score])
+    );
+    // Employees outside a full top-k are at most as similar as the k-th neighbour
+    const outsideTopKScore =
+        nearest.length >= k ? nearest[nearest.length - 1].score : 0;
+
+    // Skill channel: every has_skill edge of the target, the nearest
+    // neighbours, and anyone sharing one of the target's skills
+    const edgeResult = (await db.query(
+        `
+        SELECT in, out, proficiency FROM has_skill
+        WHERE in = $target
+            OR in IN $nearest
+            OR in IN (SELECT VALUE in FROM has_skill WHERE out IN $skills);
+    `,
+        {
+            target: target.id,
+            nearest: nearest.map((emp) => emp.id),
+            skills: targetSkills.map((skill) => skill.id),
+        }
+    )) as SkillEdge[][];
+    const skillsByEmployee = new Map<string, Map<string, number>>();
+    const employeeIds = new Map<string, EmployeeID>();
+    (edgeResult?.[0] || []).forEach((edge) => {
+        const key = String(edge.in);
+        employeeIds.set(key, edge.in);
+        const skills = skillsByEmployee.get(key) || new Map<string, number>();
+        skills.set(String(edge.out), edge.proficiency);
+        skillsByEmployee.set(key, skills);
+    });
+    const targetProficiency =
+        skillsByEmployee.get(targetKey) || new Map<string, number>();
+
+    // Load employees found only through shared skills
+    const employees = new Map<string, Employee>(
+        nearest.map(({ score: _score, ...emp }) => [
+            String(emp.id),
+            emp as Employee,
+        ])
+    );
+    const missing = Array.from(employeeIds.entries())
+        .filter(([key]) => key !== targetKey && !employees.has(key))
+        .map(([, id]) => id);
+    if (missing.length > 0) {
+        const loaded = (await db.query('SELECT * OMIT embedding FROM $ids', {
+            ids: missing,
+        })) as Employee[][];
+        (loaded?.[0] || []).forEach((emp) =>
+            employees.set(String(emp.id), emp)
+        );
+    }
+
+    const skillsById = new Map(targetSkills.map((s) => [String(s.id), s]));
+    const totalWeight = weights.embedding + weights.skills || 1;
+
+    return Array.from(employees.values())
+        .filter((employee) => String(employee.id) !== targetKey)
+        .map((employee) => {
+            const id = String(employee.id);
+            const skills =
+                skillsByEmployee.get(id) || new Map<string, number>();
+            const embeddingSimilarity = similarity.get(id) ?? outsideTopKScore;
+            const overlapScore = skillOverlap(
+                targetProficiency,
+                skills,
+                overlap
+            );
+
+            const sharedSkills: SimilarEmployee['sharedSkills'] = [];
+            skills.forEach((proficiency, skillId) => {
+                const skill = skillsById.get(skillId);
+                const referenceProficiency = targetProficiency.get(skillId);
+                if (skill && referenceProficiency !== undefined) {
+                    sharedSkills.push({
+                        skill,
+                        proficiency,
+                        referenceProficiency,
+                    });
+                }
+            });
+
+            return {
+                employee,
+                score:
+                    (embeddingSimilarity * weights.embedding +
+                        overlapScore * weights.skills) /
+                    totalWeight,
+                embeddingSimilarity,
+                skillOverlap: overlapScore,
+                sharedSkills: sharedSkills.sort(
+                    (a, b) => b.referenceProficiency - a.referenceProficiency
+                ),
+            };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canonicalizeSkills, skillMatchKey } from './SkillCanonical';
+import type { Skill, SkillAlias } from '../constants/SkillTypes';
+
+type StoredSkill = Pick<Skill, 'name' | 'deprecated' | 'replaced_by'> & {
+    id: string;
+};
+
+// Answers the catalogue query with the given skills and aliases
+function catalogue(
+    skills: StoredSkill[],
+    aliases: Pick<SkillAlias, 'normalized' | 'skill'>[] = []
+) {
+    return { query: async () => [skills, aliases] };
+}
+
+async function resolve(names: string[], db: ReturnType<typeof catalogue>) {
+    const matches = await canonicalizeSkills(names, {
+        useEmbeddings: false,
+        db,
+    });
+    return matches.map((match) => match.skill && String(match.skill.id));
+}
+
+describe('skillMatchKey', () => {
+    it('drops punctuation, versions and a trailing "js"', () => {
+        assert.equal(skillMatchKey('React.js'), 'react');
+        assert.equal(skillMatchKey('ReactJS'), 'react');
+        assert.equal(skillMatchKey('React 18'), 'react');
+        assert.equal(skillMatchKey('Python 3.11'), 'python');
+        assert.equal(skillMatchKey('Vue 2.x'), 'vue');
+        assert.equal(skillMatchKey('ES6 JavaScript'), 'javascript');
+    });
+
+    it('keeps names that are only qualifiers or symbols', () => {
+        assert.equal(skillMatchKey('JS'), 'js');
+        assert.equal(skillMatchKey('C#'), 'c#');
+        assert.equal(skillMatchKey('C++'), 'c++');
+    });
+
+    it('does not strip "js" from short names', () => {
+        assert.equal(skillMatchKey('Node.js'), 'node');
+        assert.equal(skillMatchKey('EJS'), 'ejs');
+        assert.equal(skillMatchKey('Mojs'), 'mojs');
+    });
+});
+
+describe('canonicalizeSkills replacements', () => {
+    it('follows replaced_by to the end of the chain', async () => {
+        const db = catalogue([
+            {
+                id: 'skill:old',
+                name: 'Old',
+                deprecated: true,
+                replaced_by: 'skill:mid',
+            },
+            {
+                id: 'skill:mid',
+                name: 'Mid',
+                deprecated: true,
+                replaced_by: 'skill:new',
+            },
+            { id: 'skill:new', name: 'New' },
+        ] as StoredSkill[]);
+
+        assert.deepEqual(await resolve(['old', 'Mid', 'new'], db), [
+            'skill:new',
+            'skill:new',
+            'skill:new',
+        ]);
+    });
+
+    it('resolves aliases of a replaced skill to the replacement', async () => {
+        const db = catalogue(
+            [
+                {
+                    id: 'skill:k8s',
+                    name: 'K8s',
+                    deprecated: true,
+                    replaced_by: 'skill:kubernetes',
+                },
+                { id: 'skill:kubernetes', name: 'Kubernetes' },
+            ] as StoredSkill[],
+            [{ normalized: 'kube', skill: 'skill:k8s' }] as Pick<
+                SkillAlias,
+                'normalized' | 'skill'
+            >[]
+        );
+
+        assert.deepEqual(await resolve(['kube'], db), ['skill:kubernetes']);
+    });
+
+    it('matches nothing for a deprecated skill without a replacement', async () => {
+        const db = catalogue([
+            { id: 'skill:flash', name: 'Flash', deprecated: true },
+            {
+                id: 'skill:old',
+                name: 'Old',
+                deprecated: true,
+                replaced_by: 'skill:flash',
+            },
+        ] as StoredSkill[]);
+
+        assert.deepEqual(await resolve(['Flash', 'Old'], db), [null, null]);
+    });
+
+    it('stops at a replacement loop', async () => {
+        const db = catalogue([
+            {
+                id: 'skill:a',
+                name: 'A',
+                deprecated: true,
+                replaced_by: 'skill:b',
+            },
+            {
+                id: 'skill:b',
+                name: 'B',
+                deprecated: true,
+                replaced_by: 'skill:a',
+            },
+        ] as StoredSkill[]);
+
+        assert.deepEqual(await resolve(['A', 'B'], db), [null, null]);
+    });
+
+    it('keeps a replacement that points at a missing skill', async () => {
+        const db = catalogue([
+            { id: 'skill:php', name: 'PHP', replaced_by: 'skill:gone' },
+        ] as StoredSkill[]);
+
+        assert.deepEqual(await resolve(['php'], db), ['skill:php']);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * Skill Canonicalisation
+ *
+ * Maps free-text skill names from chat, team building, resumes and the
+ * Add Employee form onto catalogue skills. Each name is tried against, in
+ * order: skill names (case-insensitive), skill_alias records, a normalised
+ * key with punctuation, versions and qualifiers stripped ("ReactJS",
+ * "Python 3"), and finally the nearest skill embedding. A deprecated skill
+ * with a replacement resolves to the replacement; one without is never matched.
+ */
+
+import { SurrealInstance } from './Surreal';
+import {
+    generateEmbeddings,
+    getEmbeddingSignature,
+    type EmbeddingProviderType,
+} from './EmbeddingProvider';
+import { normalizeSkillName, QUALIFIERS } from './SkillDuplicates';
+import { knnSearch, type QueryRunner } from './VectorSearch';
+import type {
+    CanonicalSkill,
+    Skill,
+    SkillAlias,
+} from '../constants/SkillTypes';
+
+export type CanonicalizeOptions = {
+    // Minimum cosine similarity for an embedding match
+    minSimilarity?: number;
+    // Set to false to stop after the name-based steps
+    useEmbeddings?: boolean;
+    // Vector space for the embedding step; defaults to the configured provider
+    provider?: EmbeddingProviderType;
+    db?: QueryRunner;
+};
+
+export const DEFAULT_CANONICAL_SIMILARITY = 0.8;
+
+type SkillName = Pick<Skill, 'id' | 'name'>;
+
+// "v18", "3.11", "2.x", "ES6", "ES2015"
+const VERSION_PATTERN = /\b(?:v?\d+(?:\.(?:\d+|x))*|es\d+)\b/g;
+
+/**
+ * Key used by the normalised step: lowercase, without versions, qualifier
+ * words or spaces, and without a "js" glued to the end.
+ * "React.js", "ReactJS" and "React 18" all give "react".
+ */
+export function skillMatchKey(name: string): string {
+    const tokens = normalizeSkillName(
+        name.toLowerCase().replace(VERSION_PATTERN, ' ')
+    )
+        .split(' ')
+        .filter(Boolean);
+    const core = tokens.filter((token) => !QUALIFIERS.has(token));
+    const key = (core.length > 0 ? core : tokens).join('');
+    return key.length > 4 && key.endsWith('js') ? key.slice(0, -2) : key;
+}
+
+type Catalogue = {
+    // Deprecated skills map to their replacement, and are left out without one
+    byId: Map<string, SkillName>;
+    byName: Map<string, SkillName>;
+    byAlias: Map<string, SkillName>;
+    // null marks a key shared by several skills, which we won't guess between
+    byKey: Map<string, SkillName | null>;
+};
+
+async function loadCatalogue(db: QueryRunner): Promise<Catalogue> {
+    const result = (await db.query(`
+        SELECT id, name, deprecated, replaced_by FROM skill;
+        SELECT normalized, skill FROM skill_alias;
+    `)) as [
+        Array<SkillName & Pick<Skill, 'deprecated' | 'replaced_by'>>,
+        Array<Pick<SkillAlias, 'normalized' | 'skill'>>
+    ];
+    const skills = Array.isArray(result?.[0]) ? result[0] : [];
+    const aliases = Array.isArray(result?.[1]) ? result[1] : [];
+
+    const stored = new Map(skills.map((skill) => [String(skill.id), skill]));
+    // Follow replaced_by to the end of the chain; a loop stops where it
+    // closes. A chain ending in a deprecated skill resolves to nothing.
+    const current = (
+        skill: SkillName & Pick<Skill, 'deprecated' | 'replaced_by'>
+    ): SkillName | null => {
+        const seen = new Set<string>();
+        let target = skill;
+        while (target.replaced_by && !seen.has(String(target.id))) {
+            seen.add(String(target.id));
+            const next = stored.get(String(target.replaced_by));
+            if (!next) break;
+            target = next;
+        }
+        return target.deprecated ? null : { id: target.id, name: target.name };
+    };
+
+    const byId = new Map<string, SkillName>();
+    const byName = new Map<string, SkillName>();
+    const byKey = new Map<string, SkillName | null>();
+    skills.forEach((skill) => {
+        const target = current(skill);
+        if (!target) return;
+        byId.set(String(skill.id), target);
+        byName.set(skill.name.trim().toLowerCase(), target);
+        const key = skillMatchKey(skill.name);
+        const shared = byKey.get(key);
+        byKey.set(
+            key,
+            byKey.has(key) && String(shared?.id) !== String(target.id)
+                ? null
+                : target
+        );
+    });
+
+    const byAlias = new Map<string, SkillName>();
+    aliases.forEach(({ normalized, skill }) => {
+        const target = byId.get(String(skill));
+        if (target) byAlias.set(normalized, target);
+    });
+
+    return { byId, byName, byAlias, byKey };
+}
+
+function matchByName(
+    input: string,
+    catalogue: Catalogue
+): CanonicalSkill | null {
+    const exact = catalogue.byName.get(input.trim().toLowerCase());
+    if (exact) return { input, skill: exact, method: 'exact', score: 1 };
+
+    const alias = catalogue.byAlias.get(normalizeSkillName(input));
+    if (alias) return { input, skill: alias, method: 'alias', score: 1 };
+
+    const key = skillMatchKey(input);
+    const normalized = key ? catalogue.byKey.get(key) : null;
+    if (normalized) {
+        return { input, skill: normalized, method: 'normalized', score: 1 };
+    }
+
+    return null;
+}
+
+/**
+ * Resolve each name to a catalogue skill, in input order. Names that match
+ * nothing come back with `skill: null`; an unavailable embedding provider
+ * only skips the last step.
+ */
+export async function canonicalizeSkills(
+    names: string[],
+    options: CanonicalizeOptions = {}
+): Promise<CanonicalSkill[]> {
+    const {
+        minSimilarity = DEFAULT_CANONICAL_SIMILARITY,
+        useEmbeddings = true,
+        provider,
+        db = SurrealInstance,
+    } = options;
+    if (names.length === 0) return [];
+
+    const catalogue = await loadCatalogue(db);
+    const matches = names.map(
+        (input): CanonicalSkill =>
+            matchByName(input, catalogue) || {
+                input,
+                skill: null,
+                method: null,
+                score: 0,
+            }
+    );
+
+    // Mock vectors are hashes of the text and say nothing about meaning
+    const signature = getEmbeddingSignature(provider);
+    const unmatched = matches.filter(
+        (match) => !match.skill && match.input.trim()
+    );
+    if (!useEmbeddings || signature.provider === 'mock' || !unmatched.length) {
+        return matches;
+    }
+
+    try {
+        const embeddings = await generateEmbeddings(
+            unmatched.map((match) => match.input),
+            signature.provider
+        );
+        const nearest = await Promise.all(
+            embeddings.map((embedding) =>
+                knnSearch<SkillName>('skill', embedding, {
+                    k: 1,
+                    signature,
+                    where: 'deprecated != true',
+                    db,
+                })
+            )
+        );
+        unmatched.forEach((match, i) => {
+            const hit = nearest[i][0];
+            if (hit && hit.score >= minSimilarity) {
+                match.skill = catalogue.byId.get(String(hit.id)) || {
+                    id: hit.id,
+                    name: hit.name,
+                };
+                match.method = 'embedding';
+                match.score = hit.score;
+            }
+        });
+    } catch (error) {
+        console.warn('Embedding skill match skipped:', error);
+    }
+
+    return matches;
+}
@@ -0,0 +1,838 @@
+/**
+ * Skill Catalogue
+ *
+ * Import and export of the skill catalogue and its related_to graph as JSON,
+ * CSV (skills.csv + relations.csv) or an ESCO-style layout (skills,
+ * broaderRelationsSkillPillar and skillSkillRelations CSVs). O*NET
+ * technology-skill rows ("Example", "Commodity Title") are read as skills.
+ *
+ * Imports are diffed against the database first and only add or update.
+ * Skills, aliases and relations missing from the files are kept, and
+ * conflicting entries are reported and skipped.
+ */
+
+import { RecordId } from 'surrealdb';
+import { SurrealInstance } from './Surreal';
+import { parseCsv, toCsv, type CsvRow } from './Csv';
+import { canonicalizeSkills } from './SkillCanonical';
+import { normalizeSkillName } from './SkillDuplicates';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    CatalogueConflict,
+    CatalogueDiff,
+    CatalogueFile,
+    CatalogueFormat,
+    CatalogueImportResult,
+    CatalogueRelation,
+    CatalogueSkill,
+    RelatedToEdge,
+    Skill,
+    SkillAlias,
+    SkillCatalogue,
+    SkillID,
+    SkillRelationType,
+} from '../constants/SkillTypes';
+
+const RELATION_TYPES: SkillRelationType[] = [
+    'parent',
+    'child',
+    'synonym',
+    'prerequisite',
+    'commonly_used_with',
+    'alternative',
+    'related',
+];
+
+const DEFAULT_CATEGORY = 'General';
+const DEFAULT_SIMILARITY = 0.5;
+
+// List separator inside a CSV cell (tags, aliases)
+const LIST_SEPARATOR = '|';
+
+// ==========================================
+// KEYS
+// ==========================================
+
+/**
+ * Record id without the table: skill:python -> "python",
+ * skill:⟨node.js⟩ -> "node.js"
+ */
+export function skillKey(id: string | RecordId): string {
+    if (id instanceof RecordId) return String(id.id);
+    return String(id)
+        .replace(/^skill:/, '')
+        .replace(/^⟨(.*)⟩$|^`(.*)`$/, '$1$2');
+}
+
+// Key for rows without one: "Machine Learning" -> "machine_learning"
+function keyFromName(name: string): string {
+    return normalizeSkillName(name).replace(/ /g, '_');
+}
+
+// ESCO concept URIs: keep the last path segment; our own export writes urn:skill:<key>
+const ESCO_URN = 'urn:skill:';
+function keyFromUri(uri: string): string {
+    const trimmed = uri.trim();
+    if (trimmed.startsWith(ESCO_URN)) return trimmed.slice(ESCO_URN.length);
+    return trimmed.replace(/\/+$/, '').split('/').pop() || trimmed;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+const splitList = (value: string | undefined, separator: string | RegExp) =>
+    (value || '')
+        .split(separator)
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+function toRelationType(value: string): SkillRelationType | null {
+    const type = value.trim().toLowerCase();
+    // ESCO skill-skill relations
+    if (type === 'essential') return 'prerequisite';
+    if (type === 'optional') return 'commonly_used_with';
+    return RELATION_TYPES.includes(type as SkillRelationType)
+        ? (type as SkillRelationType)
+        : null;
+}
+
+function toSimilarity(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const similarity = Number(value);
+    return Number.isFinite(similarity)
+        ? Math.max(0, Math.min(1, similarity))
+        : undefined;
+}
+
+function parseJson(
+    file: CatalogueFile,
+    catalogue: SkillCatalogue,
+    warnings: string[]
+) {
+    const data = JSON.parse(file.content) as
+        | Partial<{ skills: unknown[]; relations: unknown[] }>
+        | unknown[];
+    const skills = Array.isArray(data) ? data : data.skills || [];
+    const relations = Array.isArray(data) ? [] : data.relations || [];
+
+    skills.forEach((entry, i) => {
+        const raw = entry as Record<string, unknown>;
+        const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+        if (!name) {
+            warnings.push(`${file.name}: skill ${i + 1} has no name`);
+            return;
+        }
+        const key = raw.key ?? raw.id;
+        catalogue.skills.push({
+            key: key ? skillKey(String(key)) : keyFromName(name),
+            name,
+            category: String(raw.category || DEFAULT_CATEGORY),
+            description: raw.description ? String(raw.description) : undefined,
+            tags: Array.isArray(raw.tags) ? raw.tags.map(String) : undefined,
+            aliases: Array.isArray(raw.aliases)
+                ? raw.aliases.map(String)
+                : undefined,
+        });
+    });
+
+    relations.forEach((entry, i) => {
+        const raw = entry as Record<string, unknown>;
+        const type = toRelationType(String(raw?.type || 'related'));
+        if (!raw?.from || !raw?.to || !type) {
+            warnings.push(
+                `${file.name}: relation ${
+                    i + 1
+                } is incomplete or has an unknown type`
+            );
+            return;
+        }
+        catalogue.relations.push({
+            from: skillKey(String(raw.from)),
+            to: skillKey(String(raw.to)),
+            type,
+            similarity: toSimilarity(raw.similarity ?? raw.similarity_score),
+        });
+    });
+}
+
+function parseSkillRows(
+    file: CatalogueFile,
+    rows: CsvRow[],
+    catalogue: SkillCatalogue,
+    warnings: string[]
+) {
+    rows.forEach((row, i) => {
+        // Our columns, ESCO (preferredLabel, altLabels) or O*NET (Example, Commodity Title)
+        const name = (
+            row.name ||
+            row.preferredLabel ||
+            row.Example ||
+            ''
+        ).trim();
+        if (!name) {
+            warnings.push(`${file.name}: row ${i + 2} has no skill name`);
+            return;
+        }
+        const key = row.id
+            ? skillKey(row.id)
+            : row.conceptUri
+            ? keyFromUri(row.conceptUri)
+            : keyFromName(name);
+        catalogue.skills.push({
+            key,
+            name,
+            category: (
+                row.category ||
+                row['Commodity Title'] ||
+                DEFAULT_CATEGORY
+            ).trim(),
+            description: row.description?.trim() || undefined,
+            tags:
+                row.tags !== undefined
+                    ? splitList(row.tags, LIST_SEPARATOR)
+                    : undefined,
+            aliases:
+                row.altLabels !== undefined
+                    ? splitList(row.altLabels, /\r?\n|\|/)
+                    : row.aliases !== undefined
+                    ? splitList(row.aliases, LIST_SEPARATOR)
+                    : undefined,
+        });
+    });
+}
+
+function pushRelation(
+    file: CatalogueFile,
+    line: number,
+    relation: {
+        from?: string;
+        to?: string;
+        type: SkillRelationType | null;
+        similarity?: number;
+    },
+    catalogue: SkillCatalogue,
+    warnings: string[]
+) {
+    const { from, to, type, similarity } = relation;
+    if (!from || !to || !type) {
+        warnings.push(
+            `${file.name}: row ${line} is incomplete or has an unknown relation type`
+        );
+        return;
+    }
+    catalogue.relations.push({ from, to, type, similarity });
+}
+
+/**
+ * Read catalogue files of any supported format into one catalogue. Each
+ * file's kind is detected from its content and CSV header, so a JSON export
+ * and ESCO CSVs can be imported together.
+ */
+export function parseCatalogueFiles(files: CatalogueFile[]): {
+    catalogue: SkillCatalogue;
+    warnings: string[];
+} {
+    const catalogue: SkillCatalogue = { skills: [], relations: [] };
+    const warnings: string[] = [];
+
+    files.forEach((file) => {
+        const content = file.content.trim();
+        if (content.startsWith('{') || content.startsWith('[')) {
+            try {
+                parseJson(file, catalogue, warnings);
+            } catch (error) {
+                warnings.push(
+                    `${file.name}: invalid JSON (${
+                        error instanceof Error ? error.message : error
+                    })`
+                );
+            }
+            return;
+        }
+
+        const { headers, rows } = parseCsv(file.content);
+        const has = (header: string) => headers.includes(header);
+
+        if (has('broaderUri')) {
+            // ESCO: the concept's broader skill is its parent
+            rows.forEach((row, i) =>
+                pushRelation(
+                    file,
+                    i + 2,
+                    {
+                        from: row.conceptUri && keyFromUri(row.conceptUri),
+                        to: row.broaderUri && keyFromUri(row.broaderUri),
+                        type: 'parent',
+                    },
+                    catalogue,
+                    warnings
+                )
+            );
+        } else if (has('relatedSkillUri')) {
+            rows.forEach((row, i) =>
+                pushRelation(
+                    file,
+                    i + 2,
+                    {
+                        from:
+                            row.originalSkillUri &&
+                            keyFromUri(row.originalSkillUri),
+                        to:
+                            row.relatedSkillUri &&
+                            keyFromUri(row.relatedSkillUri),
+                        type: toRelationType(row.relationType || 'related'),
+                        similarity: toSimilarity(row.similarity),
+                    },
+                    catalogue,
+                    warnings
+                )
+            );
+        } else if (has('from') && has('to')) {
+            rows.forEach((row, i) =>
+                pushRelation(
+                    file,
+                    i + 2,
+                    {
+                        from: row.from && skillKey(row.from),
+                        to: row.to && skillKey(row.to),
+                        type: toRelationType(row.type || 'related'),
+                        similarity: toSimilarity(row.similarity),
+                    },
+                    catalogue,
+                    warnings
+                )
+            );
+        } else if (has('name') || has('preferredLabel') || has('Example')) {
+            parseSkillRows(file, rows, catalogue, warnings);
+        } else {
+            warnings.push(
+                `${file.name}: unrecognised columns (${
+                    headers.join(', ') || 'none'
+                })`
+            );
+        }
+    });
+
+    return { catalogue, warnings };
+}
+
+// ==========================================
+// SERIALISATION
+// ==========================================
+
+const SKILL_CSV_HEADERS = [
+    'id',
+    'name',
+    'category',
+    'description',
+    'tags',
+    'aliases',
+];
+const RELATION_CSV_HEADERS = ['from', 'to', 'type', 'similarity'];
+const ESCO_SKILL_HEADERS = [
+    'conceptType',
+    'conceptUri',
+    'skillType',
+    'preferredLabel',
+    'altLabels',
+    'description',
+    'category',
+];
+const ESCO_BROADER_HEADERS = [
+    'conceptType',
+    'conceptUri',
+    'broaderType',
+    'broaderUri',
+];
+const ESCO_RELATION_HEADERS = [
+    'originalSkillUri',
+    'originalSkillType',
+    'relationType',
+    'skillType',
+    'relatedSkillUri',
+    'similarity',
+];
+const ESCO_CONCEPT = 'KnowledgeSkillCompetence';
+const ESCO_SKILL_TYPE = 'skill/competence';
+
+/**
+ * Files for a catalogue in the given format, ready to download
+ */
+export function serializeCatalogue(
+    catalogue: SkillCatalogue,
+    format: CatalogueFormat
+): CatalogueFile[] {
+    const similarity = (relation: CatalogueRelation) =>
+        relation.similarity === undefined ? '' : String(relation.similarity);
+
+    if (format === 'json') {
+        return [
+            {
+                name: 'skills.json',
+                content: JSON.stringify(catalogue, null, 2),
+            },
+        ];
+    }
+
+    if (format === 'csv') {
+        return [
+            {
+                name: 'skills.csv',
+                content: toCsv(
+                    SKILL_CSV_HEADERS,
+                    catalogue.skills.map((skill) => ({
+                        id: skill.key,
+                        name: skill.name,
+                        category: skill.category,
+                        description: skill.description || '',
+                        tags: (skill.tags || []).join(LIST_SEPARATOR),
+                        aliases: (skill.aliases || []).join(LIST_SEPARATOR),
+                    }))
+                ),
+            },
+            {
+                name: 'relations.csv',
+                content: toCsv(
+                    RELATION_CSV_HEADERS,
+                    catalogue.relations.map((relation) => ({
+                        from: relation.from,
+                        to: relation.to,
+                        type: relation.type,
+                        similarity: similarity(relation),
+                    }))
+                ),
+            },
+        ];
+    }
+
+    // ESCO has no child edges; they are written as the child's broader concept
+    const uri = (key: string) => `${ESCO_URN}${key}`;
+    const broader = catalogue.relations
+        .filter(({ type }) => type === 'parent' || type === 'child')
+        .map(({ from, to, type }) =>
+            type === 'parent'
+                ? { child: from, parent: to }
+                : { child: to, parent: from }
+        );
+    const others = catalogue.relations.filter(
+        ({ type }) => type !== 'parent' && type !== 'child'
+    );
+    const escoType = (type: SkillRelationType) =>
+        type === 'prerequisite'
+            ? 'essential'
+            : type === 'commonly_used_with'
+            ? 'optional'
+            : type;
+
+    return [
+        {
+            name: 'skills_en.csv',
+            content: toCsv(
+                ESCO_SKILL_HEADERS,
+                catalogue.skills.map((skill) => ({
+                    conceptType: ESCO_CONCEPT,
+                    conceptUri: uri(skill.key),
+                    skillType: ESCO_SKILL_TYPE,
+                    preferredLabel: skill.name,
+                    altLabels: (skill.aliases || []).join('\n'),
+                    description: skill.description || '',
+                    category: skill.category,
+                }))
+            ),
+        },
+        {
+            name: 'broaderRelationsSkillPillar.csv',
+            content: toCsv(
+                ESCO_BROADER_HEADERS,
+                broader.map(({ child, parent }) => ({
+                    conceptType: ESCO_CONCEPT,
+                    conceptUri: uri(child),
+                    broaderType: ESCO_CONCEPT,
+                    broaderUri: uri(parent),
+                }))
+            ),
+        },
+        {
+            name: 'skillSkillRelations.csv',
+            content: toCsv(
+                ESCO_RELATION_HEADERS,
+                others.map((relation) => ({
+                    originalSkillUri: uri(relation.from),
+                    originalSkillType: ESCO_SKILL_TYPE,
+                    relationType: escoType(relation.type),
+                    skillType: ESCO_SKILL_TYPE,
+                    relatedSkillUri: uri(relation.to),
+                    similarity: similarity(relation),
+                }))
+            ),
+        },
+    ];
+}
+
+// ==========================================
+// DATABASE
+// ==========================================
+
+type StoredSkill = Pick<
+    Skill,
+    'id' | 'name' | 'category' | 'description' | 'tags'
+>;
+type StoredRelation = Pick<
+    RelatedToEdge,
+    'id' | 'in' | 'out' | 'type' | 'similarity_score' | 'source'
+>;
+
+async function loadStored(db: QueryRunner) {
+    const result = (await db.query(`
+        SELECT id, name, category, description, tags FROM skill ORDER BY name;
+        SELECT alias, normalized, skill FROM skill_alias;
+        SELECT id, in, out, type, similarity_score, source FROM related_to;
+    `)) as [
+        StoredSkill[],
+        Pick<SkillAlias, 'alias' | 'normalized' | 'skill'>[],
+        StoredRelation[]
+    ];
+    const rows = <T>(value: T[] | undefined) =>
+        Array.isArray(value) ? value : [];
+    return {
+        skills: rows(result?.[0]),
+        aliases: rows(result?.[1]),
+        relations: rows(result?.[2]),
+    };
+}
+
+/**
+ * The catalogue as stored. Inferred co-occurrence edges are left out unless
+ * asked for, since they are recomputed from the data.
+ */
+export async function exportCatalogue(
+    options: { includeInferred?: boolean; db?: QueryRunner } = {}
+): Promise<SkillCatalogue> {
+    const { includeInferred = false, db = SurrealInstance } = options;
+    const stored = await loadStored(db);
+
+    const aliasesBySkill = new Map<string, string[]>();
+    stored.aliases.forEach(({ alias, skill }) => {
+        aliasesBySkill.set(String(skill), [
+            ...(aliasesBySkill.get(String(skill)) || []),
+            alias,
+        ]);
+    });
+
+    return {
+        skills: stored.skills.map((skill) => ({
+            key: skillKey(skill.id),
+            name: skill.name,
+            category: skill.category,
+            description: skill.description || undefined,
+            tags: skill.tags && skill.tags.length > 0 ? skill.tags : undefined,
+            aliases: aliasesBySkill.get(String(skill.id)),
+        })),
+        relations: stored.relations
+            .filter((edge) => includeInferred || edge.source !== 'inferred')
+            .map((edge) => ({
+                from: skillKey(edge.in),
+                to: skillKey(edge.out),
+                type: edge.type,
+                similarity: edge.similarity_score,
+            })),
+    };
+}
+
+const sameList = (a: string[] = [], b: string[] = []) =>
+    a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Diff files against the database and, unless dryRun, apply the additions
+ * and changes in one transaction. Conflicting entries are never applied.
+ */
+export async function importCatalogue(
+    files: CatalogueFile[],
+    options: { dryRun?: boolean; db?: QueryRunner } = {}
+): Promise<CatalogueImportResult> {
+    const { dryRun = true, db = SurrealInstance } = options;
+    const { catalogue, warnings } = parseCatalogueFiles(files);
+    const stored = await loadStored(db);
+
+    const byKey = new Map(
+        stored.skills.map((skill) => [skillKey(skill.id), skill])
+    );
+    const byName = new Map(
+        stored.skills.map((skill) => [skill.name.trim().toLowerCase(), skill])
+    );
+    const conflicts: CatalogueConflict[] = [];
+
+    // Incoming key -> record the key's relations attach to
+    const resolved = new Map<string, RecordId | SkillID>();
+    stored.skills.forEach((skill) =>
+        resolved.set(skillKey(skill.id), skill.id)
+    );
+
+    const diff: CatalogueDiff = {
+        addedSkills: [],
+        changedSkills: [],
+        unchangedSkills: 0,
+        addedAliases: [],
+        addedRelations: [],
+        changedRelations: [],
+        unchangedRelations: 0,
+        conflicts,
+        warnings,
+    };
+    const updates: Array<{ id: SkillID; fields: Partial<StoredSkill> }> = [];
+    const aliasTargets: Array<{
+        skill: CatalogueSkill;
+        id: RecordId | SkillID;
+    }> = [];
+
+    // Skills matching nothing by key or name may still be a spelling of an existing one
+    const unmatched: CatalogueSkill[] = [];
+    // Incoming key -> lowercase name; O*NET repeats a skill once per occupation
+    const seen = new Map<string, string>();
+    const seenNames = new Set<string>();
+
+    catalogue.skills.forEach((skill) => {
+        const nameKey = skill.name.toLowerCase();
+        if (seen.get(skill.key) === nameKey) return;
+        if (seen.has(skill.key) || seenNames.has(nameKey)) {
+            conflicts.push({
+                kind: 'duplicate',
+                message: `"${skill.name}" (${skill.key}) appears more than once in the import`,
+            });
+            return;
+        }
+        seen.set(skill.key, nameKey);
+        seenNames.add(nameKey);
+
+        const existing = byKey.get(skill.key) || byName.get(nameKey);
+        const named = byName.get(nameKey);
+        if (existing && named && String(named.id) !== String(existing.id)) {
+            conflicts.push({
+                kind: 'name_taken',
+                message: `Renaming ${skill.key} to "${
+                    skill.name
+                }" clashes with existing skill ${skillKey(named.id)}`,
+            });
+            return;
+        }
+        if (!existing) {
+            unmatched.push(skill);
+            return;
+        }
+
+        resolved.set(skill.key, existing.id);
+        aliasTargets.push({ skill, id: existing.id });
+
+        const changes: CatalogueDiff['changedSkills'][number]['changes'] = [];
+        const fields: Partial<StoredSkill> = {};
+        if (skill.name !== existing.name) {
+            changes.push({
+                field: 'name',
+                before: existing.name,
+                after: skill.name,
+            });
+            fields.name = skill.name;
+        }
+        if (skill.category !== existing.category) {
+            changes.push({
+                field: 'category',
+                before: existing.category,
+                after: skill.category,
+            });
+            fields.category = skill.category;
+        }
+        if (
+            skill.description !== undefined &&
+            skill.description !== (existing.description || undefined)
+        ) {
+            changes.push({
+                field: 'description',
+                before: existing.description,
+                after: skill.description,
+            });
+            fields.description = skill.description;
+        }
+        if (skill.tags !== undefined && !sameList(skill.tags, existing.tags)) {
+            changes.push({
+                field: 'tags',
+                before: existing.tags || [],
+                after: skill.tags,
+            });
+            fields.tags = skill.tags;
+        }
+
+        if (changes.length > 0) {
+            diff.changedSkills.push({
+                key: skillKey(existing.id),
+                name: skill.name,
+                changes,
+            });
+            updates.push({ id: existing.id, fields });
+        } else {
+            diff.unchangedSkills++;
+        }
+    });
+
+    const similar = await canonicalizeSkills(
+        unmatched.map((skill) => skill.name),
+        { useEmbeddings: false, db }
+    );
+    const creates: Array<{ id: RecordId; skill: CatalogueSkill }> = [];
+    unmatched.forEach((skill, i) => {
+        const match = similar[i];
+        if (match?.skill) {
+            // Relations still attach to the existing skill; the new one isn't created
+            resolved.set(skill.key, match.skill.id);
+            conflicts.push({
+                kind: 'similar_name',
+                message: `"${skill.name}" looks like existing skill "${match.skill.name}" (${match.method} match); add it as an alias or rename it`,
+            });
+            return;
+        }
+        const id = new RecordId('skill', skill.key);
+        resolved.set(skill.key, id);
+        creates.push({ id, skill });
+        aliasTargets.push({ skill, id });
+        diff.addedSkills.push(skill);
+    });
+
+    // Aliases: new spellings only, never re-pointed from another skill
+    const aliasOwner = new Map(
+        stored.aliases.map((alias) => [alias.normalized, alias.skill])
+    );
+    const aliases: Array<{
+        alias: string;
+        normalized: string;
+        skill: RecordId | SkillID;
+    }> = [];
+    aliasTargets.forEach(({ skill, id }) => {
+        (skill.aliases || []).forEach((alias) => {
+            const normalized = normalizeSkillName(alias);
+            const owner = aliasOwner.get(normalized);
+            if (!normalized || normalized === normalizeSkillName(skill.name))
+                return;
+            if (owner !== undefined) {
+                if (String(owner) !== String(id)) {
+                    conflicts.push({
+                        kind: 'alias_taken',
+                        message: `Alias "${alias}" of "${
+                            skill.name
+                        }" already belongs to ${skillKey(owner)}`,
+                    });
+                }
+                return;
+            }
+            aliasOwner.set(normalized, id as SkillID);
+            aliases.push({ alias, normalized, skill: id });
+            diff.addedAliases.push({ alias, skill: skill.name });
+        });
+    });
+
+    // Relations, matched on (from, to, type)
+    const storedRelations = new Map(
+        stored.relations.map((edge) => [
+            `${String(edge.in)}|${String(edge.out)}|${edge.type}`,
+            edge,
+        ])
+    );
+    const relationCreates: Array<{
+        in: RecordId | SkillID;
+        out: RecordId | SkillID;
+        type: SkillRelationType;
+        similarity: number;
+    }> = [];
+    const relationUpdates: Array<{ id: string; similarity: number }> = [];
+    const seenRelations = new Set<string>();
+
+    catalogue.relations.forEach((relation) => {
+        const from = resolved.get(relation.from);
+        const to = resolved.get(relation.to);
+        if (!from || !to) {
+            conflicts.push({
+                kind: 'unknown_skill',
+                message: `Relation ${relation.from} -${relation.type}-> ${relation.to} refers to a skill that is neither imported nor stored`,
+            });
+            return;
+        }
+        const key = `${String(from)}|${String(to)}|${relation.type}`;
+        if (String(from) === String(to) || seenRelations.has(key)) return;
+        seenRelations.add(key);
+
+        const existing = storedRelations.get(key);
+        const similarity =
+            relation.similarity ??
+            existing?.similarity_score ??
+            DEFAULT_SIMILARITY;
+        if (!existing) {
+            relationCreates.push({
+                in: from,
+                out: to,
+                type: relation.type,
+                similarity,
+            });
+            diff.addedRelations.push({ ...relation, similarity });
+        } else if (
+            existing.similarity_score !== similarity ||
+            existing.source === 'inferred'
+        ) {
+            relationUpdates.push({ id: existing.id, similarity });
+            diff.changedRelations.push({
+                ...relation,
+                similarity,
+                before: existing.similarity_score,
+            });
+        } else {
+            diff.unchangedRelations++;
+        }
+    });
+
+    const hasChanges =
+        creates.length ||
+        updates.length ||
+        aliases.length ||
+        relationCreates.length ||
+        relationUpdates.length;
+    if (!dryRun && hasChanges) {
+        await db.query(
+            `
+            BEGIN TRANSACTION;
+            FOR $entry IN $creates {
+                CREATE $entry.id CONTENT {
+                    name: $entry.skill.name,
+                    category: $entry.skill.category,
+                    description: $entry.skill.description,
+                    tags: $entry.skill.tags OR []
+                };
+            };
+            FOR $entry IN $updates {
+                UPDATE $entry.id MERGE $entry.fields;
+            };
+            FOR $alias IN $aliases {
+                UPSERT type::thing("skill_alias", $alias.normalized) SET
+                    alias = $alias.alias,
+                    normalized = $alias.normalized,
+                    skill = $alias.skill,
+                    source = "manual";
+            };
+            FOR $edge IN $relationCreates {
+                LET $from = $edge.in;
+                LET $to = $edge.out;
+                RELATE $from->related_to->$to SET
+                    type = $edge.type,
+                    similarity_score = $edge.similarity,
+                    source = "curated";
+            };
+            FOR $edge IN $relationUpdates {
+                UPDATE $edge.id SET
+                    similarity_score = $edge.similarity,
+                    source = "curated";
+            };
+            COMMIT TRANSACTION;
+        `,
+            { creates, updates, aliases, relationCreates, relationUpdates }
+        );
+    }
+
+    return { diff, applied: !dryRun && !!hasChanges };
+}
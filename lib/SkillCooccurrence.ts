@@ -0,0 +1,237 @@
+/**
+ * Skill Co-occurrence
+ *
+ * Infers related_to edges of type commonly_used_with from how often two
+ * skills appear together, counting each employee's skills and each
+ * project's required skills as one basket. Pairs are scored by Jaccard or
+ * normalised PMI. Inferred edges are marked `source = "inferred"`, so a rerun
+ * can update or remove them. Pairs that already have a curated edge are
+ * never touched.
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    CooccurrenceMetric,
+    InferredSkillRelation,
+    RelatedToEdge,
+    Skill,
+    SkillID,
+    SkillRelationInferenceResult,
+} from '../constants/SkillTypes';
+
+export type CooccurrenceOptions = {
+    metric?: CooccurrenceMetric;
+    // Minimum score (0-1) for an edge to be created or kept
+    threshold?: number;
+    // Minimum number of baskets having both skills
+    minSupport?: number;
+    // Report what would change without writing
+    dryRun?: boolean;
+    db?: QueryRunner;
+};
+
+export const DEFAULT_COOCCURRENCE_METRIC: CooccurrenceMetric = 'jaccard';
+export const DEFAULT_COOCCURRENCE_THRESHOLD = 0.3;
+export const DEFAULT_MIN_SUPPORT = 2;
+
+type Basket = { skills: SkillID[] };
+
+type PairStats = Pick<
+    InferredSkillRelation,
+    'in' | 'out' | 'support' | 'jaccard' | 'npmi'
+>;
+
+const pairKey = (a: SkillID, b: SkillID) =>
+    [String(a), String(b)].sort().join('|');
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Jaccard and normalised PMI for every pair of skills sharing a basket
+ */
+export function cooccurrenceStats(baskets: Basket[]): PairStats[] {
+    const counted = baskets
+        .map(({ skills }) =>
+            Array.from(
+                new Map((skills || []).map((id) => [String(id), id])).values()
+            )
+        )
+        .filter((skills) => skills.length > 0);
+    const total = counted.length;
+
+    const skillCounts = new Map<string, number>();
+    const pairs = new Map<string, { a: SkillID; b: SkillID; count: number }>();
+    counted.forEach((skills) => {
+        skills.forEach((id, i) => {
+            skillCounts.set(String(id), (skillCounts.get(String(id)) || 0) + 1);
+            skills.slice(i + 1).forEach((other) => {
+                const key = pairKey(id, other);
+                const [a, b] =
+                    String(id) < String(other) ? [id, other] : [other, id];
+                const pair = pairs.get(key) || { a, b, count: 0 };
+                pair.count++;
+                pairs.set(key, pair);
+            });
+        });
+    });
+
+    return Array.from(pairs.values()).map(({ a, b, count }) => {
+        const countA = skillCounts.get(String(a)) || 0;
+        const countB = skillCounts.get(String(b)) || 0;
+        const pAB = count / total;
+        // Two skills that are in every basket together are perfectly associated
+        const npmi =
+            pAB === 1
+                ? 1
+                : Math.log(pAB / ((countA / total) * (countB / total))) /
+                  -Math.log(pAB);
+        return {
+            in: a,
+            out: b,
+            support: count,
+            jaccard: round(count / (countA + countB - count)),
+            npmi: round(npmi),
+        };
+    });
+}
+
+type LoadedGraph = {
+    baskets: Basket[];
+    names: Map<string, string>;
+    edges: Array<Pick<RelatedToEdge, 'id' | 'in' | 'out' | 'type' | 'source'>>;
+};
+
+async function loadGraph(db: QueryRunner): Promise<LoadedGraph> {
+    const result = (await db.query(`
+        SELECT ->has_skill->skill AS skills FROM employee;
+        SELECT ->requires_skill->skill AS skills FROM project;
+        SELECT id, name FROM skill;
+        SELECT id, in, out, type, source FROM related_to;
+    `)) as [
+        Basket[],
+        Basket[],
+        Pick<Skill, 'id' | 'name'>[],
+        LoadedGraph['edges']
+    ];
+    const rows = <T>(value: T[] | undefined) =>
+        Array.isArray(value) ? value : [];
+
+    return {
+        baskets: [...rows(result?.[0]), ...rows(result?.[1])],
+        names: new Map(
+            rows(result?.[2]).map((skill) => [String(skill.id), skill.name])
+        ),
+        edges: rows(result?.[3]),
+    };
+}
+
+/**
+ * Create, update and remove inferred commonly_used_with edges so they match
+ * the current co-occurrence of skills.
+ */
+export async function inferSkillRelations(
+    options: CooccurrenceOptions = {}
+): Promise<SkillRelationInferenceResult> {
+    const {
+        metric = DEFAULT_COOCCURRENCE_METRIC,
+        threshold = DEFAULT_COOCCURRENCE_THRESHOLD,
+        minSupport = DEFAULT_MIN_SUPPORT,
+        dryRun = false,
+        db = SurrealInstance,
+    } = options;
+
+    const { baskets, names, edges } = await loadGraph(db);
+
+    // Curated edges of any type and direction block a pair
+    const curated = new Set<string>();
+    const inferred = new Map<string, LoadedGraph['edges'][number]>();
+    const duplicates: Array<RelatedToEdge['id']> = [];
+    edges.forEach((edge) => {
+        const key = pairKey(edge.in, edge.out);
+        if (edge.source !== 'inferred') curated.add(key);
+        else if (inferred.has(key)) duplicates.push(edge.id);
+        else inferred.set(key, edge);
+    });
+
+    const relations: InferredSkillRelation[] = cooccurrenceStats(baskets)
+        .map((stats) => ({
+            ...stats,
+            inName: names.get(String(stats.in)) || String(stats.in),
+            outName: names.get(String(stats.out)) || String(stats.out),
+            score: Math.max(0, Math.min(1, stats[metric])),
+        }))
+        .filter(
+            ({ support, score }) => support >= minSupport && score >= threshold
+        )
+        .map((relation): InferredSkillRelation => {
+            const key = pairKey(relation.in, relation.out);
+            const action = curated.has(key)
+                ? 'skip'
+                : inferred.has(key)
+                ? 'update'
+                : 'create';
+            return { ...relation, action };
+        })
+        .sort((a, b) => b.score - a.score);
+
+    const kept = new Set<string>(
+        relations
+            .filter(({ action }) => action !== 'skip')
+            .map((relation) => pairKey(relation.in, relation.out))
+    );
+    // Inferred edges below the threshold, or now covered by a curated edge
+    const stale = [
+        ...duplicates,
+        ...Array.from(inferred.entries())
+            .filter(([key]) => !kept.has(key))
+            .map(([, edge]) => edge.id),
+    ];
+
+    const creates = relations.filter(({ action }) => action === 'create');
+    const updates = relations
+        .filter(({ action }) => action === 'update')
+        .map((relation) => ({
+            ...relation,
+            id: inferred.get(pairKey(relation.in, relation.out))?.id,
+        }));
+
+    if (!dryRun && (creates.length || updates.length || stale.length)) {
+        await db.query(
+            `
+            BEGIN TRANSACTION;
+            FOR $edge IN $updates {
+                UPDATE $edge.id SET
+                    similarity_score = $edge.score,
+                    support = $edge.support,
+                    inferred_at = time::now();
+            };
+            FOR $edge IN $creates {
+                LET $from = $edge.in;
+                LET $to = $edge.out;
+                RELATE $from->related_to->$to SET
+                    type = "commonly_used_with",
+                    source = "inferred",
+                    similarity_score = $edge.score,
+                    support = $edge.support,
+                    inferred_at = time::now();
+            };
+            DELETE $stale;
+            COMMIT TRANSACTION;
+        `,
+            { creates, updates, stale }
+        );
+    }
+
+    return {
+        metric,
+        threshold,
+        baskets: baskets.filter(({ skills }) => skills?.length > 0).length,
+        created: creates.length,
+        updated: updates.length,
+        removed: stale.length,
+        skipped: relations.length - creates.length - updates.length,
+        dryRun,
+        relations,
+    };
+}
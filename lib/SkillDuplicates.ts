@@ -0,0 +1,574 @@
+/**
+ * Skill Duplicates
+ *
+ * Finds skills that are spellings of the same thing ("JS", "Javascript",
+ * "JavaScript (ES6)") by blending name similarity with embedding
+ * similarity, clusters them, and merges a cluster into one survivor: every
+ * has_skill, requires_skill and related_to edge is moved over and the
+ * merged names are recorded as skill_alias records.
+ */
+
+import { StringRecordId } from 'surrealdb';
+import { SurrealInstance } from './Surreal';
+import {
+    cosineSimilarity,
+    getEmbeddingSignature,
+    isEmbeddingCompatible,
+    type EmbeddingProviderType,
+} from './EmbeddingProvider';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    DuplicateSkillCluster,
+    DuplicateSkillPair,
+    HasSkillEdge,
+    RelatedToEdge,
+    RequiresSkillEdge,
+    Skill,
+    SkillID,
+    SkillImportance,
+    SkillMergeResult,
+    SkillUsage,
+} from '../constants/SkillTypes';
+
+export type DuplicateSkillOptions = {
+    // Minimum blended score for two skills to count as duplicates
+    threshold?: number;
+    // Share of the score from names and from embeddings
+    weights?: { name?: number; embedding?: number };
+    // Vector space to compare in; defaults to the configured provider
+    provider?: EmbeddingProviderType;
+    db?: QueryRunner;
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.75;
+export const DEFAULT_DUPLICATE_WEIGHTS = { name: 0.6, embedding: 0.4 };
+
+// ==========================================
+// NAME SIMILARITY
+// ==========================================
+
+// Extra words that don't make a different skill: "Vue.js", "Go language", "JavaScript (ES6)"
+export const QUALIFIERS = new Set([
+    'js',
+    'lang',
+    'language',
+    'programming',
+    'framework',
+    'library',
+]);
+
+/**
+ * Lowercase, accent- and punctuation-free form of a skill name. "+" and "#"
+ * are kept, so C, C++ and C# stay apart.
+ */
+export function normalizeSkillName(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[̀-ͯ]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9+#]+/g, ' ')
+        .trim();
+}
+
+// Initials of the words of a name, splitting camel case: "JavaScript" -> "js"
+function initials(name: string): string {
+    return name
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word[0].toLowerCase())
+        .join('');
+}
+
+function isSubsequence(short: string, long: string): boolean {
+    let i = 0;
+    for (let j = 0; j < long.length && i < short.length; j++) {
+        if (long[j] === short[i]) i++;
+    }
+    return i === short.length;
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const gram = text.slice(i, i + 2);
+        counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+}
+
+// Sørensen-Dice coefficient over character bigrams
+function diceSimilarity(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+    const x = bigrams(a);
+    const y = bigrams(b);
+    let overlap = 0;
+    x.forEach((count, gram) => {
+        overlap += Math.min(count, y.get(gram) ?? 0);
+    });
+    return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * How likely two names are spellings of the same skill, 0-1:
+ *
+ * - 1 for the same letters ("Node.js" / "NodeJS")
+ * - 0.9 for an acronym of the other name ("JS" / "JavaScript") or the same
+ *   name plus a version or qualifier ("Javascript" / "JavaScript (ES6)",
+ *   "Go" / "Golang")
+ * - 0.7 for a short name whose letters appear in order in the other
+ *   ("JS" / "Javascript"); needs embedding support to pass the default threshold
+ * - otherwise the bigram Dice coefficient
+ */
+export function skillNameSimilarity(a: string, b: string): number {
+    const [na, nb] = [normalizeSkillName(a), normalizeSkillName(b)];
+    const [ca, cb] = [na.replace(/ /g, ''), nb.replace(/ /g, '')];
+    if (!ca || !cb) return 0;
+    if (ca === cb) return 1;
+
+    const [shortName, longName] = ca.length <= cb.length ? [a, b] : [b, a];
+    const [shortCompact, longCompact] =
+        ca.length <= cb.length ? [ca, cb] : [cb, ca];
+    if (shortCompact.length >= 2 && shortCompact === initials(longName)) {
+        return 0.9;
+    }
+
+    const [shortTokens, longTokens] = (
+        na.split(' ').length <= nb.split(' ').length ? [na, nb] : [nb, na]
+    ).map((name) => name.split(' '));
+    const extra = longTokens.slice(shortTokens.length);
+    if (
+        extra.length > 0 &&
+        shortTokens.every((token, i) => token === longTokens[i]) &&
+        extra.every((token) => /\d/.test(token) || QUALIFIERS.has(token))
+    ) {
+        return 0.9;
+    }
+    // Same with the qualifier glued on: "Golang", "NodeJS"
+    if (
+        longCompact.startsWith(shortCompact) &&
+        QUALIFIERS.has(longCompact.slice(shortCompact.length))
+    ) {
+        return 0.9;
+    }
+
+    if (
+        shortCompact.length >= 2 &&
+        shortCompact.length <= 4 &&
+        shortName === shortName.toUpperCase() &&
+        shortCompact[0] === longCompact[0] &&
+        isSubsequence(shortCompact, longCompact)
+    ) {
+        return Math.max(0.7, diceSimilarity(ca, cb));
+    }
+
+    return diceSimilarity(ca, cb);
+}
+
+// ==========================================
+// DETECTION
+// ==========================================
+
+type SkillRow = Skill & { usage: SkillUsage };
+
+async function loadSkills(db: QueryRunner): Promise<SkillRow[]> {
+    const result = (await db.query(`
+        SELECT *,
+            {
+                employees: count(<-has_skill),
+                projects: count(<-requires_skill),
+                relations: count(->related_to) + count(<-related_to)
+            } AS usage
+        FROM skill;
+    `)) as [SkillRow[]];
+    return Array.isArray(result?.[0]) ? result[0] : [];
+}
+
+const totalUsage = ({ usage }: SkillRow) =>
+    usage.employees + usage.projects + usage.relations;
+
+// Most used first, then the one with a description, then alphabetical
+function pickSurvivor(skills: SkillRow[]): SkillRow {
+    return skills
+        .slice()
+        .sort(
+            (a, b) =>
+                totalUsage(b) - totalUsage(a) ||
+                Number(!!b.description) - Number(!!a.description) ||
+                a.name.localeCompare(b.name)
+        )[0];
+}
+
+/**
+ * Clusters of likely duplicate skills, largest first. Pairs scoring at least
+ * the threshold are linked, and linked skills form one cluster.
+ */
+export async function findDuplicateSkills(
+    options: DuplicateSkillOptions = {}
+): Promise<DuplicateSkillCluster[]> {
+    const { threshold = DEFAULT_DUPLICATE_THRESHOLD, db = SurrealInstance } =
+        options;
+    const weights = { ...DEFAULT_DUPLICATE_WEIGHTS, ...options.weights };
+    const skills = await loadSkills(db);
+
+    // Mock vectors are hashes of the text and say nothing about meaning
+    const signature = getEmbeddingSignature(options.provider);
+    const useEmbeddings = signature.provider !== 'mock';
+
+    const pairs: DuplicateSkillPair[] = [];
+    for (let i = 0; i < skills.length; i++) {
+        for (let j = i + 1; j < skills.length; j++) {
+            const [a, b] = [skills[i], skills[j]];
+            const nameSimilarity = skillNameSimilarity(a.name, b.name);
+            const embeddingSimilarity =
+                useEmbeddings &&
+                isEmbeddingCompatible(a, signature) &&
+                isEmbeddingCompatible(b, signature)
+                    ? cosineSimilarity(
+                          a.embedding as number[],
+                          b.embedding as number[]
+                      )
+                    : null;
+            const score =
+                embeddingSimilarity === null
+                    ? nameSimilarity
+                    : (weights.name * nameSimilarity +
+                          weights.embedding *
+                              Math.max(0, embeddingSimilarity)) /
+                      (weights.name + weights.embedding || 1);
+
+            if (score >= threshold) {
+                pairs.push({
+                    a: a.id,
+                    b: b.id,
+                    score,
+                    nameSimilarity,
+                    embeddingSimilarity,
+                });
+            }
+        }
+    }
+
+    // Union-find over the linked pairs
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+        const up = parent.get(id) ?? id;
+        if (up === id) return id;
+        const root = find(up);
+        parent.set(id, root);
+        return root;
+    };
+    pairs.forEach(({ a, b }) => parent.set(find(a), find(b)));
+
+    const linked = new Set<string>(pairs.flatMap(({ a, b }) => [a, b]));
+    const groups = new Map<string, SkillRow[]>();
+    skills
+        .filter((skill) => linked.has(skill.id))
+        .forEach((skill) => {
+            const root = find(skill.id);
+            groups.set(root, [...(groups.get(root) || []), skill]);
+        });
+
+    return Array.from(groups.values())
+        .filter((group) => group.length > 1)
+        .map((group) => {
+            const ids = new Set<string>(group.map((skill) => skill.id));
+            return {
+                skills: group.map(({ usage, ...skill }) => ({
+                    skill: { ...skill, embedding: undefined },
+                    usage,
+                })),
+                survivor: pickSurvivor(group).id,
+                pairs: pairs
+                    .filter((pair) => ids.has(pair.a))
+                    .sort((x, y) => y.score - x.score),
+            };
+        })
+        .sort((x, y) => y.skills.length - x.skills.length);
+}
+
+// ==========================================
+// MERGE
+// ==========================================
+
+const IMPORTANCE_RANK: Record<SkillImportance, number> = {
+    nice_to_have: 1,
+    preferred: 2,
+    required: 3,
+};
+
+type Endpoint = string;
+
+// Fold edges with the same key into one, keeping the strongest values
+function foldEdges<T, K>(
+    edges: T[],
+    key: (edge: T) => Endpoint,
+    init: (edge: T) => K,
+    merge: (kept: K, edge: T) => K
+): Map<Endpoint, K> {
+    const folded = new Map<Endpoint, K>();
+    edges.forEach((edge) => {
+        const k = key(edge);
+        const kept = folded.get(k);
+        folded.set(k, kept === undefined ? init(edge) : merge(kept, edge));
+    });
+    return folded;
+}
+
+const maxOptional = (a?: number, b?: number) =>
+    a === undefined || a === null
+        ? b
+        : b === undefined || b === null
+        ? a
+        : Math.max(a, b);
+
+/**
+ * Merge duplicate skills into a survivor in one transaction. Edges that
+ * would become duplicates are folded into one: the highest proficiency,
+ * years, importance, minimum proficiency and similarity win. The merged
+ * skills are deleted and their names kept as aliases of the survivor.
+ * Without a proficiency rubric of its own, the survivor takes the most
+ * recently updated one of the merged skills; their other rubrics are deleted.
+ */
+export async function mergeSkills(
+    survivor: SkillID,
+    duplicates: SkillID[],
+    db: QueryRunner = SurrealInstance
+): Promise<SkillMergeResult> {
+    const merged = Array.from(new Set(duplicates.map(String))).filter(
+        (id) => id !== String(survivor)
+    ) as SkillID[];
+    if (merged.length === 0) {
+        throw new Error('No skills to merge into the survivor');
+    }
+    const all = [String(survivor), ...merged];
+    const toRecord = (id: string) => new StringRecordId(id);
+
+    const result = (await db.query(
+        `
+        SELECT id, name FROM $all;
+        SELECT * FROM has_skill WHERE out IN $all;
+        SELECT * FROM requires_skill WHERE out IN $all;
+        SELECT * FROM related_to WHERE in IN $all OR out IN $all;
+        SELECT * FROM skill_alias WHERE skill IN $merged;
+    `,
+        { all: all.map(toRecord), merged: merged.map(toRecord) }
+    )) as [
+        Pick<Skill, 'id' | 'name'>[],
+        HasSkillEdge[],
+        RequiresSkillEdge[],
+        RelatedToEdge[],
+        Array<{ alias: string }>
+    ];
+    const [skills, hasSkill, requiresSkill, relatedTo, existingAliases] =
+        result.map((rows) =>
+            Array.isArray(rows) ? rows : []
+        ) as typeof result;
+
+    const survivorSkill = skills.find(
+        (skill) => String(skill.id) === String(survivor)
+    );
+    if (!survivorSkill) {
+        throw new Error(`Skill ${survivor} not found`);
+    }
+    const mergedSet = new Set<string>(merged);
+    const repoint = (id: string) =>
+        mergedSet.has(String(id)) ? String(survivor) : String(id);
+
+    // has_skill: one edge per employee
+    const employees = foldEdges(
+        hasSkill,
+        (edge) => String(edge.in),
+        (edge) => ({
+            in: String(edge.in),
+            proficiency: edge.proficiency,
+            years: edge.years,
+            certified: edge.certified,
+            endorsed_by: (edge.endorsed_by || []).map(String),
+            notes: edge.notes,
+        }),
+        (kept, edge) => ({
+            ...kept,
+            proficiency: Math.max(kept.proficiency, edge.proficiency),
+            years: maxOptional(kept.years, edge.years),
+            certified: kept.certified || edge.certified,
+            endorsed_by: Array.from(
+                new Set(
+                    [
+                        ...(kept.endorsed_by || []),
+                        ...(edge.endorsed_by || []),
+                    ].map(String)
+                )
+            ),
+            notes: kept.notes || edge.notes,
+        })
+    );
+
+    // requires_skill: one edge per project
+    const projects = foldEdges(
+        requiresSkill,
+        (edge) => String(edge.in),
+        (edge) => ({
+            in: String(edge.in),
+            importance: edge.importance,
+            min_proficiency: edge.min_proficiency,
+        }),
+        (kept, edge) => ({
+            ...kept,
+            importance:
+                IMPORTANCE_RANK[edge.importance] >
+                IMPORTANCE_RANK[kept.importance]
+                    ? edge.importance
+                    : kept.importance,
+            min_proficiency: Math.max(
+                kept.min_proficiency,
+                edge.min_proficiency
+            ),
+        })
+    );
+
+    // related_to: one edge per (from, to, type), no self-loops
+    const relations = foldEdges(
+        relatedTo.filter((edge) => repoint(edge.in) !== repoint(edge.out)),
+        (edge) => `${repoint(edge.in)}|${repoint(edge.out)}|${edge.type}`,
+        (edge) => ({
+            in: repoint(edge.in),
+            out: repoint(edge.out),
+            type: edge.type,
+            similarity_score: edge.similarity_score,
+            source: edge.source || 'curated',
+            support: edge.support,
+            inferred_at: edge.inferred_at,
+        }),
+        (kept, edge) => ({
+            ...kept,
+            similarity_score: Math.max(
+                kept.similarity_score,
+                edge.similarity_score
+            ),
+            // A curated edge stays curated whatever it is folded with
+            source:
+                kept.source === 'inferred' && edge.source === 'inferred'
+                    ? kept.source
+                    : ('curated' as const),
+            // Keep the strongest evidence and the latest inference run
+            support:
+                kept.support === undefined || edge.support === undefined
+                    ? kept.support ?? edge.support
+                    : Math.max(kept.support, edge.support),
+            inferred_at:
+                !kept.inferred_at ||
+                (edge.inferred_at &&
+                    new Date(edge.inferred_at) > new Date(kept.inferred_at))
+                    ? edge.inferred_at
+                    : kept.inferred_at,
+        })
+    );
+
+    const survivorNormalized = normalizeSkillName(survivorSkill.name);
+    const aliases = Array.from(
+        new Set(
+            [
+                ...skills
+                    .filter((skill) => mergedSet.has(String(skill.id)))
+                    .map((skill) => skill.name),
+                ...existingAliases.map((alias) => alias.alias),
+            ].filter(
+                (alias) => normalizeSkillName(alias) !== survivorNormalized
+            )
+        )
+    );
+
+    // Edges can't change their endpoints, so every affected edge is recreated
+    await db.query(
+        `
+        BEGIN TRANSACTION;
+        DELETE has_skill WHERE out IN $all;
+        DELETE requires_skill WHERE out IN $all;
+        DELETE related_to WHERE in IN $all OR out IN $all;
+        FOR $edge IN $hasSkill {
+            LET $from = $edge.in;
+            RELATE $from->has_skill->$survivor SET
+                proficiency = $edge.proficiency,
+                years = $edge.years,
+                certified = $edge.certified,
+                endorsed_by = $edge.endorsed_by,
+                notes = $edge.notes;
+        };
+        FOR $edge IN $requiresSkill {
+            LET $from = $edge.in;
+            RELATE $from->requires_skill->$survivor SET
+                importance = $edge.importance,
+                min_proficiency = $edge.min_proficiency;
+        };
+        FOR $edge IN $relatedTo {
+            LET $from = $edge.in;
+            LET $to = $edge.out;
+            RELATE $from->related_to->$to SET
+                type = $edge.type,
+                similarity_score = $edge.similarity_score,
+                source = $edge.source,
+                support = $edge.support,
+                inferred_at = $edge.inferred_at;
+        };
+        FOR $alias IN $aliases {
+            UPSERT type::thing("skill_alias", $alias.normalized) SET
+                alias = $alias.alias,
+                normalized = $alias.normalized,
+                skill = $survivor,
+                source = "merge";
+        };
+        UPDATE skill SET replaced_by = IF id = $survivor THEN NONE ELSE $survivor END
+            WHERE replaced_by IN $merged;
+        LET $rubric = (SELECT id, updated FROM proficiency_rubric
+            WHERE skill IN $merged ORDER BY updated DESC LIMIT 1).id;
+        IF array::len((SELECT id FROM proficiency_rubric WHERE skill = $survivor)) = 0 {
+            UPDATE $rubric SET skill = $survivor;
+        };
+        DELETE proficiency_rubric WHERE skill IN $merged;
+        DELETE $merged;
+        COMMIT TRANSACTION;
+    `,
+        {
+            survivor: toRecord(String(survivor)),
+            all: all.map(toRecord),
+            merged: merged.map(toRecord),
+            hasSkill: Array.from(employees.values()).map((edge) => ({
+                ...edge,
+                in: toRecord(edge.in),
+                endorsed_by: edge.endorsed_by.length
+                    ? edge.endorsed_by.map(toRecord)
+                    : undefined,
+            })),
+            requiresSkill: Array.from(projects.values()).map((edge) => ({
+                ...edge,
+                in: toRecord(edge.in),
+            })),
+            relatedTo: Array.from(relations.values()).map((edge) => ({
+                ...edge,
+                in: toRecord(edge.in),
+                out: toRecord(edge.out),
+            })),
+            aliases: aliases.map((alias) => ({
+                alias,
+                normalized: normalizeSkillName(alias),
+            })),
+        }
+    );
+
+    return {
+        survivor,
+        merged,
+        aliases,
+        hasSkill: hasSkill.filter((edge) => mergedSet.has(String(edge.out)))
+            .length,
+        requiresSkill: requiresSkill.filter((edge) =>
+            mergedSet.has(String(edge.out))
+        ).length,
+        relatedTo: relatedTo.filter(
+            (edge) =>
+                mergedSet.has(String(edge.in)) ||
+                mergedSet.has(String(edge.out))
+        ).length,
+    };
+}
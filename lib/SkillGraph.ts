@@ -0,0 +1,201 @@
+/**
+ * Skill Graph
+ *
+ * Traversal of related_to edges between skills. An edge
+ * `a ->related_to-> b` with type T reads "b is a T of a"
+ * (e.g. nextjs ->parent-> react: React is the parent of Next.js).
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    RelatedToEdge,
+    Skill,
+    SkillID,
+    SkillRelationType,
+} from '../constants/SkillTypes';
+
+// Relation of `in` to `out` when an edge is followed backwards
+const INVERSE_RELATION: Partial<Record<SkillRelationType, SkillRelationType>> =
+    {
+        parent: 'child',
+        child: 'parent',
+        synonym: 'synonym',
+        commonly_used_with: 'commonly_used_with',
+        alternative: 'alternative',
+        related: 'related',
+    };
+
+export type ExpansionOptions = {
+    // Hops to follow from each seed skill (0 disables expansion)
+    depth?: number;
+    // Relations to follow, seen from the skill being expanded
+    relations?: SkillRelationType[];
+    // Expanded skills below this relevance are dropped
+    minRelevance?: number;
+    db?: QueryRunner;
+};
+
+export const DEFAULT_EXPANSION_RELATIONS: SkillRelationType[] = [
+    'synonym',
+    'child',
+    'commonly_used_with',
+];
+
+export type ExpandedSkill = {
+    skill: Skill;
+    // Seed relevance discounted by similarity_score at every hop
+    relevance: number;
+    // Seed skill the path started from, and the skill/relation of the last hop
+    seed: SkillID;
+    via: { id: SkillID; name: string };
+    relation: SkillRelationType;
+    hops: number;
+};
+
+function firstStatement<T>(result: unknown): T[] {
+    if (Array.isArray(result) && Array.isArray(result[0])) {
+        return result[0] as T[];
+    }
+    return [];
+}
+
+/**
+ * Expand a set of seed skills (id -> relevance) through related_to edges.
+ * Each reachable skill keeps its best-scoring path; seeds themselves are
+ * never returned. One query per hop loads the edges, one loads new skills.
+ */
+export async function expandSkills(
+    seeds: Map<string, { skill: Skill; relevance: number }>,
+    options: ExpansionOptions = {}
+): Promise<Map<string, ExpandedSkill>> {
+    const {
+        depth = 1,
+        relations = DEFAULT_EXPANSION_RELATIONS,
+        minRelevance = 0,
+        db = SurrealInstance,
+    } = options;
+    const expanded = new Map<string, ExpandedSkill>();
+    if (depth < 1 || seeds.size === 0 || relations.length === 0) {
+        return expanded;
+    }
+
+    // Raw edge types that yield a wanted relation in either direction
+    const edgeTypes = Object.keys(INVERSE_RELATION).filter(
+        (type) =>
+            relations.includes(type as SkillRelationType) ||
+            relations.includes(
+                INVERSE_RELATION[type as SkillRelationType] as SkillRelationType
+            )
+    );
+
+    // Best path found so far to every visited skill, seeds included
+    const known = new Map<
+        string,
+        { skill: Skill; relevance: number; seed: SkillID }
+    >();
+    seeds.forEach(({ skill, relevance }, id) => {
+        known.set(id, { skill, relevance, seed: skill.id });
+    });
+    let frontier = Array.from(seeds.values()).map(({ skill }) => skill.id);
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+        const edges = firstStatement<RelatedToEdge>(
+            await db.query(
+                `SELECT in, out, type, similarity_score FROM related_to
+                 WHERE (in IN $frontier OR out IN $frontier) AND type IN $types`,
+                { frontier, types: edgeTypes }
+            )
+        );
+
+        const frontierKeys = new Set(frontier.map(String));
+        const reached = new Map<
+            string,
+            {
+                id: SkillID;
+                relevance: number;
+                from: string;
+                relation: SkillRelationType;
+            }
+        >();
+
+        edges.forEach((edge) => {
+            const steps: Array<[SkillID, SkillID, SkillRelationType]> = [];
+            if (
+                frontierKeys.has(String(edge.in)) &&
+                relations.includes(edge.type)
+            ) {
+                steps.push([edge.in, edge.out, edge.type]);
+            }
+            const inverse = INVERSE_RELATION[edge.type];
+            if (
+                frontierKeys.has(String(edge.out)) &&
+                inverse &&
+                relations.includes(inverse)
+            ) {
+                steps.push([edge.out, edge.in, inverse]);
+            }
+
+            steps.forEach(([from, to, relation]) => {
+                const source = known.get(String(from));
+                if (!source) return;
+                const relevance =
+                    source.relevance * (edge.similarity_score ?? 0.5);
+                const key = String(to);
+                const best = Math.max(
+                    known.get(key)?.relevance ?? 0,
+                    reached.get(key)?.relevance ?? 0
+                );
+                if (relevance > best && relevance >= minRelevance) {
+                    reached.set(key, {
+                        id: to,
+                        relevance,
+                        from: String(from),
+                        relation,
+                    });
+                }
+            });
+        });
+
+        if (reached.size === 0) break;
+
+        // Load skills we haven't seen yet
+        const missing = Array.from(reached.values())
+            .filter((r) => !known.has(String(r.id)))
+            .map((r) => r.id);
+        const loaded = missing.length
+            ? firstStatement<Skill>(
+                  await db.query('SELECT * OMIT embedding FROM $ids', {
+                      ids: missing,
+                  })
+              )
+            : [];
+        const loadedById = new Map(loaded.map((s) => [String(s.id), s]));
+
+        reached.forEach((step, key) => {
+            const source = known.get(step.from);
+            const skill = known.get(key)?.skill || loadedById.get(key);
+            if (!source || !skill) return;
+
+            known.set(key, {
+                skill,
+                relevance: step.relevance,
+                seed: source.seed,
+            });
+            if (!seeds.has(key)) {
+                expanded.set(key, {
+                    skill,
+                    relevance: step.relevance,
+                    seed: source.seed,
+                    via: { id: source.skill.id, name: source.skill.name },
+                    relation: step.relation,
+                    hops: hop,
+                });
+            }
+        });
+
+        frontier = Array.from(reached.values()).map((r) => r.id);
+    }
+
+    return expanded;
+}
@@ -0,0 +1,120 @@
+/**
+ * Skill Lifecycle
+ *
+ * Deleting a skill without leaving dangling edges. A cascade delete removes
+ * the skill's has_skill, requires_skill and related_to edges, its aliases
+ * and its proficiency rubric with it. A reassign folds all of them into
+ * another skill through mergeSkills, so profiles and projects keep a skill
+ * and the deleted name still resolves as an alias.
+ */
+
+import { StringRecordId } from 'surrealdb';
+import { SurrealInstance } from './Surreal';
+import { mergeSkills } from './SkillDuplicates';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    Skill,
+    SkillDeleteMode,
+    SkillDeleteResult,
+    SkillID,
+    SkillImpact,
+} from '../constants/SkillTypes';
+
+/**
+ * Everything that points at a skill and would be dropped or moved by deleting it
+ */
+export async function getSkillImpact(
+    id: SkillID,
+    db: QueryRunner = SurrealInstance
+): Promise<SkillImpact> {
+    const result = (await db.query(
+        `
+        SELECT
+            count(<-has_skill) AS employees,
+            count(<-requires_skill) AS projects,
+            count(->related_to) + count(<-related_to) AS relations
+        FROM $id;
+        SELECT count() AS total FROM skill_alias WHERE skill = $id GROUP ALL;
+        SELECT count() AS total FROM skill WHERE replaced_by = $id GROUP ALL;
+        SELECT count() AS total FROM proficiency_rubric WHERE skill = $id GROUP ALL;
+    `,
+        { id: new StringRecordId(String(id)) }
+    )) as [
+        Array<Pick<SkillImpact, 'employees' | 'projects' | 'relations'>>,
+        Array<{ total: number }>,
+        Array<{ total: number }>,
+        Array<{ total: number }>
+    ];
+    const usage = result?.[0]?.[0];
+    if (!usage) throw new Error(`Skill ${id} not found`);
+
+    return {
+        ...usage,
+        aliases: result?.[1]?.[0]?.total ?? 0,
+        replaces: result?.[2]?.[0]?.total ?? 0,
+        rubrics: result?.[3]?.[0]?.total ?? 0,
+    };
+}
+
+/**
+ * Delete a skill. With reassign, its edges and aliases move to `reassignTo`
+ * first (which must be another skill that isn't deprecated); with cascade
+ * they are deleted along with it, in one transaction.
+ */
+export async function deleteSkill(
+    id: SkillID,
+    options: { mode: SkillDeleteMode; reassignTo?: SkillID; db?: QueryRunner }
+): Promise<SkillDeleteResult> {
+    const { mode, reassignTo, db = SurrealInstance } = options;
+
+    if (mode === 'reassign') {
+        if (!reassignTo || String(reassignTo) === String(id)) {
+            throw new Error('Reassigning needs another skill to move edges to');
+        }
+        const [targets] = (await db.query(
+            'SELECT id, deprecated FROM $target;',
+            { target: new StringRecordId(String(reassignTo)) }
+        )) as [Pick<Skill, 'id' | 'deprecated'>[]];
+        const target = Array.isArray(targets) ? targets[0] : undefined;
+        if (!target) throw new Error(`Skill ${reassignTo} not found`);
+        if (target.deprecated) {
+            throw new Error('Cannot reassign to a deprecated skill');
+        }
+
+        const merged = await mergeSkills(reassignTo, [id], db);
+        return {
+            deleted: id,
+            mode,
+            reassignedTo: reassignTo,
+            hasSkill: merged.hasSkill,
+            requiresSkill: merged.requiresSkill,
+            relatedTo: merged.relatedTo,
+            aliases: merged.aliases.length,
+        };
+    }
+
+    const impact = await getSkillImpact(id, db);
+    await db.query(
+        `
+        BEGIN TRANSACTION;
+        DELETE has_skill WHERE out = $id;
+        DELETE requires_skill WHERE out = $id;
+        DELETE related_to WHERE in = $id OR out = $id;
+        DELETE skill_alias WHERE skill = $id;
+        DELETE proficiency_rubric WHERE skill = $id;
+        UPDATE skill SET replaced_by = NONE WHERE replaced_by = $id;
+        DELETE $id;
+        COMMIT TRANSACTION;
+    `,
+        { id: new StringRecordId(String(id)) }
+    );
+
+    return {
+        deleted: id,
+        mode,
+        hasSkill: impact.employees,
+        requiresSkill: impact.projects,
+        relatedTo: impact.relations,
+        aliases: impact.aliases,
+    };
+}
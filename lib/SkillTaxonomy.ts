@@ -0,0 +1,218 @@
+/**
+ * Skill Taxonomy
+ *
+ * The parent/child hierarchy stored in related_to edges. Following
+ * lib/SkillGraph.ts, `a ->parent-> b` makes b a parent of a, and
+ * `a ->child-> b` makes b a child of a. The whole hierarchy is loaded in
+ * one query and walked in memory. Every walk tracks visited skills, so a
+ * cycle in the data ends the walk instead of looping forever.
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { QueryRunner } from './VectorSearch';
+import type {
+    RelatedToEdge,
+    Skill,
+    SkillID,
+    SkillTaxonomyTree,
+    SkillTreeNode,
+} from '../constants/SkillTypes';
+
+type TaxonomySkill = Pick<Skill, 'id' | 'name' | 'category'>;
+
+export type SkillTaxonomy = {
+    skills: Map<string, TaxonomySkill>;
+    parents: Map<string, SkillID[]>;
+    children: Map<string, SkillID[]>;
+};
+
+export type TaxonomyStep = {
+    skill: TaxonomySkill;
+    hops: number;
+    // Skill the last hop came from
+    via: Pick<Skill, 'id' | 'name'>;
+};
+
+export async function loadSkillTaxonomy(
+    db: QueryRunner = SurrealInstance
+): Promise<SkillTaxonomy> {
+    const result = (await db.query(`
+        SELECT id, name, category FROM skill;
+        SELECT in, out, type FROM related_to WHERE type IN ["parent", "child"];
+    `)) as [TaxonomySkill[], Pick<RelatedToEdge, 'in' | 'out' | 'type'>[]];
+    const skills = Array.isArray(result?.[0]) ? result[0] : [];
+    const edges = Array.isArray(result?.[1]) ? result[1] : [];
+
+    const taxonomy: SkillTaxonomy = {
+        skills: new Map(skills.map((skill) => [String(skill.id), skill])),
+        parents: new Map(),
+        children: new Map(),
+    };
+    const link = (map: Map<string, SkillID[]>, from: SkillID, to: SkillID) => {
+        const list = map.get(String(from)) || [];
+        if (!list.some((id) => String(id) === String(to))) list.push(to);
+        map.set(String(from), list);
+    };
+
+    edges.forEach((edge) => {
+        const [child, parent] =
+            edge.type === 'parent' ? [edge.in, edge.out] : [edge.out, edge.in];
+        if (String(child) === String(parent)) return;
+        link(taxonomy.parents, child, parent);
+        link(taxonomy.children, parent, child);
+    });
+
+    return taxonomy;
+}
+
+/**
+ * Every ancestor or descendant of a skill, nearest first. The skill itself is
+ * not included, even when a cycle leads back to it.
+ */
+export function walkTaxonomy(
+    taxonomy: SkillTaxonomy,
+    id: SkillID,
+    direction: 'ancestors' | 'descendants'
+): TaxonomyStep[] {
+    const next =
+        direction === 'ancestors' ? taxonomy.parents : taxonomy.children;
+    const visited = new Set<string>([String(id)]);
+    const steps: TaxonomyStep[] = [];
+    let frontier: SkillID[] = [id];
+
+    for (let hops = 1; frontier.length > 0; hops++) {
+        const reached: SkillID[] = [];
+        frontier.forEach((from) => {
+            const via = {
+                id: from,
+                name: taxonomy.skills.get(String(from))?.name || String(from),
+            };
+            (next.get(String(from)) || []).forEach((to) => {
+                const skill = taxonomy.skills.get(String(to));
+                if (!skill || visited.has(String(to))) return;
+                visited.add(String(to));
+                steps.push({ skill, hops, via });
+                reached.push(to);
+            });
+        });
+        frontier = reached;
+    }
+
+    return steps;
+}
+
+/**
+ * Parent chains that loop back on themselves, e.g. A -> B -> A. Each cycle is
+ * reported once, in child -> parent order.
+ */
+export function findTaxonomyCycles(taxonomy: SkillTaxonomy): SkillID[][] {
+    const state = new Map<string, 'open' | 'done'>();
+    const stack: SkillID[] = [];
+    const cycles = new Map<string, SkillID[]>();
+
+    const visit = (id: SkillID) => {
+        state.set(String(id), 'open');
+        stack.push(id);
+        (taxonomy.parents.get(String(id)) || []).forEach((parent) => {
+            const seen = state.get(String(parent));
+            if (seen === 'open') {
+                const start = stack.findIndex(
+                    (entry) => String(entry) === String(parent)
+                );
+                const cycle = stack.slice(start);
+                const key = cycle.map(String).sort().join('|');
+                if (!cycles.has(key)) cycles.set(key, cycle);
+            } else if (!seen) {
+                visit(parent);
+            }
+        });
+        stack.pop();
+        state.set(String(id), 'done');
+    };
+
+    taxonomy.parents.forEach((_parents, id) => {
+        if (!state.has(id)) {
+            const skill = taxonomy.skills.get(id);
+            if (skill) visit(skill.id);
+        }
+    });
+
+    return Array.from(cycles.values());
+}
+
+/**
+ * The hierarchy as a forest. Roots are skills with children but no parent;
+ * skills only reachable through a cycle become roots too, so nothing is lost.
+ */
+export function buildSkillTree(taxonomy: SkillTaxonomy): SkillTaxonomyTree {
+    const placed = new Set<string>();
+
+    const build = (id: SkillID, path: Set<string>): SkillTreeNode | null => {
+        const skill = taxonomy.skills.get(String(id));
+        if (!skill) return null;
+        placed.add(String(id));
+        if (path.has(String(id))) return { skill, children: [], cyclic: true };
+
+        const nextPath = new Set(path).add(String(id));
+        const children = (taxonomy.children.get(String(id)) || [])
+            .map((child) => build(child, nextPath))
+            .filter((node): node is SkillTreeNode => !!node)
+            .sort((a, b) => a.skill.name.localeCompare(b.skill.name));
+        return { skill, children };
+    };
+
+    const byName = (a: TaxonomySkill, b: TaxonomySkill) =>
+        a.name.localeCompare(b.name);
+    const withChildren = Array.from(taxonomy.children.keys())
+        .map((id) => taxonomy.skills.get(id))
+        .filter((skill): skill is TaxonomySkill => !!skill)
+        .sort(byName);
+
+    const roots: SkillTreeNode[] = [];
+    withChildren
+        .filter((skill) => !taxonomy.parents.has(String(skill.id)))
+        .forEach((skill) => {
+            const node = build(skill.id, new Set());
+            if (node) roots.push(node);
+        });
+    // Checked one at a time: building one cycle root places the rest of it
+    withChildren.forEach((skill) => {
+        if (placed.has(String(skill.id))) return;
+        const node = build(skill.id, new Set());
+        if (node) roots.push(node);
+    });
+
+    const cycles = findTaxonomyCycles(taxonomy).map((cycle) =>
+        cycle.map((id) => ({
+            id,
+            name: taxonomy.skills.get(String(id))?.name || String(id),
+        }))
+    );
+
+    return { roots, cycles };
+}
+
+/**
+ * Descendants of several skills at once: descendant id -> the closest of the
+ * given skills it descends from. Given skills are never returned.
+ */
+export async function findDescendantSkills(
+    ids: SkillID[],
+    db: QueryRunner = SurrealInstance
+): Promise<Map<string, TaxonomyStep & { root: SkillID }>> {
+    const descendants = new Map<string, TaxonomyStep & { root: SkillID }>();
+    if (ids.length === 0) return descendants;
+
+    const taxonomy = await loadSkillTaxonomy(db);
+    const given = new Set(ids.map(String));
+    ids.forEach((root) => {
+        walkTaxonomy(taxonomy, root, 'descendants').forEach((step) => {
+            const key = String(step.skill.id);
+            const best = descendants.get(key);
+            if (given.has(key) || (best && best.hops <= step.hops)) return;
+            descendants.set(key, { ...step, root });
+        });
+    });
+
+    return descendants;
+}
@@ -0,0 +1,202 @@
+/**
+ * Vector Search
+ *
+ * KNN queries that run inside SurrealDB using the `<|k|>` operators,
+ * plus helpers to (re)define the HNSW indexes they rely on.
+ */
+
+import { SurrealInstance } from './Surreal';
+import type { EmbeddingSignature } from './EmbeddingProvider';
+
+export type VectorTable = 'skill' | 'employee' | 'project' | 'employee_chunk';
+
+export const VECTOR_TABLES: VectorTable[] = [
+    'skill',
+    'employee',
+    'project',
+    'employee_chunk',
+];
+
+// Anything with a SurrealDB-style query method: the browser singleton or a server connection
+export type QueryRunner = {
+    query(sql: string, vars?: Record<string, unknown>): Promise<unknown>;
+};
+
+export type KnnOptions = {
+    k: number;
+    // HNSW candidate list size, higher is more accurate but slower
+    ef?: number;
+    // Only match vectors from this provider and model
+    signature?: Pick<EmbeddingSignature, 'provider' | 'model'>;
+    // Extra SurrealQL condition, e.g. 'department = $department'
+    where?: string;
+    vars?: Record<string, unknown>;
+    db?: QueryRunner;
+};
+
+// Tables whose HNSW index is missing or has another dimension, with the time
+// we found out. They go straight to brute force until defineVectorIndexes
+// runs or the retry delay passes (the index may have been added elsewhere).
+const tablesWithoutIndex = new Map<VectorTable, number>();
+const INDEX_RETRY_MS = 5 * 60 * 1000;
+
+// SurrealDB's errors for a KNN operator without a usable index: none on the
+// field, or one built for vectors of another length
+const MISSING_INDEX_ERROR =
+    /suitable index|no index|index .*not found|dimension/i;
+
+function lastStatement<T>(result: unknown): T[] {
+    if (Array.isArray(result) && result.length > 0) {
+        const last = result[result.length - 1];
+        if (Array.isArray(last)) return last as T[];
+    }
+    return [];
+}
+
+function toInt(value: number, name: string): number {
+    const int = Math.floor(value);
+    if (!Number.isFinite(int) || int < 1) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return int;
+}
+
+/**
+ * Find the k nearest records to `embedding`, scored by cosine similarity (highest first).
+ * The stored embedding itself is omitted from the returned records.
+ */
+export async function knnSearch<T>(
+    table: VectorTable,
+    embedding: number[],
+    options: KnnOptions
+): Promise<Array<T & { score: number }>> {
+    const { signature, where, vars, db = SurrealInstance } = options;
+    const k = toInt(options.k, 'k');
+    const ef = toInt(options.ef ?? Math.max(40, k * 2), 'ef');
+
+    const conditions = [
+        where,
+        signature &&
+            'embedding_meta.provider = $provider AND embedding_meta.model = $model',
+    ]
+        .filter(Boolean)
+        .map((condition) => ` AND (${condition})`)
+        .join('');
+
+    const run = (operator: string) =>
+        db.query(
+            `
+            SELECT *, vector::similarity::cosine(embedding, $embedding) AS score
+            OMIT embedding
+            FROM type::table($table)
+            WHERE embedding ${operator} $embedding${conditions}
+            ORDER BY score DESC;
+        `,
+            {
+                ...vars,
+                table,
+                embedding,
+                provider: signature?.provider,
+                model: signature?.model,
+            }
+        );
+
+    const flaggedAt = tablesWithoutIndex.get(table);
+    if (flaggedAt === undefined || Date.now() - flaggedAt > INDEX_RETRY_MS) {
+        try {
+            const hits = lastStatement<T & { score: number }>(
+                await run(`<|${k},${ef}|>`)
+            );
+            tablesWithoutIndex.delete(table);
+            return hits;
+        } catch (error) {
+            // Timeouts, dropped connections and the like are not the index's fault
+            if (!MISSING_INDEX_ERROR.test(String(error))) throw error;
+            console.warn(
+                `No usable vector index on ${table}, falling back to brute-force KNN:`,
+                error
+            );
+            tablesWithoutIndex.set(table, Date.now());
+        }
+    }
+
+    return lastStatement<T & { score: number }>(await run(`<|${k},COSINE|>`));
+}
+
+// ==========================================
+// INDEX MANAGEMENT
+// ==========================================
+
+export function vectorIndexName(table: VectorTable): string {
+    return `${table}_embedding_idx`;
+}
+
+/**
+ * Read the dimension of each table's vector index, or null when there is none
+ */
+export async function getVectorIndexDimensions(
+    db: QueryRunner
+): Promise<Record<VectorTable, number | null>> {
+    const dimensions = {
+        skill: null,
+        employee: null,
+        project: null,
+        employee_chunk: null,
+    } as Record<VectorTable, number | null>;
+
+    for (const table of VECTOR_TABLES) {
+        const result = (await db.query(`INFO FOR TABLE ${table};`)) as Array<{
+            indexes?: Record<string, string>;
+        }>;
+        const definition = result?.[0]?.indexes?.[vectorIndexName(table)];
+        const match = definition?.match(/DIMENSION (\d+)/);
+        dimensions[table] = match ? parseInt(match[1]) : null;
+    }
+
+    return dimensions;
+}
+
+/**
+ * Define HNSW cosine indexes for the given dimension. Embeddings of another
+ * length can't live in the index, so they are cleared (they are stale anyway
+ * and the re-embedding job regenerates them).
+ */
+export async function defineVectorIndexes(
+    db: QueryRunner,
+    dimensions: number
+): Promise<Record<VectorTable, { changed: boolean; cleared: number }>> {
+    const dim = toInt(dimensions, 'dimensions');
+    tablesWithoutIndex.clear();
+    const current = await getVectorIndexDimensions(db);
+    const summary = {} as Record<
+        VectorTable,
+        { changed: boolean; cleared: number }
+    >;
+
+    for (const table of VECTOR_TABLES) {
+        if (current[table] === dim) {
+            summary[table] = { changed: false, cleared: 0 };
+            continue;
+        }
+
+        const index = vectorIndexName(table);
+        const result = (await db.query(
+            `
+            REMOVE INDEX IF EXISTS ${index} ON TABLE ${table};
+            SELECT count() AS total FROM ${table}
+                WHERE embedding != NONE AND array::len(embedding) != ${dim} GROUP ALL;
+            UPDATE ${table} SET embedding = NONE, embedding_meta = NONE
+                WHERE embedding != NONE AND array::len(embedding) != ${dim}
+                RETURN NONE;
+            DEFINE INDEX ${index} ON TABLE ${table} FIELDS embedding HNSW DIMENSION ${dim} DIST COSINE;
+        `
+        )) as unknown[];
+        const counts = result?.[1] as Array<{ total: number }> | undefined;
+        summary[table] = {
+            changed: true,
+            cleared: Number(counts?.[0]?.total) || 0,
+        };
+    }
+
+    return summary;
+}
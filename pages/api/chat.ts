@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
 import Surreal from 'surrealdb';
+import { canonicalizeSkills } from '../../lib/SkillCanonical';
 
 const openai = new OpenAI({
     apiKey: process.env.TYPHOON_API_KEY || 'sk-NdjwJAxkTlcjWbOH3otMMa0HraiPWe7flFR6y446WxWMlWzA',
@@ -79,8 +80,13 @@ async function searchEmployeesBySkills(skillNames: string[]): Promise<SkillMatch
     try {
         const db = await getServerDB();
         
-        // Normalize skill names for matching
-        const normalizedSkills = skillNames.map(s => s.toLowerCase().trim());
+        // Resolve spellings like "k8s" or "ReactJS" to catalogue skills
+        const canonical = await canonicalizeSkills(skillNames, { db });
+        const skillIds = canonical.flatMap(c => c.skill ? [c.skill.id] : []);
+        if (skillIds.length === 0) {
+            await db.close();
+            return [];
+        }
         
         // Query employees with matching skills using graph traversal
         const query = `
@@ -94,11 +100,11 @@ async function searchEmployeesBySkills(skillNames: string[]): Promise<SkillMatch
                 proficiency,
                 certified
             FROM has_skill
-            WHERE string::lowercase(out.name) IN $skills
+            WHERE out IN $skills
             ORDER BY proficiency DESC
         `;
         
-        const result = await db.query<[SkillMatch[]]>(query, { skills: normalizedSkills });
+        const result = await db.query<[SkillMatch[]]>(query, { skills: skillIds });
         await db.close();
         
         // Extract results from SurrealDB response format
@@ -1,24 +1,69 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { generateEmbedding, setEmbeddingConfig, getEmbeddingProvider } from '../../lib/EmbeddingProvider';
+import {
+    generateEmbeddingsWithStats,
+    getEmbeddingProvider,
+    getEmbeddingConfig,
+    loadLocalEmbeddingModel,
+    EmbeddingError,
+    EmbeddingConfigError,
+    isEmbeddingProviderRegistered,
+    listEmbeddingProviders,
+    type EmbeddingFailurePolicy,
+    type EmbeddingProviderInfo,
+    type EmbeddingProviderType,
+} from '../../lib/EmbeddingProvider';
 
 type EmbedRequest = {
     text?: string;
     texts?: string[];
-    provider?: 'mock' | 'local' | 'openai';
+    provider?: EmbeddingProviderType;
     openaiApiKey?: string;
 };
 
 type EmbedResponse = {
     embeddings?: number[][];
     provider: string;
+    // Provider type that actually produced each vector, e.g. 'mock' after a fallback
+    producedBy?: EmbeddingProviderType[];
+    fallback?: boolean;
+    failurePolicy?: EmbeddingFailurePolicy;
     dimensions: number;
+    cache?: {
+        hits: number;
+        misses: number;
+    };
     error?: string;
+    errorType?: string;
 };
 
+type ProvidersResponse = {
+    providers: EmbeddingProviderInfo[];
+    // The server's configured provider
+    current: EmbeddingProviderType;
+};
+
+/**
+ * API Route for embeddings
+ *
+ * GET  /api/embed                                        registered providers
+ * POST /api/embed { text | texts, provider?, openaiApiKey? }   embed texts
+ */
+
 export default async function handler(
     req: NextApiRequest,
-    res: NextApiResponse<EmbedResponse>
+    res: NextApiResponse<EmbedResponse | ProvidersResponse>
 ) {
+    if (req.method === 'GET') {
+        // The local model's dimension is only known once it has loaded
+        if (getEmbeddingConfig().provider === 'local') {
+            await loadLocalEmbeddingModel().catch(() => undefined);
+        }
+        return res.status(200).json({
+            providers: listEmbeddingProviders(),
+            current: getEmbeddingConfig().provider,
+        });
+    }
+    
     if (req.method !== 'POST') {
         return res.status(405).json({ 
             error: 'Method not allowed', 
@@ -27,18 +72,22 @@ export default async function handler(
         });
     }
     
+    // Per request: the server's own configuration is shared with the embedding worker
+    let type = getEmbeddingConfig().provider;
+    
     try {
         const { text, texts, provider, openaiApiKey } = req.body as EmbedRequest;
         
-        // Configure provider if specified
-        if (provider) {
-            setEmbeddingConfig({
-                provider,
-                openaiApiKey: openaiApiKey || process.env.OPENAI_API_KEY,
+        if (provider && !isEmbeddingProviderRegistered(provider)) {
+            return res.status(400).json({
+                error: `Unknown embedding provider '${provider}'`,
+                provider: '',
+                dimensions: 0,
             });
         }
         
-        const currentProvider = getEmbeddingProvider();
+        type = provider || type;
+        const currentProvider = getEmbeddingProvider(type);
         
         // Generate embeddings
         const inputTexts = texts || (text ? [text] : []);
@@ -51,17 +100,36 @@ export default async function handler(
             });
         }
         
-        const embeddings = await Promise.all(
-            inputTexts.map(t => generateEmbedding(t))
+        const { embeddings, producedBy, fallback, hits, misses } = await generateEmbeddingsWithStats(
+            inputTexts,
+            type,
+            // Without one, the server's OPENAI_API_KEY is used
+            type === 'openai' ? { apiKey: openaiApiKey } : undefined
         );
         
         return res.status(200).json({
             embeddings,
             provider: currentProvider.name,
+            producedBy,
+            fallback,
+            failurePolicy: getEmbeddingConfig().failurePolicy,
             dimensions: currentProvider.dimensions,
+            cache: { hits, misses },
         });
     } catch (error) {
         console.error('Embedding generation error:', error);
+        
+        // Only reached under the strict failure policy
+        if (error instanceof EmbeddingError) {
+            return res.status(error instanceof EmbeddingConfigError ? 500 : 502).json({
+                error: error.message,
+                errorType: error.name,
+                provider: getEmbeddingProvider(type).name,
+                failurePolicy: getEmbeddingConfig().failurePolicy,
+                dimensions: 0,
+            });
+        }
+        
         return res.status(500).json({
             error: error instanceof Error ? error.message : 'Unknown error',
             provider: '',
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../lib/ServerSurreal';
+import {
+    getEmbeddingWorkerStatus,
+    processEmbeddingQueue,
+    type EmbeddingQueueRun,
+    type EmbeddingWorkerStatus,
+} from '../../lib/EmbeddingWorker';
+import {
+    countStaleEmbeddings,
+    type StaleEmbeddingCounts,
+} from '../../lib/Reembed';
+import { isEmbeddingProviderRegistered } from '../../lib/EmbeddingProvider';
+
+type EmbeddingQueueResponse = {
+    stale?: StaleEmbeddingCounts;
+    worker?: EmbeddingWorkerStatus;
+    run?: EmbeddingQueueRun;
+    error?: string;
+};
+
+/**
+ * API Route for the background embedding queue
+ *
+ * GET  /api/embedding-queue?provider=   stale (for the given or configured provider) and queued counts, worker status
+ * POST /api/embedding-queue              process one batch of the queue now (signed-in users only)
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<EmbeddingQueueResponse>
+) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const provider =
+        typeof req.query.provider === 'string' ? req.query.provider : undefined;
+    if (provider && !isEmbeddingProviderRegistered(provider)) {
+        return res
+            .status(400)
+            .json({ error: `Unknown embedding provider '${provider}'` });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (req.method === 'POST' && !(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        if (req.method === 'GET') {
+            const stale = await countStaleEmbeddings(db, provider);
+            return res
+                .status(200)
+                .json({ stale, worker: getEmbeddingWorkerStatus() });
+        }
+
+        const run = await processEmbeddingQueue(db);
+        return res
+            .status(200)
+            .json({ run, worker: getEmbeddingWorkerStatus() });
+    } catch (error) {
+        console.error('Embedding queue API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
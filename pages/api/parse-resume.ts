@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
 import Surreal from 'surrealdb';
+import { canonicalizeSkills } from '../../lib/SkillCanonical';
 
 // Disable body parsing to handle raw file upload
 export const config = {
@@ -164,26 +165,20 @@ async function createEmployeeWithSkills(
         
         // Link skills to employee
         const linkedSkills: string[] = [];
+        const linkedIds = new Set<string>();
         
-        for (const skillName of data.skills) {
+        // Match resume spellings ("k8s", "ReactJS") to existing skills first
+        const canonical = await canonicalizeSkills(data.skills, { db });
+        
+        for (const { input: skillName, skill } of canonical) {
             // Get proficiency from map or use default 3
             const proficiency = proficiencyMap.get(skillName.toLowerCase()) || 3;
             
             try {
-                // First, try to find existing skill
-                const findResult = await db.query<[{ id: string }[]]>(`
-                    SELECT id FROM skill WHERE string::lowercase(name) = string::lowercase($name) LIMIT 1
-                `, { name: skillName });
-
-                let skillId: string | null = null;
+                let skillId: string | null = skill ? String(skill.id) : null;
 
-                // Check if skill exists
-                if (Array.isArray(findResult) && findResult.length > 0) {
-                    const records = findResult[0];
-                    if (Array.isArray(records) && records.length > 0 && records[0]?.id) {
-                        skillId = String(records[0].id);
-                    }
-                }
+                // Two spellings of the same skill only get one edge
+                if (skillId && linkedIds.has(skillId)) continue;
 
                 // If skill doesn't exist, create it
                 if (!skillId) {
@@ -211,7 +206,8 @@ async function createEmployeeWithSkills(
                             years = 1,
                             certified = false
                     `, { proficiency });
-                    linkedSkills.push(skillName);
+                    linkedIds.add(skillId);
+                    linkedSkills.push(skill ? skill.name : skillName);
                 }
             } catch (skillError) {
                 console.error(`Failed to link skill "${skillName}":`, skillError);
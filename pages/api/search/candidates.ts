@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB } from '../../../lib/ServerSurreal';
+import { searchCandidates } from '../../../lib/CandidateSearch';
+import {
+    isEmbeddingProviderRegistered,
+    type EmbeddingProviderType,
+} from '../../../lib/EmbeddingProvider';
+import type {
+    SearchResult,
+    SemanticSearchQuery,
+} from '../../../constants/SkillTypes';
+
+type CandidateSearchRequest = SemanticSearchQuery & {
+    provider?: EmbeddingProviderType;
+};
+
+type CandidateSearchResponse = SearchResult & {
+    error?: string;
+};
+
+/**
+ * API Route for hybrid candidate search
+ *
+ * POST /api/search/candidates { query, filters?, limit?, fusion?, provider? }
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<CandidateSearchResponse>
+) {
+    const startTime = Date.now();
+    const empty = { candidates: [], totalMatches: 0 };
+
+    if (req.method !== 'POST') {
+        return res.status(405).json({
+            ...empty,
+            processingTimeMs: 0,
+            error: 'Method not allowed',
+        });
+    }
+
+    const { provider, ...searchQuery } = req.body as CandidateSearchRequest;
+    if (!searchQuery.query?.trim()) {
+        return res.status(400).json({
+            ...empty,
+            processingTimeMs: 0,
+            error: 'No query provided',
+        });
+    }
+
+    if (provider && !isEmbeddingProviderRegistered(provider)) {
+        return res.status(400).json({
+            ...empty,
+            processingTimeMs: 0,
+            error: `Unknown embedding provider '${provider}'`,
+        });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        db = await getServerDB();
+        // Embed the query in the same vector space as the browser's configuration,
+        // without touching the server's own (the embedding worker relies on it)
+        const result = await searchCandidates(db, searchQuery, provider);
+        return res.status(200).json({
+            ...result,
+            processingTimeMs: Date.now() - startTime,
+        });
+    } catch (error) {
+        console.error('Candidate search API error:', error);
+        return res.status(500).json({
+            ...empty,
+            processingTimeMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
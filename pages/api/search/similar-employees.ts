@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB } from '../../../lib/ServerSurreal';
+import { findSimilarEmployees } from '../../../lib/SimilarEmployees';
+import {
+    isEmbeddingProviderRegistered,
+    type EmbeddingProviderType,
+} from '../../../lib/EmbeddingProvider';
+import type {
+    EmployeeID,
+    SimilarEmployee,
+    SkillOverlapMethod,
+} from '../../../constants/SkillTypes';
+
+type SimilarEmployeesRequest = {
+    employeeId?: EmployeeID;
+    limit?: number;
+    overlap?: SkillOverlapMethod;
+    weights?: { embedding?: number; skills?: number };
+    provider?: EmbeddingProviderType;
+};
+
+type SimilarEmployeesResponse = {
+    similar: SimilarEmployee[];
+    error?: string;
+};
+
+/**
+ * API Route for "find similar employees"
+ *
+ * POST /api/search/similar-employees { employeeId, limit?, overlap?, weights?, provider? }
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<SimilarEmployeesResponse>
+) {
+    if (req.method !== 'POST') {
+        return res
+            .status(405)
+            .json({ similar: [], error: 'Method not allowed' });
+    }
+
+    const { employeeId, limit, overlap, weights, provider } =
+        req.body as SimilarEmployeesRequest;
+    if (!employeeId) {
+        return res
+            .status(400)
+            .json({ similar: [], error: 'No employeeId provided' });
+    }
+
+    if (provider && !isEmbeddingProviderRegistered(provider)) {
+        return res.status(400).json({
+            similar: [],
+            error: `Unknown embedding provider '${provider}'`,
+        });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        db = await getServerDB();
+        const similar = await findSimilarEmployees(employeeId, {
+            limit,
+            overlap,
+            weights,
+            // Compare vectors in the same space as the browser's configuration
+            provider,
+            db,
+        });
+        return res.status(200).json({ similar });
+    } catch (error) {
+        console.error('Similar employees API error:', error);
+        return res.status(500).json({
+            similar: [],
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
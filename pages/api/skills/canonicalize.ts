@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB } from '../../../lib/ServerSurreal';
+import { canonicalizeSkills } from '../../../lib/SkillCanonical';
+import {
+    isEmbeddingProviderRegistered,
+    type EmbeddingProviderType,
+} from '../../../lib/EmbeddingProvider';
+import type { CanonicalSkill } from '../../../constants/SkillTypes';
+
+type CanonicalizeRequest = {
+    names?: string[];
+    minSimilarity?: number;
+    provider?: EmbeddingProviderType;
+};
+
+type CanonicalizeResponse = {
+    matches: CanonicalSkill[];
+    error?: string;
+};
+
+/**
+ * API Route for matching free-text skill names to catalogue skills
+ *
+ * POST /api/skills/canonicalize { names, minSimilarity?, provider? }
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<CanonicalizeResponse>
+) {
+    if (req.method !== 'POST') {
+        return res
+            .status(405)
+            .json({ matches: [], error: 'Method not allowed' });
+    }
+
+    const { names, minSimilarity, provider } = (req.body ||
+        {}) as CanonicalizeRequest;
+    if (
+        !Array.isArray(names) ||
+        names.some((name) => typeof name !== 'string')
+    ) {
+        return res
+            .status(400)
+            .json({ matches: [], error: 'names must be an array of strings' });
+    }
+
+    if (provider && !isEmbeddingProviderRegistered(provider)) {
+        return res.status(400).json({
+            matches: [],
+            error: `Unknown embedding provider '${provider}'`,
+        });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        db = await getServerDB();
+        // Embed in the browser's vector space, not the server's
+        const matches = await canonicalizeSkills(names, {
+            minSimilarity,
+            provider,
+            db,
+        });
+        return res.status(200).json({ matches });
+    } catch (error) {
+        console.error('Canonicalize skills API error:', error);
+        return res.status(500).json({
+            matches: [],
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -0,0 +1,107 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../../lib/ServerSurreal';
+import {
+    exportCatalogue,
+    importCatalogue,
+    serializeCatalogue,
+} from '../../../lib/SkillCatalogue';
+import type {
+    CatalogueFile,
+    CatalogueFormat,
+    CatalogueImportResult,
+} from '../../../constants/SkillTypes';
+
+type CatalogueRequest = {
+    files?: CatalogueFile[];
+    dryRun?: boolean;
+};
+
+type CatalogueResponse = {
+    files?: CatalogueFile[];
+    result?: CatalogueImportResult;
+    error?: string;
+};
+
+const FORMATS: CatalogueFormat[] = ['json', 'csv', 'esco'];
+
+// ESCO exports run to several megabytes
+export const config = {
+    api: { bodyParser: { sizeLimit: '10mb' } },
+};
+
+/**
+ * API Route for exporting and importing the skill catalogue
+ *
+ * GET  /api/skills/catalogue?format=json|csv|esco&inferred=true
+ * POST /api/skills/catalogue { files: [{ name, content }], dryRun? }
+ *
+ * Applying an import (dryRun: false) needs a signed-in user's token.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<CatalogueResponse>
+) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (req.method === 'GET') {
+        const format = String(req.query.format || 'json') as CatalogueFormat;
+        if (!FORMATS.includes(format)) {
+            return res
+                .status(400)
+                .json({ error: `format must be one of ${FORMATS.join(', ')}` });
+        }
+
+        let db: Surreal | undefined;
+        try {
+            db = await getServerDB();
+            const catalogue = await exportCatalogue({
+                includeInferred: req.query.inferred === 'true',
+                db,
+            });
+            return res
+                .status(200)
+                .json({ files: serializeCatalogue(catalogue, format) });
+        } catch (error) {
+            console.error('Catalogue export API error:', error);
+            return res.status(500).json({
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        } finally {
+            await db?.close();
+        }
+    }
+
+    const { files, dryRun = true } = (req.body || {}) as CatalogueRequest;
+    if (
+        !Array.isArray(files) ||
+        files.length === 0 ||
+        files.some(
+            (file) =>
+                typeof file?.name !== 'string' ||
+                typeof file?.content !== 'string'
+        )
+    ) {
+        return res.status(400).json({
+            error: 'files must be a non-empty array of { name, content }',
+        });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (!dryRun && !(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        const result = await importCatalogue(files, { dryRun, db });
+        return res.status(200).json({ result });
+    } catch (error) {
+        console.error('Catalogue import API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../../lib/ServerSurreal';
+import { deleteSkill } from '../../../lib/SkillLifecycle';
+import type {
+    SkillDeleteMode,
+    SkillDeleteResult,
+    SkillID,
+} from '../../../constants/SkillTypes';
+
+type DeleteSkillRequest = {
+    id?: SkillID;
+    mode?: SkillDeleteMode;
+    reassignTo?: SkillID;
+};
+
+type DeleteSkillResponse = {
+    result?: SkillDeleteResult;
+    error?: string;
+};
+
+/**
+ * API Route for deleting a skill together with its edges, or after moving them to another skill
+ *
+ * POST /api/skills/delete { id, mode: "cascade" | "reassign", reassignTo? }   (signed-in users only)
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<DeleteSkillResponse>
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id, mode, reassignTo } = (req.body || {}) as DeleteSkillRequest;
+    if (!id) {
+        return res.status(400).json({ error: 'id is required' });
+    }
+    if (mode !== 'cascade' && mode !== 'reassign') {
+        return res
+            .status(400)
+            .json({ error: 'mode must be cascade or reassign' });
+    }
+    if (mode === 'reassign' && (!reassignTo || reassignTo === id)) {
+        return res
+            .status(400)
+            .json({ error: 'reassignTo must be another skill' });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (!(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        const result = await deleteSkill(id, { mode, reassignTo, db });
+        return res.status(200).json({ result });
+    } catch (error) {
+        console.error('Delete skill API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
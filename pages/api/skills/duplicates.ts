@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB } from '../../../lib/ServerSurreal';
+import { findDuplicateSkills } from '../../../lib/SkillDuplicates';
+import {
+    isEmbeddingProviderRegistered,
+    type EmbeddingProviderType,
+} from '../../../lib/EmbeddingProvider';
+import type { DuplicateSkillCluster } from '../../../constants/SkillTypes';
+
+type DuplicateSkillsRequest = {
+    threshold?: number;
+    weights?: { name?: number; embedding?: number };
+    provider?: EmbeddingProviderType;
+};
+
+type DuplicateSkillsResponse = {
+    clusters: DuplicateSkillCluster[];
+    error?: string;
+};
+
+/**
+ * API Route for finding near-duplicate skills
+ *
+ * POST /api/skills/duplicates { threshold?, weights?, provider? }
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<DuplicateSkillsResponse>
+) {
+    if (req.method !== 'POST') {
+        return res
+            .status(405)
+            .json({ clusters: [], error: 'Method not allowed' });
+    }
+
+    const { threshold, weights, provider } = (req.body ||
+        {}) as DuplicateSkillsRequest;
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+        return res
+            .status(400)
+            .json({ clusters: [], error: 'threshold must be in (0, 1]' });
+    }
+
+    if (provider && !isEmbeddingProviderRegistered(provider)) {
+        return res.status(400).json({
+            clusters: [],
+            error: `Unknown embedding provider '${provider}'`,
+        });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        db = await getServerDB();
+        // Compare vectors in the same space as the browser's configuration
+        const clusters = await findDuplicateSkills({
+            threshold,
+            weights,
+            provider,
+            db,
+        });
+        return res.status(200).json({ clusters });
+    } catch (error) {
+        console.error('Duplicate skills API error:', error);
+        return res.status(500).json({
+            clusters: [],
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../../lib/ServerSurreal';
+import { inferSkillRelations } from '../../../lib/SkillCooccurrence';
+import type {
+    CooccurrenceMetric,
+    SkillRelationInferenceResult,
+} from '../../../constants/SkillTypes';
+
+type InferRelationsRequest = {
+    metric?: CooccurrenceMetric;
+    threshold?: number;
+    minSupport?: number;
+    dryRun?: boolean;
+};
+
+type InferRelationsResponse = {
+    result?: SkillRelationInferenceResult;
+    error?: string;
+};
+
+/**
+ * API Route for inferring commonly_used_with edges from skill co-occurrence
+ *
+ * POST /api/skills/infer-relations { metric?, threshold?, minSupport?, dryRun? }
+ *
+ * Anything but a dry run writes edges, so it needs a signed-in user's token.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<InferRelationsResponse>
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { metric, threshold, minSupport, dryRun } = (req.body ||
+        {}) as InferRelationsRequest;
+    if (metric !== undefined && metric !== 'jaccard' && metric !== 'npmi') {
+        return res
+            .status(400)
+            .json({ error: 'metric must be jaccard or npmi' });
+    }
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+        return res.status(400).json({ error: 'threshold must be in [0, 1]' });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (!dryRun && !(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        const result = await inferSkillRelations({
+            metric,
+            threshold,
+            minSupport,
+            dryRun,
+            db,
+        });
+        return res.status(200).json({ result });
+    } catch (error) {
+        console.error('Infer skill relations API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../../lib/ServerSurreal';
+import { mergeSkills } from '../../../lib/SkillDuplicates';
+import type { SkillID, SkillMergeResult } from '../../../constants/SkillTypes';
+
+type MergeSkillsRequest = {
+    survivor?: SkillID;
+    duplicates?: SkillID[];
+};
+
+type MergeSkillsResponse = {
+    result?: SkillMergeResult;
+    error?: string;
+};
+
+/**
+ * API Route for merging duplicate skills into one
+ *
+ * POST /api/skills/merge { survivor, duplicates }   (signed-in users only)
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<MergeSkillsResponse>
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { survivor, duplicates } = (req.body || {}) as MergeSkillsRequest;
+    if (!survivor || !Array.isArray(duplicates) || duplicates.length === 0) {
+        return res
+            .status(400)
+            .json({ error: 'survivor and duplicates are required' });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (!(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        const result = await mergeSkills(survivor, duplicates, db);
+        return res.status(200).json({ result });
+    } catch (error) {
+        console.error('Merge skills API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
 import Surreal from 'surrealdb';
+import { getScoringProfile } from '../../lib/ScoringProfiles';
+import { canonicalizeSkills } from '../../lib/SkillCanonical';
 
 const openai = new OpenAI({
     apiKey: process.env.TYPHOON_API_KEY || 'sk-NdjwJAxkTlcjWbOH3otMMa0HraiPWe7flFR6y446WxWMlWzA',
@@ -82,8 +84,8 @@ Examples:
 }
 
 // Find dream team using graph-based scoring
-async function findDreamTeam(skills: string[], teamSize: number = 5): Promise<TeamResult> {
-    if (skills.length === 0) {
+async function findDreamTeam(requestedSkills: string[], teamSize: number = 5, profileName?: string): Promise<TeamResult> {
+    if (requestedSkills.length === 0) {
         return {
             team: [],
             requiredSkills: [],
@@ -96,8 +98,13 @@ async function findDreamTeam(skills: string[], teamSize: number = 5): Promise<Te
     const db = await getServerDB();
     
     try {
-        // Normalize skill names for matching
-        const normalizedSkills = skills.map(s => s.toLowerCase().trim());
+        const { team: weights } = await getScoringProfile(profileName, db);
+        
+        // Resolve spellings like "k8s" or "ReactJS" to catalogue skills;
+        // unmatched names stay as they are and end up uncovered
+        const canonical = await canonicalizeSkills(requestedSkills, { db });
+        const skills = Array.from(new Set(canonical.map(c => c.skill ? c.skill.name : c.input)));
+        const skillIds = canonical.flatMap(c => c.skill ? [c.skill.id] : []);
         
         // Simpler approach: Get employees with skills, then process in JS
         const employeesWithSkillsQuery = `
@@ -109,11 +116,11 @@ async function findDreamTeam(skills: string[], teamSize: number = 5): Promise<Te
                 out.name AS skill_name,
                 proficiency
             FROM has_skill
-            WHERE string::lowercase(out.name) IN $skills
+            WHERE out IN $skills
         `;
         
         const result = await db.query<[unknown[]]>(employeesWithSkillsQuery, { 
-            skills: normalizedSkills
+            skills: skillIds
         });
         
         // Process results to group by employee
@@ -185,7 +192,7 @@ async function findDreamTeam(skills: string[], teamSize: number = 5): Promise<Te
             
             const skillCoverage = emp.skills.length / skills.length;
             const collabCount = collabCounts.get(emp.id) || 0;
-            const compatibilityScore = Math.min(collabCount / 3, 1);
+            const compatibilityScore = Math.min(collabCount / weights.collaborations_for_max, 1);
             
             candidates.push({
                 id: emp.id,
@@ -195,7 +202,7 @@ async function findDreamTeam(skills: string[], teamSize: number = 5): Promise<Te
                 skills: emp.skills,
                 skillCoverage,
                 compatibilityScore,
-                totalScore: skillCoverage * 0.7 + compatibilityScore * 0.3
+                totalScore: skillCoverage * weights.coverage_weight + compatibilityScore * weights.compatibility_weight
             });
         }
         
@@ -245,7 +252,7 @@ export default async function handler(
     }
 
     try {
-        const { prompt, skills: providedSkills, teamSize = 5 } = req.body;
+        const { prompt, skills: providedSkills, teamSize = 5, profile } = req.body;
         
         if (!prompt && (!providedSkills || providedSkills.length === 0)) {
             return res.status(400).json({ error: 'Either prompt or skills array is required' });
@@ -257,7 +264,7 @@ export default async function handler(
             : await extractSkillsFromPrompt(prompt);
         
         // Find the dream team
-        const result = await findDreamTeam(skills, teamSize);
+        const result = await findDreamTeam(skills, teamSize, profile);
         
         return res.status(200).json(result);
         
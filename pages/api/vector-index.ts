@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Surreal from 'surrealdb';
+import { getServerDB, requireCaller } from '../../lib/ServerSurreal';
+import { getEmbeddingDimensions } from '../../lib/EmbeddingProvider';
+import {
+    defineVectorIndexes,
+    getVectorIndexDimensions,
+    type VectorTable,
+} from '../../lib/VectorSearch';
+
+type VectorIndexResponse = {
+    indexes?: Record<VectorTable, number | null>;
+    changes?: Record<VectorTable, { changed: boolean; cleared: number }>;
+    dimensions?: number;
+    error?: string;
+};
+
+/**
+ * API Route to inspect and (re)define the HNSW vector indexes
+ *
+ * GET  /api/vector-index                   current index dimension per table
+ * POST /api/vector-index { dimensions? }   define indexes for the given (or configured) dimension
+ *
+ * POST can clear stored embeddings, so it needs a signed-in user's token.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<VectorIndexResponse>
+) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    let db: Surreal | undefined;
+
+    try {
+        if (req.method === 'POST' && !(await requireCaller(req, res))) return;
+        db = await getServerDB();
+        if (req.method === 'GET') {
+            const indexes = await getVectorIndexDimensions(db);
+            return res
+                .status(200)
+                .json({ indexes, dimensions: getEmbeddingDimensions() });
+        }
+
+        const dimensions = Number(
+            req.body?.dimensions ?? getEmbeddingDimensions()
+        );
+        if (!Number.isInteger(dimensions) || dimensions < 1) {
+            return res
+                .status(400)
+                .json({ error: 'dimensions must be a positive integer' });
+        }
+
+        const changes = await defineVectorIndexes(db, dimensions);
+        return res.status(200).json({ changes, dimensions });
+    } catch (error) {
+        console.error('Vector index API error:', error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    } finally {
+        await db?.close();
+    }
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import Head from 'next/head';
+import EmbeddingMap from '../components/EmbeddingMap';
+
+export default function EmbeddingMapPage() {
+    return (
+        <>
+            <Head>
+                <title>Embedding Map | SurrealDB Demo</title>
+                <meta
+                    name="description"
+                    content="2D projection of skill and employee embeddings"
+                />
+            </Head>
+            <div className="min-h-screen bg-slate-50 p-6">
+                <div className="max-w-7xl mx-auto">
+                    <div className="mb-6">
+                        <h1 className="text-3xl font-bold text-neutral-900">
+                            Embedding Map
+                        </h1>
+                        <p className="text-neutral-600 mt-2">
+                            Skill and employee embeddings projected to 2D, to
+                            check how well the current provider separates them
+                        </p>
+                    </div>
+                    <div className="bg-white rounded-xl shadow-lg border border-neutral-200 overflow-hidden">
+                        <EmbeddingMap />
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
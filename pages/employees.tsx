@@ -14,6 +14,7 @@ import { useEmployees, useEmployeeWithSkills, useDeleteEmployee } from '../const
 import type { EmployeeID } from '../constants/SkillTypes';
 import AddEmployeeModal from '../components/AddEmployeeModal';
 import ResumeUploadModal from '../components/ResumeUploadModal';
+import SimilarPeoplePanel from '../components/SimilarPeoplePanel';
 
 export default function EmployeesPage() {
     // Filters
@@ -211,7 +212,7 @@ export default function EmployeesPage() {
                                                 </div>
                                             </td>
                                         </tr>
-                                        {/* Expanded skills row */}
+                                        {/* Expanded skills and similar people row */}
                                         {expandedId === emp.id && expandedEmployee?.skills && (
                                             <tr className="bg-indigo-50/50">
                                                 <td colSpan={5} className="px-6 py-4">
@@ -244,6 +245,7 @@ export default function EmployeesPage() {
                                                             ))
                                                         )}
                                                     </div>
+                                                    <SimilarPeoplePanel employeeId={emp.id} />
                                                 </td>
                                             </tr>
                                         )}
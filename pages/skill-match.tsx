@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import { Users, Grid, Zap, RefreshCw, Check, AlertCircle, ArrowLeft } from 'react-feather';
@@ -9,10 +9,14 @@ import CandidateCard from '../components/CandidateCard';
 import { 
     useSkills, 
     useDepartments,
-    useGenerateSkillEmbeddings,
-    useGenerateEmployeeEmbeddings 
+    useReembedStale,
+    useStaleEmbeddingCounts,
+    useScoringProfiles,
+    useCandidateSearch,
 } from '../constants/SkillQueries';
+import { DEFAULT_SCORING_PROFILE_NAME } from '../lib/ScoringProfiles';
 import type { CandidateMatch, SkillID } from '../constants/SkillTypes';
+import type { ReembedProgress } from '../lib/Reembed';
 
 export default function SkillMatchPage() {
     const [view, setView] = useState<'chat' | 'browse'>('chat');
@@ -20,18 +24,34 @@ export default function SkillMatchPage() {
     const [selectedSkills, setSelectedSkills] = useState<SkillID[]>([]);
     const [skillSearch, setSkillSearch] = useState('');
     const [department, setDepartment] = useState('');
+    const [query, setQuery] = useState('');
+    const [profile, setProfile] = useState(DEFAULT_SCORING_PROFILE_NAME);
     
     const { data: skills = [] } = useSkills();
     const { data: departments = [] } = useDepartments();
-    const generateSkillEmbeddings = useGenerateSkillEmbeddings();
-    const generateEmployeeEmbeddings = useGenerateEmployeeEmbeddings();
+    const { data: profiles = [] } = useScoringProfiles();
+    const { mutate: searchCandidates, data: ranked } = useCandidateSearch();
+    const reembed = useReembedStale();
+    const { data: staleCounts, refetch: refetchStaleCounts } = useStaleEmbeddingCounts();
+    const [progress, setProgress] = useState<ReembedProgress | null>(null);
+    const staleTotal = staleCounts
+        ? staleCounts.skill + staleCounts.employee + staleCounts.project + staleCounts.employee_chunk
+        : 0;
+    
+    // Rank the last chat query with the chosen scoring profile; the chat's own
+    // skill matches are shown until (or unless) that search returns candidates
+    useEffect(() => {
+        if (query) searchCandidates({ query, profile });
+    }, [query, profile, searchCandidates]);
+    const results = ranked?.candidates.length ? ranked.candidates : candidates;
     
     const handleGenerateEmbeddings = async () => {
         try {
-            await generateSkillEmbeddings.mutateAsync();
-            await generateEmployeeEmbeddings.mutateAsync();
+            await reembed.mutateAsync({ onProgress: setProgress });
         } catch (error) {
             console.error('Failed to generate embeddings:', error);
+        } finally {
+            setProgress(null);
         }
     };
     
@@ -73,24 +93,28 @@ export default function SkillMatchPage() {
                         </Link>
                         
                         <button 
-                            className={`generate-btn ${generateSkillEmbeddings.isPending || generateEmployeeEmbeddings.isPending ? 'loading' : ''}`}
+                            className={`generate-btn ${reembed.isPending ? 'loading' : ''}`}
                             onClick={handleGenerateEmbeddings}
-                            disabled={generateSkillEmbeddings.isPending || generateEmployeeEmbeddings.isPending}
-                            title="Generate embeddings for all skills and employees"
+                            disabled={reembed.isPending}
+                            title="Generate missing embeddings and re-embed ones made by another provider or model or from edited text. Queued records are also picked up by the background worker."
                         >
-                            {generateSkillEmbeddings.isPending || generateEmployeeEmbeddings.isPending ? (
+                            {reembed.isPending ? (
                                 <RefreshCw size={16} className="spin" />
-                            ) : generateSkillEmbeddings.isSuccess && generateEmployeeEmbeddings.isSuccess ? (
+                            ) : reembed.isSuccess && staleTotal === 0 ? (
                                 <Check size={16} />
                             ) : (
                                 <Zap size={16} />
                             )}
-                            {generateSkillEmbeddings.isPending || generateEmployeeEmbeddings.isPending 
-                                ? 'Generating...' 
-                                : 'Generate Embeddings'}
+                            {reembed.isPending
+                                ? progress
+                                    ? `Embedding ${progress.table === 'employee_chunk' ? 'profile sections' : `${progress.table}s`} ${progress.processed}/${progress.total}`
+                                    : 'Generating...'
+                                : staleTotal > 0
+                                    ? `Generate Embeddings (${staleTotal} stale${staleCounts?.queued ? `, ${staleCounts.queued} queued` : ''})`
+                                    : 'Generate Embeddings'}
                         </button>
                         
-                        <EmbeddingSettings />
+                        <EmbeddingSettings onConfigChange={() => refetchStaleCounts()} />
                     </div>
                 </header>
                 
@@ -115,14 +139,27 @@ export default function SkillMatchPage() {
                     {view === 'chat' ? (
                         <div className="chat-layout">
                             <div className="chat-panel">
-                                <SkillChat onResultsChange={setCandidates} />
+                                <SkillChat onResultsChange={setCandidates} onQuery={setQuery} />
                             </div>
                             
-                            {candidates.length > 0 && (
+                            {results.length > 0 && (
                                 <div className="results-panel">
-                                    <h3>Top Candidates</h3>
+                                    <div className="results-header">
+                                        <h3>Top Candidates</h3>
+                                        <select
+                                            value={profile}
+                                            onChange={(e) => setProfile(e.target.value)}
+                                            title="Scoring profile"
+                                        >
+                                            {profiles.map(p => (
+                                                <option key={p.name} value={p.name}>
+                                                    {p.name}{p.description ? ` – ${p.description}` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
                                     <div className="candidates-list">
-                                        {candidates.map((candidate, idx) => (
+                                        {results.map((candidate, idx) => (
                                             <CandidateCard 
                                                 key={candidate.employee.id}
                                                 candidate={candidate}
@@ -368,11 +405,29 @@ export default function SkillMatchPage() {
                     min-height: 500px;
                 }
                 
+                .results-header {
+                    display: flex;
+                    align-items: center;
+                    justify-content: space-between;
+                    gap: 12px;
+                    margin-bottom: 20px;
+                }
+                
                 .results-panel h3 {
                     font-size: 1.1rem;
                     font-weight: 600;
-                    margin: 0 0 20px 0;
+                    margin: 0;
+                    color: #fff;
+                }
+                
+                .results-header select {
+                    background: rgba(0, 0, 0, 0.3);
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    border-radius: 8px;
+                    padding: 6px 10px;
                     color: #fff;
+                    font-size: 0.85rem;
+                    outline: none;
                 }
                 
                 .candidates-list {
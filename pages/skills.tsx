@@ -1,25 +1,43 @@
 import React, { useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
-import { ArrowLeft, Search, Tag, Users } from 'react-feather';
-import { useSkills, useSkillCategories, useSkillWithEmployees } from '../constants/SkillQueries';
+import { ArrowLeft, GitBranch, GitMerge, RefreshCw, Search, Tag, Users } from 'react-feather';
+import { useSkills, useSkillCategories, useSkillLineage, useSkillWithEmployees } from '../constants/SkillQueries';
+import CatalogueSyncPanel from '../components/CatalogueSyncPanel';
+import DuplicateSkillsPanel from '../components/DuplicateSkillsPanel';
+import SkillManagePanel from '../components/SkillManagePanel';
+import SkillTreePanel from '../components/SkillTreePanel';
 import type { SkillID } from '../constants/SkillTypes';
 
 export default function SkillsPage() {
     const [search, setSearch] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('');
     const [expandedId, setExpandedId] = useState<SkillID | null>(null);
+    const [showDuplicates, setShowDuplicates] = useState(false);
+    const [showTree, setShowTree] = useState(false);
+    const [showCatalogue, setShowCatalogue] = useState(false);
+    const [includeSubSkills, setIncludeSubSkills] = useState(false);
+    const [showDeprecated, setShowDeprecated] = useState(false);
     
-    const { data: skills = [], isLoading } = useSkills();
+    // Deprecated skills are listed here so they can be restored or deleted
+    const { data: skills = [], isLoading } = useSkills({ includeDeprecated: true });
     const { data: categories = [] } = useSkillCategories();
-    const { data: expandedSkill } = useSkillWithEmployees({ id: expandedId ?? undefined });
+    const { data: expandedSkill } = useSkillWithEmployees({ id: expandedId ?? undefined, includeDescendants: includeSubSkills });
+    const { data: lineage } = useSkillLineage({ id: expandedId ?? undefined });
+    
+    // Picking a skill in the tree narrows the grid to it and opens its card
+    const selectFromTree = (id: SkillID, name: string) => {
+        setSearch(name);
+        setSelectedCategory('');
+        setExpandedId(id);
+    };
     
     const filteredSkills = skills.filter(skill => {
         const matchesSearch = !search || 
             skill.name.toLowerCase().includes(search.toLowerCase()) ||
             skill.description?.toLowerCase().includes(search.toLowerCase());
         const matchesCat = !selectedCategory || skill.category === selectedCategory;
-        return matchesSearch && matchesCat;
+        return matchesSearch && matchesCat && (showDeprecated || !skill.deprecated);
     });
     
     const groupedSkills = filteredSkills.reduce((acc, skill) => {
@@ -42,6 +60,24 @@ export default function SkillsPage() {
                     </Link>
                     <h1>Skills</h1>
                     <span>{filteredSkills.length} skills</span>
+                    <button
+                        className={`dup-toggle ${showTree ? 'active' : ''}`}
+                        onClick={() => setShowTree(!showTree)}
+                    >
+                        <GitBranch size={14} /> Hierarchy
+                    </button>
+                    <button
+                        className={`dup-toggle ${showDuplicates ? 'active' : ''}`}
+                        onClick={() => setShowDuplicates(!showDuplicates)}
+                    >
+                        <GitMerge size={14} /> Find duplicates
+                    </button>
+                    <button
+                        className={`dup-toggle ${showCatalogue ? 'active' : ''}`}
+                        onClick={() => setShowCatalogue(!showCatalogue)}
+                    >
+                        <RefreshCw size={14} /> Import / Export
+                    </button>
                 </header>
                 
                 <div className="filters">
@@ -57,8 +93,20 @@ export default function SkillsPage() {
                         <option value="">All Categories</option>
                         {categories.map(c => <option key={c} value={c}>{c}</option>)}
                     </select>
+                    <label className="show-deprecated">
+                        <input
+                            type="checkbox"
+                            checked={showDeprecated}
+                            onChange={(e) => setShowDeprecated(e.target.checked)}
+                        />
+                        Show deprecated
+                    </label>
                 </div>
                 
+                {showTree && <SkillTreePanel selectedId={expandedId} onSelect={selectFromTree} />}
+                {showDuplicates && <DuplicateSkillsPanel />}
+                {showCatalogue && <CatalogueSyncPanel />}
+                
                 <main>
                     {isLoading ? (
                         <p className="center">Loading...</p>
@@ -72,10 +120,18 @@ export default function SkillsPage() {
                                     {catSkills.map(skill => (
                                         <div 
                                             key={skill.id}
-                                            className={`card ${expandedId === skill.id ? 'expanded' : ''}`}
+                                            className={`card ${expandedId === skill.id ? 'expanded' : ''} ${skill.deprecated ? 'deprecated' : ''}`}
                                             onClick={() => setExpandedId(expandedId === skill.id ? null : skill.id)}
                                         >
-                                            <h3>{skill.name}</h3>
+                                            <h3>
+                                                {skill.name}
+                                                {skill.deprecated && (
+                                                    <span className="badge">
+                                                        deprecated
+                                                        {skill.replaced_by && ` → ${skills.find(s => String(s.id) === String(skill.replaced_by))?.name ?? 'unknown'}`}
+                                                    </span>
+                                                )}
+                                            </h3>
                                             {skill.description && (
                                                 <p className="desc">{skill.description}</p>
                                             )}
@@ -88,14 +144,31 @@ export default function SkillsPage() {
                                                     ))}
                                                 </div>
                                             )}
+                                            {expandedId === skill.id && lineage && lineage.ancestors.length > 0 && (
+                                                <p className="lineage">
+                                                    {lineage.ancestors.slice().reverse().map(step => step.skill.name).join(' › ')} › {skill.name}
+                                                </p>
+                                            )}
                                             {expandedId === skill.id && expandedSkill?.employees && (
                                                 <div className="employees">
-                                                    <h4><Users size={14} /> {expandedSkill.employees.length} Employees</h4>
+                                                    <h4>
+                                                        <Users size={14} /> {expandedSkill.employees.length} Employees
+                                                        {lineage && lineage.descendants.length > 0 && (
+                                                            <label className="sub-toggle" onClick={(e) => e.stopPropagation()}>
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={includeSubSkills}
+                                                                    onChange={(e) => setIncludeSubSkills(e.target.checked)}
+                                                                />
+                                                                incl. {lineage.descendants.length} sub-skills
+                                                            </label>
+                                                        )}
+                                                    </h4>
                                                     <div className="emp-list">
-                                                        {expandedSkill.employees.map(({ employee, proficiency }) => (
+                                                        {expandedSkill.employees.map(({ employee, proficiency, via }) => (
                                                             <div key={employee.id} className="emp">
                                                                 <span className="name">{employee.name}</span>
-                                                                <span className="role">{employee.role}</span>
+                                                                <span className="role">{via ? `via ${via.name}` : employee.role}</span>
                                                                 <div className="bars">
                                                                     {[1,2,3,4,5].map(n => <span key={n} className={n <= proficiency ? 'on' : ''} />)}
                                                                 </div>
@@ -104,6 +177,15 @@ export default function SkillsPage() {
                                                     </div>
                                                 </div>
                                             )}
+                                            {expandedId === skill.id && (
+                                                <SkillManagePanel
+                                                    key={String(skill.id)}
+                                                    skill={skill}
+                                                    skills={skills}
+                                                    categories={categories}
+                                                    onDeleted={() => setExpandedId(null)}
+                                                />
+                                            )}
                                         </div>
                                     ))}
                                 </div>
@@ -118,6 +200,8 @@ export default function SkillsPage() {
                 header { display: flex; align-items: center; gap: 16px; padding: 20px 40px; border-bottom: 1px solid rgba(255,255,255,0.1); background: rgba(0,0,0,0.2); }
                 header h1 { flex: 1; margin: 0; font-size: 1.3rem; }
                 header span { color: rgba(255,255,255,0.5); font-size: 0.85rem; }
+                .dup-toggle { display: flex; align-items: center; gap: 6px; background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.15); border-radius: 8px; padding: 8px 12px; color: rgba(255,255,255,0.8); font-size: 0.8rem; cursor: pointer; }
+                .dup-toggle.active { border-color: #6366f1; background: rgba(99,102,241,0.2); }
                 .back { width: 36px; height: 36px; border-radius: 8px; background: rgba(255,255,255,0.1); color: rgba(255,255,255,0.7); display: flex; align-items: center; justify-content: center; text-decoration: none; }
                 .filters { display: flex; gap: 12px; padding: 20px 40px; }
                 .search { flex: 1; max-width: 300px; display: flex; align-items: center; gap: 10px; background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.15); border-radius: 10px; padding: 0 14px; color: rgba(255,255,255,0.5); }
@@ -132,12 +216,17 @@ export default function SkillsPage() {
                 .card { background: rgba(255,255,255,0.05); border: 1px solid rgba(255,255,255,0.1); border-radius: 12px; padding: 16px; cursor: pointer; transition: all 0.2s; }
                 .card:hover { background: rgba(255,255,255,0.08); transform: translateY(-2px); }
                 .card.expanded { border-color: #6366f1; }
+                .card.deprecated { opacity: 0.6; }
                 .card h3 { margin: 0 0 8px; font-size: 0.95rem; }
+                .badge { margin-left: 8px; background: rgba(251,191,36,0.15); color: #fbbf24; border-radius: 10px; padding: 2px 8px; font-size: 0.65rem; font-weight: normal; }
+                .show-deprecated { display: flex; align-items: center; gap: 6px; color: rgba(255,255,255,0.6); font-size: 0.8rem; cursor: pointer; }
                 .desc { color: rgba(255,255,255,0.5); font-size: 0.8rem; line-height: 1.4; margin: 0 0 10px; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
                 .tags { display: flex; gap: 6px; flex-wrap: wrap; }
                 .tag { display: inline-flex; align-items: center; gap: 4px; background: rgba(255,255,255,0.05); border-radius: 12px; padding: 4px 8px; font-size: 0.7rem; color: rgba(255,255,255,0.6); }
                 .employees { margin-top: 12px; padding-top: 12px; border-top: 1px solid rgba(255,255,255,0.1); }
+                .lineage { margin: 0 0 8px; color: rgba(255,255,255,0.45); font-size: 0.7rem; }
                 .employees h4 { display: flex; align-items: center; gap: 6px; margin: 0 0 10px; font-size: 0.8rem; color: rgba(255,255,255,0.7); }
+                .sub-toggle { margin-left: auto; display: flex; align-items: center; gap: 4px; font-weight: normal; font-size: 0.7rem; color: rgba(255,255,255,0.5); cursor: pointer; }
                 .emp-list { display: flex; flex-direction: column; gap: 8px; }
                 .emp { display: grid; grid-template-columns: 1fr 1fr auto; gap: 8px; align-items: center; background: rgba(0,0,0,0.2); border-radius: 6px; padding: 8px 10px; font-size: 0.75rem; }
                 .emp .name { font-weight: 500; }
@@ -0,0 +1,184 @@
+/**
+ * Offline retrieval evaluation
+ *
+ *   npm run eval:retrieval -- [--fixture scripts/fixtures/retrieval.json]
+ *       [--providers mock,local] [--profiles default,recruiter]
+ *       [--fusion rrf,weighted] [--json report.json] [--no-seed]
+ *
+ * Seeds a separate namespace/database of a local SurrealDB (EVAL_SURREAL_*,
+ * default eval/retrieval) with the demo data from tables/, then reports
+ * recall@k, MRR and nDCG@k per provider and scoring setup. Nothing here
+ * needs network access beyond the local database; providers that do
+ * (openai) are reported as failed when offline.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import Surreal from 'surrealdb';
+import { configureEmbeddingCache } from '../lib/EmbeddingCache';
+import type { EmbeddingProviderType } from '../lib/EmbeddingProvider';
+import {
+    evaluateRetrieval,
+    type EvalFixture,
+    type EvalSetup,
+    type EvalSetupReport,
+} from '../lib/RetrievalEval';
+import type { FusionMethod } from '../constants/SkillTypes';
+
+const SEED_FILES = [
+    'reset_db.surql',
+    'rebuild_db.surql',
+    'search_indexes.surql',
+    'employee_chunk.surql',
+];
+
+type Args = {
+    fixture: string;
+    providers: EmbeddingProviderType[];
+    profiles: string[];
+    fusion: FusionMethod[];
+    json?: string;
+    seed: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+    const args: Args = {
+        fixture: join(__dirname, 'fixtures', 'retrieval.json'),
+        providers: ['mock', 'local'],
+        profiles: ['default'],
+        fusion: ['rrf'],
+        seed: true,
+    };
+    const list = (value: string | undefined) =>
+        (value || '')
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean);
+
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--fixture':
+                args.fixture = value;
+                i++;
+                break;
+            case '--providers':
+                args.providers = list(value) as EmbeddingProviderType[];
+                i++;
+                break;
+            case '--profiles':
+                args.profiles = list(value);
+                i++;
+                break;
+            case '--fusion':
+                args.fusion = list(value) as FusionMethod[];
+                i++;
+                break;
+            case '--json':
+                args.json = value;
+                i++;
+                break;
+            case '--no-seed':
+                args.seed = false;
+                break;
+            default:
+                throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+    }
+    return args;
+}
+
+async function connect(): Promise<Surreal> {
+    const db = new Surreal();
+    await db.connect(
+        process.env.EVAL_SURREAL_ENDPOINT ??
+            process.env.NEXT_PUBLIC_SURREAL_ENDPOINT ??
+            'http://localhost:8000/rpc'
+    );
+    await db.use({
+        namespace: process.env.EVAL_SURREAL_NAMESPACE ?? 'eval',
+        database: process.env.EVAL_SURREAL_DATABASE ?? 'retrieval',
+    });
+    await db.signin({
+        username: process.env.SURREAL_USER || 'root',
+        password: process.env.SURREAL_PASS || 'root',
+    });
+    return db;
+}
+
+async function seed(db: Surreal): Promise<void> {
+    for (const file of SEED_FILES) {
+        const sql = readFileSync(join(__dirname, '..', 'tables', file), 'utf8');
+        await db.query(sql);
+    }
+}
+
+function formatReport(reports: EvalSetupReport[]): void {
+    const fixed = (value: number) => value.toFixed(3);
+    console.table(
+        reports.map((report) => ({
+            setup: report.label,
+            [`recall@${report.k}`]: report.error
+                ? '-'
+                : fixed(report.employees.recall),
+            MRR: report.error ? '-' : fixed(report.employees.mrr),
+            [`nDCG@${report.k}`]: report.error
+                ? '-'
+                : fixed(report.employees.ndcg),
+            [`skill recall@${report.k}`]: report.skills
+                ? fixed(report.skills.recall)
+                : '-',
+            'skill MRR': report.skills ? fixed(report.skills.mrr) : '-',
+            'time (ms)': report.durationMs,
+        }))
+    );
+    reports
+        .filter((report) => report.error)
+        .forEach((report) =>
+            console.error(`${report.label} failed: ${report.error}`)
+        );
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const fixture = JSON.parse(
+        readFileSync(args.fixture, 'utf8')
+    ) as EvalFixture;
+
+    // Keep evaluation vectors out of the app's embedding_cache table
+    configureEmbeddingCache({ persistent: false });
+
+    const setups: EvalSetup[] = [];
+    args.providers.forEach((provider) =>
+        args.profiles.forEach((profile) =>
+            args.fusion.forEach((method) =>
+                setups.push({ provider, profile, fusion: { method } })
+            )
+        )
+    );
+
+    const db = await connect();
+    try {
+        if (args.seed) await seed(db);
+        const reports = await evaluateRetrieval(db, fixture, setups);
+
+        console.log(
+            `${fixture.queries.length} queries from ${args.fixture}` +
+                (fixture.description ? ` (${fixture.description})` : '')
+        );
+        formatReport(reports);
+
+        if (args.json) {
+            writeFileSync(args.json, JSON.stringify(reports, null, 2));
+            console.log(`Report written to ${args.json}`);
+        }
+        if (reports.some((report) => report.error)) process.exitCode = 1;
+    } finally {
+        await db.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,94 @@
+/**
+ * Infer related_to edges from skill co-occurrence
+ *
+ *   npm run infer:related -- [--metric jaccard|npmi] [--threshold 0.3]
+ *       [--min-support 2] [--dry-run]
+ *
+ * Runs against the app's database (NEXT_PUBLIC_SURREAL_*). Creates or
+ * updates commonly_used_with edges for skills that show up together on
+ * employees and projects, and removes inferred edges that no longer pass.
+ * Curated edges are left alone.
+ */
+
+import { getServerDB } from '../lib/ServerSurreal';
+import {
+    DEFAULT_COOCCURRENCE_METRIC,
+    DEFAULT_COOCCURRENCE_THRESHOLD,
+    DEFAULT_MIN_SUPPORT,
+    inferSkillRelations,
+} from '../lib/SkillCooccurrence';
+import type { CooccurrenceMetric } from '../constants/SkillTypes';
+
+type Args = {
+    metric: CooccurrenceMetric;
+    threshold: number;
+    minSupport: number;
+    dryRun: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+    const args: Args = {
+        metric: DEFAULT_COOCCURRENCE_METRIC,
+        threshold: DEFAULT_COOCCURRENCE_THRESHOLD,
+        minSupport: DEFAULT_MIN_SUPPORT,
+        dryRun: false,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--metric':
+                if (value !== 'jaccard' && value !== 'npmi') {
+                    throw new Error(`Unknown metric: ${value}`);
+                }
+                args.metric = value;
+                i++;
+                break;
+            case '--threshold':
+                args.threshold = Number(value);
+                i++;
+                break;
+            case '--min-support':
+                args.minSupport = Number(value);
+                i++;
+                break;
+            case '--dry-run':
+                args.dryRun = true;
+                break;
+            default:
+                throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const db = await getServerDB();
+    try {
+        const result = await inferSkillRelations({ ...args, db });
+
+        console.table(
+            result.relations.map((relation) => ({
+                pair: `${relation.inName} + ${relation.outName}`,
+                support: relation.support,
+                jaccard: relation.jaccard,
+                npmi: relation.npmi,
+                action: relation.action,
+            }))
+        );
+        console.log(
+            `${result.baskets} baskets, ${result.metric} >= ${result.threshold}: ` +
+                `${result.created} created, ${result.updated} updated, ` +
+                `${result.removed} removed, ${result.skipped} skipped (curated)` +
+                (result.dryRun ? ' [dry run, nothing written]' : '')
+        );
+    } finally {
+        await db.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -1,12 +1,24 @@
 // Type declarations for @xenova/transformers (optional dependency)
 declare module '@xenova/transformers' {
+    export const env: {
+        localModelPath: string;
+        allowRemoteModels: boolean;
+        allowLocalModels: boolean;
+        cacheDir: string | null;
+    };
+
     export function pipeline(
         task: string,
         model: string,
         options?: Record<string, unknown>
     ): Promise<{
-        (input: string, options?: { pooling?: string; normalize?: boolean }): Promise<{
+        (
+            input: string | string[],
+            options?: { pooling?: string; normalize?: boolean }
+        ): Promise<{
             data: Float32Array;
+            dims: number[];
         }>;
+        model?: { config?: Record<string, number | undefined> };
     }>;
 }